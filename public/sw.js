@@ -1,42 +1,79 @@
-const CACHE_NAME = 'chalet-manager-v1';
+const CACHE_NAME = 'chalet-manager-v2';
+// Last answers to Supabase reads, so pages still fill in offline. Cleared on
+// sign-out; must match OFFLINE_DATA_CACHE in src/utils/offlineQueue.ts
+const DATA_CACHE_NAME = 'chalet-manager-data-v1';
 const urlsToCache = [
-  '/',
-  '/dashboard',
-  '/income',
-  '/expenses',
   '/manifest.json',
   '/icons/favicon-16x16.png',
   '/icons/favicon-32x32.png',
   '/icons/apple-touch-icon.png',
+  '/icons/icon-192x192.png',
+  '/icons/icon-512x512.png',
 ];
 
 self.addEventListener('install', (event) => {
   event.waitUntil(
     caches.open(CACHE_NAME)
       .then((cache) => cache.addAll(urlsToCache))
+      .then(() => self.skipWaiting())
   );
 });
 
+const cacheResponse = (request, response, cacheName = CACHE_NAME) => {
+  // Redirects, such as to the login page, must not stand in for the page
+  if (!response || response.status !== 200 || response.redirected) {
+    return response;
+  }
+  const responseToCache = response.clone();
+  caches.open(cacheName)
+    .then((cache) => {
+      cache.put(request, responseToCache);
+    });
+  return response;
+};
+
 self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Writes always go to the network; entries made offline are queued by the
+  // app itself
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  if (url.pathname.startsWith('/rest/v1/')) {
+    event.respondWith(
+      fetch(request)
+        .then((response) => cacheResponse(request, response, DATA_CACHE_NAME))
+        .catch(() => caches.open(DATA_CACHE_NAME)
+          .then((cache) => cache.match(request))
+          .then((response) => response || Response.error()))
+    );
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
+  // Build output never changes under the same URL
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/icons/')) {
+    event.respondWith(
+      caches.match(request)
+        .then((response) => response || fetch(request).then((response) => cacheResponse(request, response)))
+    );
+    return;
+  }
+
+  // Pages are fetched fresh when possible and served from the last visit
+  // while offline
   event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        if (response) {
-          return response;
-        }
-        return fetch(event.request)
-          .then((response) => {
-            if (!response || response.status !== 200 || response.type !== 'basic') {
-              return response;
-            }
-            const responseToCache = response.clone();
-            caches.open(CACHE_NAME)
-              .then((cache) => {
-                cache.put(event.request, responseToCache);
-              });
-            return response;
-          });
-      })
+    fetch(request)
+      .then((response) => cacheResponse(request, response))
+      .catch(() => caches.match(request)
+        .then((response) => response || (request.mode === 'navigate' ? caches.match('/') : undefined))
+        .then((response) => response || Response.error()))
   );
 });
 
@@ -45,11 +82,11 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== CACHE_NAME && cacheName !== DATA_CACHE_NAME) {
             return caches.delete(cacheName);
           }
         })
       );
-    })
+    }).then(() => self.clients.claim())
   );
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/utils/supabaseServer';
+import { getStorageAdapter } from '@/utils/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Looks the attachment up as the signed-in user, so other users' files 404
+const loadAttachment = async (id: string) => {
+  const supabase = await createSupabaseServerClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { supabase, response: NextResponse.json({ error: 'Not signed in' }, { status: 401 }) };
+  }
+
+  const { data: attachment } = await supabase
+    .from('expense_attachments')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (!attachment) {
+    return { supabase, response: NextResponse.json({ error: 'Attachment not found' }, { status: 404 }) };
+  }
+
+  return { supabase, attachment };
+};
+
+// The name the file is saved under: an ASCII fallback for old browsers and
+// the exact UTF-8 name for the rest (RFC 6266)
+const contentDisposition = (fileName: string) => {
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+// GET /api/attachments/<id> streams the file back for thumbnails and the viewer
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { supabase, attachment, response } = await loadAttachment(id);
+  if (!attachment) return response;
+
+  try {
+    const body = await getStorageAdapter(supabase).download(attachment.storage_path);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': attachment.content_type,
+        'Content-Disposition': contentDisposition(attachment.file_name),
+        // Uploads are served inline, so the browser must not guess a more
+        // dangerous type than the one stored
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600'
+      }
+    });
+  } catch (error) {
+    console.error('Error reading attachment:', error);
+    return NextResponse.json({ error: 'Failed to read attachment' }, { status: 500 });
+  }
+}
+
+// DELETE /api/attachments/<id> removes both the file and its row. The row
+// goes first: row-level security only lets owners and managers delete it,
+// and the file is only removed once that has succeeded.
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { supabase, attachment, response } = await loadAttachment(id);
+  if (!attachment) return response;
+
+  try {
+    const { data: deleted, error } = await supabase
+      .from('expense_attachments')
+      .delete()
+      .eq('id', attachment.id)
+      .select();
+
+    if (error) throw error;
+
+    if (!deleted?.length) {
+      return NextResponse.json({ error: 'Your role does not allow this' }, { status: 403 });
+    }
+
+    // The attachment is gone either way; a file left behind is only logged
+    await getStorageAdapter(supabase).remove(attachment.storage_path).catch(removeError => {
+      console.error('Error removing attachment file:', removeError);
+    });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    return NextResponse.json({ error: 'Failed to delete attachment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/utils/supabaseServer';
+import { getStorageAdapter } from '@/utils/storage';
+import { attachmentKey, validateAttachment } from '@/utils/attachments';
+import type { ExpenseAttachment } from '@/types/database.types';
+
+// POST /api/attachments with multipart fields expenseId and one or more files
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const form = await request.formData();
+  const expenseId = form.get('expenseId');
+  const files = form.getAll('files').filter((value): value is File => value instanceof File);
+
+  if (typeof expenseId !== 'string' || files.length === 0) {
+    return NextResponse.json({ error: 'expenseId and at least one file are required' }, { status: 400 });
+  }
+
+  const invalid = files.map(validateAttachment).find(Boolean);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  // Row-level security hides expenses outside the user's workspace
+  const { data: expense } = await supabase
+    .from('expenses')
+    .select('id, workspace_id')
+    .eq('id', expenseId)
+    .maybeSingle();
+
+  if (!expense) {
+    return NextResponse.json({ error: 'Expense not found' }, { status: 404 });
+  }
+
+  const storage = getStorageAdapter(supabase);
+  const attachments: ExpenseAttachment[] = [];
+
+  for (const file of files) {
+    const key = attachmentKey(expense.workspace_id, expenseId, file.name);
+
+    try {
+      await storage.upload(key, new Uint8Array(await file.arrayBuffer()), file.type);
+
+      const { data, error } = await supabase
+        .from('expense_attachments')
+        .insert([
+          {
+            workspace_id: expense.workspace_id,
+            user_id: user.id,
+            expense_id: expenseId,
+            file_name: file.name,
+            content_type: file.type,
+            size: file.size,
+            storage_path: key
+          }
+        ])
+        .select()
+        .single();
+
+      if (error) {
+        await storage.remove(key);
+        throw error;
+      }
+
+      attachments.push(data);
+    } catch (error) {
+      console.error('Error storing attachment:', error);
+      return NextResponse.json(
+        { error: `Failed to store ${file.name}`, attachments },
+        { status: 500 }
+      );
+    }
+  }
+
+  return NextResponse.json({ attachments }, { status: 201 });
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/utils/supabaseServer';
+import { getMailAdapter, type MailAdapter } from '@/utils/mail';
+import { activeMembership, fetchMemberships } from '@/utils/roles';
+import {
+  INVITATION_ROLES,
+  createInviteToken,
+  hashInviteToken,
+  invitationEmail,
+  inviteLink,
+  siteOrigin,
+  type InvitationRole
+} from '@/utils/invitations';
+
+// POST /api/invitations with JSON { email, role } invites someone to the
+// signed-in owner's active workspace and emails them the link. A newer
+// invitation to the same address replaces a pending one.
+export async function POST(request: NextRequest) {
+  const supabase = await createSupabaseServerClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const role = body?.role as InvitationRole;
+
+  if (!/^[^\s@]+@[^\s@]+$/.test(email) || !INVITATION_ROLES.includes(role)) {
+    return NextResponse.json({ error: 'A valid email and role are required' }, { status: 400 });
+  }
+
+  const workspace = activeMembership(await fetchMemberships(supabase, user.id));
+  if (!workspace || workspace.role !== 'OWNER') {
+    return NextResponse.json({ error: 'Only the workspace owner can invite people' }, { status: 403 });
+  }
+
+  const { data: memberEmails, error: memberError } = await supabase.rpc('workspace_member_emails');
+  if (memberError) {
+    console.error('Error fetching member emails:', memberError);
+    return NextResponse.json({ error: 'Failed to create the invitation' }, { status: 500 });
+  }
+  if ((memberEmails ?? []).some(member => member.email.toLowerCase() === email)) {
+    return NextResponse.json({ error: `${email} is already a member` }, { status: 409 });
+  }
+
+  // Checked before anything is saved, so a missing setting leaves no
+  // invitation behind that was never sent
+  let mail: MailAdapter;
+  let origin: string;
+  try {
+    mail = getMailAdapter();
+    origin = siteOrigin(request.nextUrl.origin);
+  } catch (configError) {
+    console.error('Invitations are not configured:', configError);
+    return NextResponse.json({ error: 'Invitations are not configured on this server' }, { status: 500 });
+  }
+
+  const token = createInviteToken();
+
+  const { error: revokeError } = await supabase
+    .from('workspace_invitations')
+    .delete()
+    .eq('workspace_id', workspace.workspaceId)
+    .eq('email', email)
+    .is('accepted_at', null);
+
+  if (revokeError) {
+    console.error('Error replacing earlier invitations:', revokeError);
+  }
+
+  const { data: invitation, error } = await supabase
+    .from('workspace_invitations')
+    .insert([
+      {
+        workspace_id: workspace.workspaceId,
+        email,
+        role,
+        token_hash: await hashInviteToken(token)
+      }
+    ])
+    .select('id, created_at, workspace_id, email, role, expires_at, accepted_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating invitation:', error);
+    return NextResponse.json({ error: 'Failed to create the invitation' }, { status: 500 });
+  }
+
+  try {
+    await mail.send(
+      invitationEmail(
+        email,
+        workspace.workspaceName,
+        role,
+        user.email ?? 'The owner',
+        inviteLink(origin, token)
+      )
+    );
+  } catch (mailError) {
+    console.error('Error sending invitation:', mailError);
+    await supabase.from('workspace_invitations').delete().eq('id', invitation.id);
+    return NextResponse.json({ error: `Failed to email ${email}` }, { status: 502 });
+  }
+
+  return NextResponse.json({ invitation }, { status: 201 });
+}
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createSupabaseAdminClient } from '@/utils/supabaseAdmin';
+import { dueOccurrences } from '@/utils/recurring';
+import { formatDate } from '@/utils/dates';
+
+// Creates the income and expense rows of every recurring schedule that has
+// fallen due. Called daily by the cron job in vercel.json with
+// "Authorization: Bearer $CRON_SECRET".
+//
+// Safe to run any number of times: each schedule remembers the last date it
+// generated, and (schedule_id, date) is unique on both ledgers, so a repeated
+// or overlapping run never inserts the same occurrence twice.
+async function run(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+
+  // Without a secret, "Bearer undefined" would be enough to run the job
+  if (!secret) {
+    console.error('CRON_SECRET is not set; refusing to run recurring schedules');
+    return NextResponse.json({ error: 'Recurring job is not configured' }, { status: 500 });
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const supabase = createSupabaseAdminClient();
+  const today = formatDate(new Date());
+
+  const { data: schedules, error } = await supabase
+    .from('recurring_schedules')
+    .select('*')
+    .lte('start_date', today);
+
+  if (error) {
+    console.error('Error fetching recurring schedules:', error);
+    return NextResponse.json({ error: 'Failed to fetch schedules' }, { status: 500 });
+  }
+
+  let created = 0;
+  const failed: string[] = [];
+
+  for (const schedule of schedules ?? []) {
+    const dates = dueOccurrences(schedule, today);
+    if (dates.length === 0) continue;
+
+    const { data: inserted, error: insertError } = await supabase
+      .from(schedule.ledger)
+      .upsert(
+        dates.map(date => ({
+          workspace_id: schedule.workspace_id,
+          user_id: schedule.user_id,
+          property_id: schedule.property_id,
+          date,
+          amount: schedule.amount,
+          description: schedule.description,
+          category: schedule.category,
+          schedule_id: schedule.id
+        })),
+        { onConflict: 'schedule_id,date', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (insertError) {
+      console.error(`Error creating rows for schedule ${schedule.id}:`, insertError);
+      failed.push(schedule.id);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('recurring_schedules')
+      .update({ last_generated_date: dates[dates.length - 1] })
+      .eq('id', schedule.id);
+
+    if (updateError) {
+      console.error(`Error updating schedule ${schedule.id}:`, updateError);
+      failed.push(schedule.id);
+    }
+
+    created += inserted?.length ?? 0;
+  }
+
+  return NextResponse.json({ created, failed }, { status: failed.length > 0 ? 500 : 200 });
+}
+
+export const GET = run;
+export const POST = run;
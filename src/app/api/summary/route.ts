@@ -0,0 +1,142 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/utils/supabaseServer';
+import type { LedgerSummary, Transaction } from '@/types/summary.types';
+import { addDays, formatDate } from '@/utils/dates';
+import { fetchAllRows } from '@/utils/ledgerFilters';
+import { occupancyKpis, type Stay } from '@/utils/occupancy';
+import { dateRangeSchema, isValidDate, validate } from '@/utils/validation';
+
+const RECENT_TRANSACTION_LIMIT = 10;
+
+// GET /api/summary?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD&property=<id>
+// All parameters are optional; without dates the summary covers all time.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const startDate = searchParams.get('startDate');
+  const endDate = searchParams.get('endDate');
+  const propertyId = searchParams.get('property');
+
+  if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+    return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format' }, { status: 400 });
+  }
+
+  if (startDate && endDate) {
+    const { endDate: rangeError } = validate(dateRangeSchema, { startDate, endDate }, undefined);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+  }
+
+  const supabase = await createSupabaseServerClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const { data: summary, error: summaryError } = await supabase.rpc('ledger_summary', {
+    start_date: startDate,
+    end_date: endDate,
+    target_property_id: propertyId
+  });
+
+  if (summaryError) {
+    console.error('Error computing ledger summary:', summaryError);
+    return NextResponse.json({ error: 'Failed to compute summary' }, { status: 500 });
+  }
+
+  // Only the latest few rows of each table are needed for the recent list.
+  // Amounts are in rupees like the rest of the summary.
+  const recentQuery = (table: 'income' | 'expenses') => {
+    let query = supabase
+      .from(table)
+      .select('id, date, amount:base_amount, description')
+      .order('date', { ascending: false })
+      .limit(RECENT_TRANSACTION_LIMIT);
+
+    if (startDate) query = query.gte('date', startDate);
+    if (endDate) query = query.lte('date', endDate);
+    if (propertyId) query = query.eq('property_id', propertyId);
+
+    return query;
+  };
+
+  const [
+    { data: recentIncome, error: incomeError },
+    { data: recentExpenses, error: expenseError }
+  ] = await Promise.all([recentQuery('income'), recentQuery('expenses')]);
+
+  if (incomeError || expenseError) {
+    console.error('Error fetching recent transactions:', incomeError ?? expenseError);
+    return NextResponse.json({ error: 'Failed to fetch recent transactions' }, { status: 500 });
+  }
+
+  // Stays with at least one night in the range. check_out is the morning
+  // after the last night. Every stay counts towards occupancy, so they are
+  // read in chunks past the 1000-row response limit.
+  const staysQuery = (from: number, to: number) => {
+    let query = supabase
+      .from('income')
+      .select('check_in, nights, base_amount')
+      .not('check_in', 'is', null)
+      .order('id')
+      .range(from, to);
+
+    if (startDate) query = query.gt('check_out', startDate);
+    if (endDate) query = query.lte('check_in', endDate);
+    if (propertyId) query = query.eq('property_id', propertyId);
+
+    return query;
+  };
+
+  const countProperties = async () => {
+    if (propertyId) return 1;
+    const { count, error } = await supabase.from('properties').select('id', { count: 'exact', head: true });
+    if (error) throw error;
+    return count ?? 0;
+  };
+
+  const occupancyData = await Promise.all([fetchAllRows(staysQuery), countProperties()]).catch(error => {
+    console.error('Error fetching occupancy:', error);
+    return null;
+  });
+
+  if (!occupancyData) {
+    return NextResponse.json({ error: 'Failed to compute occupancy' }, { status: 500 });
+  }
+
+  const [stays, propertyCount] = occupancyData;
+
+  // An open-ended range starts at the first stay and ends today or on the
+  // last night sold, whichever is later
+  const stayList = stays.filter((stay): stay is Stay => stay.check_in !== null && stay.nights !== null);
+  const occupancyRange = {
+    startDate: startDate
+      ?? stayList.reduce((first, stay) => (stay.check_in < first ? stay.check_in : first), formatDate(new Date())),
+    endDate: endDate
+      ?? stayList.reduce((last, stay) => {
+        const lastNight = addDays(stay.check_in, stay.nights - 1);
+        return lastNight > last ? lastNight : last;
+      }, formatDate(new Date()))
+  };
+
+  const recentTransactions: Transaction[] = [
+    ...(recentIncome?.map(income => ({ ...income, type: 'INCOME' as const })) || []),
+    ...(recentExpenses?.map(expense => ({ ...expense, type: 'EXPENSE' as const })) || [])
+  ].sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, RECENT_TRANSACTION_LIMIT);
+
+  const body: LedgerSummary = {
+    totalIncome: Number(summary.totalIncome),
+    totalExpenses: Number(summary.totalExpenses),
+    netProfit: Number(summary.totalIncome) - Number(summary.totalExpenses),
+    recentTransactions,
+    monthlyData: summary.monthlyData,
+    propertyBreakdown: summary.propertyBreakdown,
+    categoryBreakdown: summary.categoryBreakdown,
+    occupancy: occupancyKpis(stayList, occupancyRange, propertyCount)
+  };
+
+  return NextResponse.json(body);
+}
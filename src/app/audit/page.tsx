@@ -0,0 +1,231 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { AuditEntry, LedgerTable } from '@/types/database.types';
+import { addDays } from '@/utils/dates';
+import {
+  auditActionLabels,
+  auditActorName,
+  auditSubject,
+  auditTableLabels,
+  fetchAuditActors
+} from '@/utils/audit';
+import { useAuditValueFormatter } from '@/hooks/useAuditValueFormatter';
+import { AuditChanges } from '@/components/AuditChanges';
+
+const PAGE_SIZE = 50;
+
+// Dates are picked in local time; the log is stored in UTC
+const startOfLocalDay = (date: string) => new Date(`${date}T00:00:00`).toISOString();
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [actorId, setActorId] = useState('');
+  const [table, setTable] = useState<LedgerTable | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const formatValue = useAuditValueFormatter();
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchEntries = useCallback(async (offset: number) => {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (actorId) query = query.eq('actor_id', actorId);
+    if (table) query = query.eq('table_name', table);
+    if (fromDate) query = query.gte('created_at', startOfLocalDay(fromDate));
+    if (toDate) query = query.lt('created_at', startOfLocalDay(addDays(toDate, 1)));
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const page = data ?? [];
+    setHasMore(page.length === PAGE_SIZE);
+    return page;
+  }, [supabase, actorId, table, fromDate, toDate]);
+
+  useEffect(() => {
+    const fetchFirstPage = async () => {
+      setIsLoading(true);
+      try {
+        setEntries(await fetchEntries(0));
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [fetchEntries]);
+
+  const fetchActors = useCallback(async () => {
+    try {
+      setActors(await fetchAuditActors(supabase));
+    } catch (error) {
+      console.error('Error fetching audit users:', error);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    fetchActors();
+  }, [fetchActors]);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchEntries(entries.length);
+      setEntries(current => [...current, ...page]);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const actorOptions = Object.entries(actors).sort(([, a], [, b]) => a.localeCompare(b));
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Audit Log
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Every entry created, changed or deleted in income and expenses.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div>
+          <label htmlFor="auditActor" className="block text-sm font-medium text-gray-700">
+            User
+          </label>
+          <select
+            id="auditActor"
+            value={actorId}
+            onChange={(e) => setActorId(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">All users</option>
+            {actorOptions.map(([id, email]) => (
+              <option key={id} value={id}>{email}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="auditTable" className="block text-sm font-medium text-gray-700">
+            Table
+          </label>
+          <select
+            id="auditTable"
+            value={table}
+            onChange={(e) => setTable(e.target.value as LedgerTable | '')}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">Income and expenses</option>
+            <option value="income">Income</option>
+            <option value="expenses">Expenses</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="auditFrom" className="block text-sm font-medium text-gray-700">
+            From
+          </label>
+          <input
+            type="date"
+            id="auditFrom"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="auditTo" className="block text-sm font-medium text-gray-700">
+            To
+          </label>
+          <input
+            type="date"
+            id="auditTo"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes match these filters.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-300">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Time</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">User</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Table</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Action</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Entry</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Changes</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="align-top">
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {new Date(entry.created_at).toLocaleString('en-IN')}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {auditActorName(actors, entry.actor_id)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {auditTableLabels[entry.table_name]}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                        {auditActionLabels[entry.action]}
+                      </td>
+                      <td className="px-3 py-4 text-sm text-gray-500">{auditSubject(entry)}</td>
+                      <td className="px-3 py-4 text-sm text-gray-500">
+                        <AuditChanges entry={entry} formatValue={formatValue} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {hasMore && !isLoading && (
+            <div className="mt-4 text-center">
+              <button
+                type="button"
+                onClick={handleLoadMore}
+                disabled={isLoadingMore}
+                className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+              >
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,439 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Booking } from '@/types/database.types';
+import { formatCurrency } from '@/utils/formatters';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPermission } from '@/utils/roles';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { createSupabaseLedgerRepository } from '@/utils/ledgerRepository';
+import {
+  bookingSchema,
+  hasErrors,
+  serverFieldErrors,
+  validate,
+  type BookingValues,
+  type FieldErrors
+} from '@/utils/validation';
+import { FieldError } from '@/components/FieldError';
+import {
+  bookingTotal,
+  bookingsForDate,
+  countNights,
+  findOverlappingBooking,
+  formatDateKey,
+  getMonthGrid,
+  incomeFromBooking
+} from '@/utils/bookings';
+
+const weekdays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const statusStyles: Record<Booking['status'], string> = {
+  PENDING: 'bg-yellow-100 text-yellow-800',
+  CONFIRMED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-500'
+};
+
+export default function BookingsPage() {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const { user, workspaceId, role } = useAuth();
+  const { properties, selectedPropertyId, getPropertyName } = useProperty();
+  const { showError } = useToast();
+  const [formData, setFormData] = useState({
+    property_id: '',
+    guest_name: '',
+    check_in: '',
+    check_out: '',
+    nightly_rate: ''
+  });
+  const [formErrors, setFormErrors] = useState<FieldErrors<BookingValues>>({});
+  const [visibleMonth, setVisibleMonth] = useState(() => {
+    const today = new Date();
+    return { year: today.getFullYear(), month: today.getMonth() };
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('bookings')
+        .select('*')
+        .order('check_in', { ascending: true });
+
+      if (selectedPropertyId) {
+        query = query.eq('property_id', selectedPropertyId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+
+      if (data) {
+        setBookings(data);
+      }
+    } catch (error) {
+      showError('Could not load bookings.', error, () => fetchBookings(), 'fetch-bookings');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, selectedPropertyId, showError]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings]);
+
+  const formPropertyId = selectedPropertyId || formData.property_id || properties[0]?.id || '';
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!user || !workspaceId) return;
+
+    const values: BookingValues = { ...formData, nightly_rate: parseFloat(formData.nightly_rate) };
+    const errors = validate(bookingSchema, values, undefined);
+
+    if (!errors.check_in && !errors.check_out) {
+      const conflict = findOverlappingBooking(bookings, { ...formData, property_id: formPropertyId });
+      if (conflict) {
+        errors.check_in = `These dates overlap with ${conflict.guest_name} (${conflict.check_in} to ${conflict.check_out})`;
+      }
+    }
+
+    setFormErrors(errors);
+    if (hasErrors(errors)) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .insert([
+          {
+            workspace_id: workspaceId,
+            user_id: user.id,
+            property_id: formPropertyId,
+            guest_name: formData.guest_name,
+            check_in: formData.check_in,
+            check_out: formData.check_out,
+            nightly_rate: values.nightly_rate,
+            status: 'PENDING',
+            income_id: null
+          }
+        ])
+        .select();
+
+      if (error) {
+        throw error;
+      }
+
+      if (data) {
+        setBookings([...bookings, ...data].sort((a, b) => a.check_in.localeCompare(b.check_in)));
+        setFormData({ ...formData, guest_name: '', check_in: '', check_out: '', nightly_rate: '' });
+      }
+    } catch (error) {
+      const fieldErrors = serverFieldErrors<BookingValues>(error);
+      if (fieldErrors) {
+        setFormErrors(fieldErrors);
+      } else {
+        showError(`Could not add the booking for ${values.guest_name}.`, error, handleSubmit);
+      }
+    }
+  };
+
+  const handleConfirm = async (booking: Booking) => {
+    if (confirmingId) return;
+    setConfirmingId(booking.id);
+
+    try {
+      const income = incomeFromBooking(booking);
+      await createSupabaseLedgerRepository(supabase, 'income').createIfMissing([income]);
+
+      const { data, error } = await supabase
+        .from('bookings')
+        .update({ status: 'CONFIRMED', income_id: income.id })
+        .eq('id', booking.id)
+        .select();
+
+      if (error) throw error;
+
+      if (data?.[0]) {
+        setBookings(current => current.map(b => (b.id === booking.id ? data[0] : b)));
+      }
+    } catch (error) {
+      showError(`Could not confirm the booking for ${booking.guest_name}.`, error, () => handleConfirm(booking));
+    } finally {
+      setConfirmingId(null);
+    }
+  };
+
+  const handleCancel = async (booking: Booking) => {
+    try {
+      const { data, error } = await supabase
+        .from('bookings')
+        .update({ status: 'CANCELLED' })
+        .eq('id', booking.id)
+        .select();
+
+      if (error) throw error;
+
+      if (data?.[0]) {
+        setBookings(current => current.map(b => (b.id === booking.id ? data[0] : b)));
+      }
+    } catch (error) {
+      showError(`Could not cancel the booking for ${booking.guest_name}.`, error, () => handleCancel(booking));
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    const next = new Date(visibleMonth.year, visibleMonth.month + offset, 1);
+    setVisibleMonth({ year: next.getFullYear(), month: next.getMonth() });
+  };
+
+  const canEdit = hasPermission(role, 'editLedgers');
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  const monthLabel = new Date(visibleMonth.year, visibleMonth.month, 1).toLocaleDateString('en-IN', {
+    month: 'long',
+    year: 'numeric'
+  });
+  const nights = formData.check_in && formData.check_out
+    ? countNights(formData.check_in, formData.check_out)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Bookings
+          </h2>
+        </div>
+      </div>
+
+      {/* Calendar */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <button
+              type="button"
+              onClick={() => changeMonth(-1)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Previous
+            </button>
+            <h3 className="text-lg font-medium leading-6 text-gray-900">{monthLabel}</h3>
+            <button
+              type="button"
+              onClick={() => changeMonth(1)}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Next
+            </button>
+          </div>
+          <div className="grid grid-cols-7 gap-px bg-gray-200 border border-gray-200 rounded-md overflow-hidden">
+            {weekdays.map(weekday => (
+              <div key={weekday} className="bg-gray-50 py-2 text-center text-xs font-medium text-gray-500 uppercase">
+                {weekday}
+              </div>
+            ))}
+            {getMonthGrid(visibleMonth.year, visibleMonth.month).flat().map((day, index) => {
+              if (day === null) {
+                return <div key={`empty-${index}`} className="bg-gray-50 min-h-20" />;
+              }
+              const dateKey = formatDateKey(visibleMonth.year, visibleMonth.month, day);
+              return (
+                <div key={dateKey} className="bg-white min-h-20 p-1">
+                  <div className="text-xs text-gray-500">{day}</div>
+                  {bookingsForDate(bookings, dateKey).map(booking => (
+                    <div
+                      key={booking.id}
+                      className={`mt-1 truncate rounded px-1 text-xs ${statusStyles[booking.status]}`}
+                      title={`${booking.guest_name}, ${getPropertyName(booking.property_id)} (${booking.check_in} to ${booking.check_out})`}
+                    >
+                      {booking.guest_name}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Booking Form */}
+      {canEdit && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">New Booking</h3>
+            <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {!selectedPropertyId && (
+                  <div>
+                    <label htmlFor="property" className="block text-sm font-medium text-gray-700">
+                      Property
+                    </label>
+                    <select
+                      id="property"
+                      required
+                      value={formPropertyId}
+                      onChange={(e) => setFormData({ ...formData, property_id: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {properties.map(property => (
+                        <option key={property.id} value={property.id}>
+                          {property.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="guest_name" className="block text-sm font-medium text-gray-700">
+                    Guest
+                  </label>
+                  <input
+                    type="text"
+                    id="guest_name"
+                    required
+                    value={formData.guest_name}
+                    onChange={(e) => setFormData({ ...formData, guest_name: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.guest_name} />
+                </div>
+                <div>
+                  <label htmlFor="nightly_rate" className="block text-sm font-medium text-gray-700">
+                    Nightly Rate (Rs.)
+                  </label>
+                  <input
+                    type="number"
+                    id="nightly_rate"
+                    required
+                    min="0"
+                    step="0.01"
+                    value={formData.nightly_rate}
+                    onChange={(e) => setFormData({ ...formData, nightly_rate: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.nightly_rate} />
+                </div>
+                <div>
+                  <label htmlFor="check_in" className="block text-sm font-medium text-gray-700">
+                    Check-in
+                  </label>
+                  <input
+                    type="date"
+                    id="check_in"
+                    required
+                    value={formData.check_in}
+                    onChange={(e) => setFormData({ ...formData, check_in: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.check_in} />
+                </div>
+                <div>
+                  <label htmlFor="check_out" className="block text-sm font-medium text-gray-700">
+                    Check-out
+                  </label>
+                  <input
+                    type="date"
+                    id="check_out"
+                    required
+                    min={formData.check_in || undefined}
+                    value={formData.check_out}
+                    onChange={(e) => setFormData({ ...formData, check_out: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.check_out} />
+                </div>
+              </div>
+              {nights > 0 && formData.nightly_rate && (
+                <p className="text-sm text-gray-500">
+                  {nights} {nights === 1 ? 'night' : 'nights'}, total Rs. {formatCurrency(nights * parseFloat(formData.nightly_rate))}
+                </p>
+              )}
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+                >
+                  Add Booking
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Booking List */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">All Bookings</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Guest</th>
+                  {!selectedPropertyId && (
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Property</th>
+                  )}
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Check-in</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Check-out</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Total</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {bookings.map((booking) => (
+                  <tr key={booking.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{booking.guest_name}</td>
+                    {!selectedPropertyId && (
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getPropertyName(booking.property_id)}</td>
+                    )}
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{booking.check_in}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{booking.check_out}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">Rs. {formatCurrency(bookingTotal(booking))}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${statusStyles[booking.status]}`}>
+                        {booking.status}
+                      </span>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right space-x-3">
+                      {canEdit && booking.status === 'PENDING' && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleConfirm(booking)}
+                            disabled={confirmingId === booking.id}
+                            className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                          >
+                            {confirmingId === booking.id ? 'Confirming...' : 'Confirm'}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleCancel(booking)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            Cancel
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,216 +1,162 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { createBrowserClient } from '@supabase/ssr';
-import { formatCurrency } from '@/utils/formatters';
-
-interface Transaction {
-  id: string;
-  date: string;
-  type: 'INCOME' | 'EXPENSE';
-  amount: number;
-  description: string;
-}
-
-interface SummaryData {
-  totalIncome: number;
-  totalExpenses: number;
-  netProfit: number;
-  recentTransactions: Transaction[];
-  monthlyData: {
-    month: string;
-    income: number;
-    expenses: number;
-  }[];
-}
-
-const getDateRangePreset = (preset: 'thisMonth' | 'lastMonth' | 'last3Months' | 'thisYear') => {
-  const today = new Date();
-  const startDate = new Date();
-  
-  switch (preset) {
-    case 'thisMonth':
-      startDate.setDate(1);
-      break;
-    case 'lastMonth':
-      startDate.setMonth(startDate.getMonth() - 1);
-      startDate.setDate(1);
-      break;
-    case 'last3Months':
-      startDate.setMonth(startDate.getMonth() - 3);
-      break;
-    case 'thisYear':
-      startDate.setMonth(0);
-      startDate.setDate(1);
-      break;
-  }
-  
-  return {
-    startDate: startDate.toISOString().split('T')[0],
-    endDate: today.toISOString().split('T')[0]
-  };
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { formatCurrency, formatPercent } from '@/utils/formatters';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useLedgerChanges } from '@/contexts/LedgerChangesContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ExportMenu } from '@/components/ExportMenu';
+import { FieldError } from '@/components/FieldError';
+import { MonthlyChart } from '@/components/MonthlyChart';
+import { CategoryDonut } from '@/components/CategoryDonut';
+import { BudgetPanel } from '@/components/BudgetPanel';
+import { PeriodDelta } from '@/components/PeriodDelta';
+import { useCategories } from '@/hooks/useCategories';
+import { useBudgets } from '@/hooks/useBudgets';
+import { exportFilename, type Sheet } from '@/utils/export';
+import { fetchLedgerSummary } from '@/utils/summaryApi';
+import { emptyOccupancy } from '@/utils/occupancy';
+import { dateRangeSchema, hasErrors, validate, type FieldErrors } from '@/utils/validation';
+import type { LedgerSummary } from '@/types/summary.types';
+import {
+  addMonths,
+  financialQuarterRange,
+  financialYearLabel,
+  financialYearOf,
+  getDateRangePreset,
+  previousPeriod,
+  samePeriodLastYear,
+  today,
+  type DateRange
+} from '@/utils/dates';
+
+type Comparison = 'none' | 'previous' | 'lastYear';
+
+const comparisonLabels: Record<Exclude<Comparison, 'none'>, string> = {
+  previous: 'vs previous period',
+  lastYear: 'vs same period last year'
 };
 
 export default function DashboardPage() {
-  const [summaryData, setSummaryData] = useState<SummaryData>({
+  const [summaryData, setSummaryData] = useState<LedgerSummary>({
     totalIncome: 0,
     totalExpenses: 0,
     netProfit: 0,
     recentTransactions: [],
-    monthlyData: []
+    monthlyData: [],
+    propertyBreakdown: [],
+    categoryBreakdown: { income: [], expenses: [] },
+    occupancy: emptyOccupancy
   });
+  const { selectedPropertyId, getPropertyName } = useProperty();
+  const { categories: incomeCategories } = useCategories('income');
+  const { categories: expenseCategories, getCategoryName: getExpenseCategoryName } = useCategories('expense');
+  const { statuses: budgetStatuses, refreshBudgets } = useBudgets();
+  const { changeCounts } = useLedgerChanges();
+  const { showError } = useToast();
   const [isLoading, setIsLoading] = useState(true);
-  const [dateRange, setDateRange] = useState({
-    startDate: new Date(new Date().setMonth(new Date().getMonth() - 1)).toISOString().split('T')[0], // Last month
-    endDate: new Date().toISOString().split('T')[0] // Today
+  const [dateRange, setDateRange] = useState<DateRange>({
+    startDate: addMonths(today(), -1), // Last month
+    endDate: today()
   });
+  // What the date inputs show, which may be an invalid range not yet applied
+  const [rangeInput, setRangeInput] = useState<DateRange>(dateRange);
+  const [rangeErrors, setRangeErrors] = useState<FieldErrors<DateRange>>({});
+  const [comparison, setComparison] = useState<Comparison>('none');
+  const [comparisonData, setComparisonData] = useState<LedgerSummary | null>(null);
 
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
+  const comparisonRange = useMemo(() => {
+    if (comparison === 'previous') return previousPeriod(dateRange);
+    if (comparison === 'lastYear') return samePeriodLastYear(dateRange);
+    return null;
+  }, [comparison, dateRange]);
+
+  const supabase = getSupabaseBrowserClient();
 
   const fetchDashboardData = useCallback(async () => {
     try {
-      // Adjust end date to include the entire day
-      const endDateWithTime = new Date(dateRange.endDate);
-      endDateWithTime.setHours(23, 59, 59, 999);
-      
-      // Fetch income within date range
-      const { data: incomeData, error: incomeError } = await supabase
-        .from('income')
-        .select('*')
-        .gte('date', dateRange.startDate)
-        .lte('date', dateRange.endDate)
-        .order('date', { ascending: false });
-
-      if (incomeError) throw incomeError;
-
-      // Fetch expenses within date range
-      const { data: expenseData, error: expenseError } = await supabase
-        .from('expenses')
-        .select('*')
-        .gte('date', dateRange.startDate)
-        .lte('date', dateRange.endDate)
-        .order('date', { ascending: false });
-
-      if (expenseError) throw expenseError;
-
-      // Calculate totals
-      const totalIncome = incomeData?.reduce((sum, item) => sum + item.amount, 0) || 0;
-      const totalExpenses = expenseData?.reduce((sum, item) => sum + item.amount, 0) || 0;
-      const netProfit = totalIncome - totalExpenses;
-
-      // Combine and sort recent transactions
-      const recentTransactions: Transaction[] = [
-        ...(incomeData?.map(income => ({
-          id: income.id,
-          date: income.date,
-          type: 'INCOME' as const,
-          amount: income.amount,
-          description: income.description
-        })) || []),
-        ...(expenseData?.map(expense => ({
-          id: expense.id,
-          date: expense.date,
-          type: 'EXPENSE' as const,
-          amount: expense.amount,
-          description: expense.description
-        })) || [])
-      ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, 10);
-
-      // Calculate monthly data
-      const monthlyDataMap = new Map<string, { income: number; expenses: number }>();
-      
-      // Initialize months
-      const startDate = new Date(dateRange.startDate);
-      const endDate = new Date(dateRange.endDate);
-      const currentDate = new Date(startDate);
-      
-      while (currentDate <= endDate) {
-        const monthKey = currentDate.toISOString().slice(0, 7); // YYYY-MM format
-        monthlyDataMap.set(monthKey, { income: 0, expenses: 0 });
-        currentDate.setMonth(currentDate.getMonth() + 1);
-      }
-
-      // Aggregate income by month
-      incomeData?.forEach(income => {
-        const monthKey = income.date.slice(0, 7);
-        const monthData = monthlyDataMap.get(monthKey) || { income: 0, expenses: 0 };
-        monthlyDataMap.set(monthKey, {
-          ...monthData,
-          income: monthData.income + income.amount
-        });
-      });
-
-      // Aggregate expenses by month
-      expenseData?.forEach(expense => {
-        const monthKey = expense.date.slice(0, 7);
-        const monthData = monthlyDataMap.get(monthKey) || { income: 0, expenses: 0 };
-        monthlyDataMap.set(monthKey, {
-          ...monthData,
-          expenses: monthData.expenses + expense.amount
-        });
-      });
-
-      const monthlyData = Array.from(monthlyDataMap.entries())
-        .map(([month, data]) => ({
-          month,
-          income: data.income,
-          expenses: data.expenses
-        }))
-        .sort((a, b) => a.month.localeCompare(b.month));
-
-      setSummaryData({
-        totalIncome,
-        totalExpenses,
-        netProfit,
-        recentTransactions,
-        monthlyData
-      });
+      const [summary, previous] = await Promise.all([
+        fetchLedgerSummary({
+          startDate: dateRange.startDate,
+          endDate: dateRange.endDate,
+          propertyId: selectedPropertyId
+        }),
+        comparisonRange
+          ? fetchLedgerSummary({ ...comparisonRange, propertyId: selectedPropertyId })
+          : Promise.resolve(null)
+      ]);
+      setSummaryData(summary);
+      setComparisonData(previous);
     } catch (error) {
-      console.error('Error fetching dashboard data:', error);
+      showError('Could not load the dashboard.', error, () => fetchDashboardData(), 'fetch-dashboard');
     } finally {
       setIsLoading(false);
     }
-  }, [supabase, dateRange]);
+  }, [dateRange, comparisonRange, selectedPropertyId, showError]);
 
+  // Refetch as entries change in any session
   useEffect(() => {
     fetchDashboardData();
-  }, [fetchDashboardData]);
+  }, [fetchDashboardData, changeCounts]);
 
-  const handleDateRangeChange = (newRange: { startDate: string; endDate: string }) => {
-    // Validate that end date is not before start date
-    if (newRange.endDate < newRange.startDate) {
-      alert('End date cannot be before start date');
-      return;
-    }
+  useEffect(() => {
+    if (changeCounts.expenses > 0) refreshBudgets();
+  }, [changeCounts.expenses, refreshBudgets]);
+
+  const handleDateRangeChange = (newRange: DateRange) => {
+    setRangeInput(newRange);
+    const errors = validate(dateRangeSchema, newRange, undefined);
+    setRangeErrors(errors);
+    if (hasErrors(errors)) return;
     setDateRange(newRange);
   };
 
+  // Narrow the range to one YYYY-MM month, stopping at today for the current month
+  const handleSelectMonth = (month: string) => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+    const endDate = `${month}-${String(lastDay).padStart(2, '0')}`;
+    handleDateRangeChange({
+      startDate: `${month}-01`,
+      endDate: endDate < today() ? endDate : today()
+    });
+  };
+
   const handleReset = async () => {
     try {
       // Fetch oldest income record
-      const { data: oldestIncome, error: incomeError } = await supabase
+      let oldestIncomeQuery = supabase
         .from('income')
         .select('date')
         .order('date', { ascending: true })
         .limit(1);
 
+      if (selectedPropertyId) {
+        oldestIncomeQuery = oldestIncomeQuery.eq('property_id', selectedPropertyId);
+      }
+
+      const { data: oldestIncome, error: incomeError } = await oldestIncomeQuery;
+
       if (incomeError) throw incomeError;
 
       // Fetch oldest expense record
-      const { data: oldestExpense, error: expenseError } = await supabase
+      let oldestExpenseQuery = supabase
         .from('expenses')
         .select('date')
         .order('date', { ascending: true })
         .limit(1);
 
+      if (selectedPropertyId) {
+        oldestExpenseQuery = oldestExpenseQuery.eq('property_id', selectedPropertyId);
+      }
+
+      const { data: oldestExpense, error: expenseError } = await oldestExpenseQuery;
+
       if (expenseError) throw expenseError;
 
       // Find the earliest date between income and expenses
-      let startDate = new Date().toISOString().split('T')[0]; // Default to today
+      let startDate = today(); // Default to today
       
       if (oldestIncome?.[0]?.date) {
         startDate = oldestIncome[0].date;
@@ -221,12 +167,12 @@ export default function DashboardPage() {
       }
 
       // Set date range from oldest record to today
-      setDateRange({
+      handleDateRangeChange({
         startDate,
-        endDate: new Date().toISOString().split('T')[0]
+        endDate: today()
       });
     } catch (error) {
-      console.error('Error finding oldest record:', error);
+      showError('Could not find the oldest entry.', error, handleReset);
     }
   };
 
@@ -234,6 +180,79 @@ export default function DashboardPage() {
     return <div>Loading...</div>;
   }
 
+  const propertyLabel = selectedPropertyId ? getPropertyName(selectedPropertyId) : 'All Properties';
+
+  // Same figures as the cards and tables below, for the selected range
+  const getExportSheets = (): Sheet[] => {
+    const sheets: Sheet[] = [
+      {
+        name: 'Summary',
+        rows: [
+          ['Item', 'Value'],
+          ['Period', `${dateRange.startDate} to ${dateRange.endDate}`],
+          ['Property', propertyLabel],
+          ['Total Income', summaryData.totalIncome],
+          ['Total Expenses', summaryData.totalExpenses],
+          ['Net Profit', summaryData.netProfit],
+          ['Nights Sold', summaryData.occupancy.nightsSold],
+          ['Nights Available', summaryData.occupancy.nightsAvailable],
+          ['Occupancy', formatPercent(summaryData.occupancy.occupancyRate)],
+          ['ADR', summaryData.occupancy.adr],
+          ['RevPAR', summaryData.occupancy.revpar],
+          ...(comparisonRange && comparisonData ? [
+            ['Comparison Period', `${comparisonRange.startDate} to ${comparisonRange.endDate}`],
+            ['Comparison Income', comparisonData.totalIncome],
+            ['Comparison Expenses', comparisonData.totalExpenses],
+            ['Comparison Net Profit', comparisonData.netProfit]
+          ] : [])
+        ]
+      },
+      {
+        name: 'Monthly',
+        rows: [
+          ['Month', 'Income', 'Expenses', 'Net Profit'],
+          ...summaryData.monthlyData.map(month => [
+            month.month,
+            month.income,
+            month.expenses,
+            month.income - month.expenses
+          ]),
+          ['Total', summaryData.totalIncome, summaryData.totalExpenses, summaryData.netProfit]
+        ]
+      }
+    ];
+
+    if (!selectedPropertyId && summaryData.propertyBreakdown.length > 0) {
+      sheets.push({
+        name: 'By Property',
+        rows: [
+          ['Property', 'Income', 'Expenses', 'Net Profit'],
+          ...summaryData.propertyBreakdown.map(property => [
+            getPropertyName(property.propertyId),
+            property.income,
+            property.expenses,
+            property.income - property.expenses
+          ])
+        ]
+      });
+    }
+
+    sheets.push({
+      name: 'Recent Transactions',
+      rows: [
+        ['Date', 'Type', 'Amount', 'Description'],
+        ...summaryData.recentTransactions.map(transaction => [
+          transaction.date,
+          transaction.type,
+          transaction.amount,
+          transaction.description
+        ])
+      ]
+    });
+
+    return sheets;
+  };
+
   return (
     <div className="space-y-6">
       <div className="md:flex md:items-center md:justify-between">
@@ -268,18 +287,67 @@ export default function DashboardPage() {
             >
               This Year
             </button>
+            <button
+              onClick={() => handleDateRangeChange(getDateRangePreset('thisQuarter'))}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              This Quarter
+            </button>
+            <button
+              onClick={() => handleDateRangeChange(getDateRangePreset('lastQuarter'))}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Last Quarter
+            </button>
+            <button
+              onClick={() => handleDateRangeChange(getDateRangePreset('thisFinancialYear'))}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              This FY
+            </button>
+            <button
+              onClick={() => handleDateRangeChange(getDateRangePreset('lastFinancialYear'))}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Last FY
+            </button>
+            <button
+              onClick={() => handleDateRangeChange(samePeriodLastYear(dateRange))}
+              className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Same Period Last Year
+            </button>
+            <select
+              aria-label="Quarter of the financial year"
+              value=""
+              onChange={(e) => handleDateRangeChange(
+                financialQuarterRange(financialYearOf(today()), Number(e.target.value) as 1 | 2 | 3 | 4)
+              )}
+              className="rounded border-gray-300 py-1.5 pl-2.5 pr-8 text-xs font-medium text-gray-700 focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="" disabled>{financialYearLabel(financialYearOf(today()))} quarter</option>
+              <option value="1">Q1 (Apr-Jun)</option>
+              <option value="2">Q2 (Jul-Sep)</option>
+              <option value="3">Q3 (Oct-Dec)</option>
+              <option value="4">Q4 (Jan-Mar)</option>
+            </select>
             <button
               onClick={handleReset}
               className="inline-flex items-center px-2.5 py-1.5 border border-gray-300 text-xs font-medium rounded text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
             >
               All Time
             </button>
+            <ExportMenu
+              filename={exportFilename('dashboard', propertyLabel, dateRange.startDate, 'to', dateRange.endDate)}
+              title={`Dashboard: ${propertyLabel}, ${dateRange.startDate} to ${dateRange.endDate}`}
+              getSheets={getExportSheets}
+            />
           </div>
         </div>
       </div>
 
       {/* Date Range Inputs */}
-      <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-2xl">
+      <div className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 max-w-3xl">
         <div>
           <label htmlFor="startDate" className="block text-sm font-medium text-gray-700">
             Start Date
@@ -287,10 +355,12 @@ export default function DashboardPage() {
           <input
             type="date"
             id="startDate"
-            value={dateRange.startDate}
-            onChange={(e) => handleDateRangeChange({ ...dateRange, startDate: e.target.value })}
+            value={rangeInput.startDate}
+            onChange={(e) => handleDateRangeChange({ ...rangeInput, startDate: e.target.value })}
+            aria-invalid={Boolean(rangeErrors.startDate)}
             className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
           />
+          <FieldError message={rangeErrors.startDate} />
         </div>
         <div>
           <label htmlFor="endDate" className="block text-sm font-medium text-gray-700">
@@ -299,11 +369,33 @@ export default function DashboardPage() {
           <input
             type="date"
             id="endDate"
-            value={dateRange.endDate}
-            onChange={(e) => handleDateRangeChange({ ...dateRange, endDate: e.target.value })}
-            max={new Date().toISOString().split('T')[0]}
+            value={rangeInput.endDate}
+            onChange={(e) => handleDateRangeChange({ ...rangeInput, endDate: e.target.value })}
+            max={today()}
+            aria-invalid={Boolean(rangeErrors.endDate)}
             className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
           />
+          <FieldError message={rangeErrors.endDate} />
+        </div>
+        <div>
+          <label htmlFor="comparison" className="block text-sm font-medium text-gray-700">
+            Compare With
+          </label>
+          <select
+            id="comparison"
+            value={comparison}
+            onChange={(e) => setComparison(e.target.value as Comparison)}
+            className="mt-1 block w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-gray-900 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="none">Nothing</option>
+            <option value="previous">Previous period</option>
+            <option value="lastYear">Same period last year</option>
+          </select>
+          {comparisonRange && (
+            <p className="mt-1 text-xs text-gray-500">
+              {comparisonRange.startDate} to {comparisonRange.endDate}
+            </p>
+          )}
         </div>
       </div>
 
@@ -322,6 +414,13 @@ export default function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">Total Income</dt>
                   <dd className="text-lg font-medium text-gray-900">{formatCurrency(summaryData.totalIncome)}</dd>
                 </dl>
+                {comparisonData && comparison !== 'none' && (
+                  <PeriodDelta
+                    current={summaryData.totalIncome}
+                    previous={comparisonData.totalIncome}
+                    label={comparisonLabels[comparison]}
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -340,6 +439,13 @@ export default function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">Total Expenses</dt>
                   <dd className="text-lg font-medium text-gray-900">{formatCurrency(summaryData.totalExpenses)}</dd>
                 </dl>
+                {comparisonData && comparison !== 'none' && (
+                  <PeriodDelta
+                    current={summaryData.totalExpenses}
+                    previous={comparisonData.totalExpenses}
+                    label={comparisonLabels[comparison]} higherIsWorse
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -358,12 +464,124 @@ export default function DashboardPage() {
                   <dt className="text-sm font-medium text-gray-500 truncate">Net Profit</dt>
                   <dd className="text-lg font-medium text-gray-900">{formatCurrency(summaryData.netProfit)}</dd>
                 </dl>
+                {comparisonData && comparison !== 'none' && (
+                  <PeriodDelta
+                    current={summaryData.netProfit}
+                    previous={comparisonData.netProfit}
+                    label={comparisonLabels[comparison]}
+                  />
+                )}
               </div>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Occupancy KPIs, from income entries that record a stay */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        {[
+          {
+            label: 'Occupancy',
+            value: formatPercent(summaryData.occupancy.occupancyRate),
+            detail: `${summaryData.occupancy.nightsSold} of ${summaryData.occupancy.nightsAvailable} nights sold`,
+            current: summaryData.occupancy.occupancyRate,
+            previous: comparisonData?.occupancy.occupancyRate,
+            formatChange: (change: number) => `${(change * 100).toFixed(1)} pts`
+          },
+          {
+            label: 'ADR (Average Daily Rate)',
+            value: formatCurrency(summaryData.occupancy.adr),
+            detail: 'Room revenue per night sold',
+            current: summaryData.occupancy.adr,
+            previous: comparisonData?.occupancy.adr
+          },
+          {
+            label: 'RevPAR',
+            value: formatCurrency(summaryData.occupancy.revpar),
+            detail: 'Room revenue per available night',
+            current: summaryData.occupancy.revpar,
+            previous: comparisonData?.occupancy.revpar
+          }
+        ].map(card => (
+          <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <dl>
+                <dt className="text-sm font-medium text-gray-500 truncate">{card.label}</dt>
+                <dd className="text-lg font-medium text-gray-900">{card.value}</dd>
+              </dl>
+              <p className="mt-1 text-xs text-gray-500">{card.detail}</p>
+              {card.previous !== undefined && comparison !== 'none' && (
+                <PeriodDelta
+                  current={card.current}
+                  previous={card.previous}
+                  label={comparisonLabels[comparison]}
+                  formatChange={card.formatChange}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+        <div className="bg-white shadow sm:rounded-lg lg:col-span-2">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 mb-4">Income vs Expenses</h3>
+            <MonthlyChart data={summaryData.monthlyData} onSelectMonth={handleSelectMonth} />
+          </div>
+        </div>
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6 space-y-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">By Category</h3>
+            <CategoryDonut title="Income" data={summaryData.categoryBreakdown.income} categories={incomeCategories} />
+            <CategoryDonut title="Expenses" data={summaryData.categoryBreakdown.expenses} categories={expenseCategories} />
+          </div>
+        </div>
+      </div>
+
+      {/* Budgets for the current period. With one property selected, that
+          property's budgets and those covering all properties are shown. */}
+      <BudgetPanel
+        statuses={budgetStatuses.filter(status =>
+          !selectedPropertyId || !status.budget.property_id || status.budget.property_id === selectedPropertyId)}
+        getCategoryName={getExpenseCategoryName}
+        getPropertyName={getPropertyName}
+      />
+
+      {/* Per-Property Breakdown */}
+      {!selectedPropertyId && summaryData.propertyBreakdown.length > 0 && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+          <div className="px-4 py-5 sm:px-6">
+            <h3 className="text-lg leading-6 font-medium text-gray-900">By Property</h3>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Property</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Income</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expenses</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net Profit</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {summaryData.propertyBreakdown.map((property) => (
+                  <tr key={property.propertyId}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{getPropertyName(property.propertyId)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(property.income)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(property.expenses)}</td>
+                    <td className={`px-6 py-4 whitespace-nowrap text-sm ${property.income - property.expenses >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(property.income - property.expenses)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Recent Transactions */}
       <div className="bg-white shadow overflow-hidden sm:rounded-lg">
         <div className="px-4 py-5 sm:px-6">
@@ -1,234 +1,143 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { createBrowserClient } from '@supabase/ssr';
-import type { Expense } from '@/types/database.types';
+import { useState } from 'react';
+import type { Expense, ExpenseAttachment } from '@/types/database.types';
 import { generateSampleExpenses } from '@/utils/sampleData';
 import { formatCurrency } from '@/utils/formatters';
+import { CLEANER_CATEGORY, hasPermission } from '@/utils/roles';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ExpenseAttachments } from '@/components/ExpenseAttachments';
+import { LedgerView, type LedgerExtension } from '@/components/LedgerView';
+import { useExpenseAttachments } from '@/hooks/useExpenseAttachments';
+import { useBudgets } from '@/hooks/useBudgets';
+import { budgetPeriodLabels, budgetsPushedOver, type BudgetStatus } from '@/utils/budgets';
+import { ACCEPTED_ATTACHMENT_TYPES, validateAttachment } from '@/utils/attachments';
+
+// Cleaners may only log cleaning costs
+const cleanerCategories = [CLEANER_CATEGORY];
 
 export default function ExpensesPage() {
-  const [expenseEntries, setExpenseEntries] = useState<Expense[]>([]);
-  const [formData, setFormData] = useState({
-    date: '',
-    amount: '',
-    description: '',
-    category: 'MAINTENANCE'
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
-
-  const fetchExpenseEntries = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('expenses')
-        .select('*')
-        .order('date', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setExpenseEntries(data);
-      }
-    } catch (error) {
-      console.error('Error fetching expense entries:', error);
-    } finally {
-      setIsLoading(false);
+  const { role } = useAuth();
+  const { getPropertyName } = useProperty();
+  const { showError } = useToast();
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
+  const [receiptInputKey, setReceiptInputKey] = useState(0);
+  const [receiptError, setReceiptError] = useState('');
+  const { attachmentsFor, uploadAttachments, deleteAttachment, deleteAttachmentsFor } = useExpenseAttachments();
+  const { refreshBudgets } = useBudgets();
+  const [budgetWarnings, setBudgetWarnings] = useState<BudgetStatus[]>([]);
+
+  const canEdit = hasPermission(role, 'editLedgers');
+  const canAdd = hasPermission(role, 'addExpenses');
+
+  const handleCreated = async (entry: Expense) => {
+    const pushedOver = budgetsPushedOver(await refreshBudgets(), { ...entry, amount: entry.base_amount });
+    if (pushedOver.length > 0) {
+      setBudgetWarnings(warnings => [
+        ...pushedOver,
+        ...warnings.filter(warning => !pushedOver.some(status => status.budget.id === warning.budget.id))
+      ]);
     }
-  }, [supabase]);
 
-  useEffect(() => {
-    fetchExpenseEntries();
-  }, [fetchExpenseEntries]);
+    if (receiptFiles.length > 0) {
+      setReceiptError((await uploadAttachments(entry.id, receiptFiles)) ?? '');
+      setReceiptFiles([]);
+      setReceiptInputKey(key => key + 1);
+    }
+  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleDeleteAttachment = async (attachment: ExpenseAttachment) => {
     try {
-      const { data, error } = await supabase
-        .from('expenses')
-        .insert([
-          {
-            date: formData.date,
-            amount: parseFloat(formData.amount),
-            description: formData.description,
-            category: formData.category
-          }
-        ])
-        .select();
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setExpenseEntries([...data, ...expenseEntries]);
-        setFormData({ date: '', amount: '', description: '', category: 'MAINTENANCE' });
-      }
+      await deleteAttachment(attachment);
     } catch (error) {
-      console.error('Error adding expense entry:', error);
+      showError(`Could not delete ${attachment.file_name}.`, error, () => handleDeleteAttachment(attachment));
     }
   };
 
-  const handleGenerateSampleData = async () => {
-    if (isGenerating) return;
-    setIsGenerating(true);
-    
-    try {
-      const sampleData = generateSampleExpenses(5);
-      const { data, error } = await supabase
-        .from('expenses')
-        .insert(sampleData)
-        .select();
-
-      if (error) {
-        throw error;
-      }
+  // Receipts need the server, so they are attached once the entry has synced
+  const handleQueued = () => {
+    if (receiptFiles.length === 0) return;
+    setReceiptError('Saved offline without its receipts. Attach them from the entry once it has synced.');
+    setReceiptFiles([]);
+    setReceiptInputKey(key => key + 1);
+  };
 
-      if (data) {
-        setExpenseEntries([...data, ...expenseEntries]);
-      }
-    } catch (error) {
-      console.error('Error generating sample data:', error);
-    } finally {
-      setIsGenerating(false);
+  const receipts: LedgerExtension<'expenses', Record<never, string>> = {
+    renderFormFields: () => (
+      <div>
+        <label htmlFor="receipts" className="block text-sm font-medium text-gray-700">
+          Receipts (photos or PDFs)
+        </label>
+        <input
+          key={receiptInputKey}
+          type="file"
+          id="receipts"
+          multiple
+          accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            setReceiptFiles(files);
+            setReceiptError(files.map(validateAttachment).find(Boolean) ?? '');
+          }}
+          className="mt-1 block w-full text-sm text-gray-500 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-200"
+        />
+        {receiptError && (
+          <div className="mt-1 text-red-600 text-sm">{receiptError}</div>
+        )}
+      </div>
+    ),
+    extraColumn: {
+      header: 'Receipts',
+      render: (entry) => (
+        <ExpenseAttachments
+          expenseId={entry.id}
+          attachments={attachmentsFor(entry.id)}
+          onUpload={canAdd ? (files) => uploadAttachments(entry.id, files) : undefined}
+          onDelete={canEdit ? handleDeleteAttachment : undefined}
+        />
+      )
     }
   };
 
-  if (isLoading) {
-    return <div>Loading...</div>;
-  }
-
   return (
-    <div className="space-y-6">
-      <div className="md:flex md:items-center md:justify-between">
-        <div className="min-w-0 flex-1">
-          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
-            Expense Management
-          </h2>
-        </div>
-        <div className="mt-4 flex md:ml-4 md:mt-0">
+    <LedgerView
+      ledger="expenses"
+      labels={{
+        title: 'Expense Management',
+        listTitle: 'Expense History',
+        addTitle: 'Add New Expense',
+        addButton: 'Add Expense',
+        sheetName: 'Expenses',
+        entryName: 'expense entry',
+        entriesName: 'expenses'
+      }}
+      addPermission="addExpenses"
+      allowedCategories={role === 'CLEANER' ? cleanerCategories : undefined}
+      taxLabels={{ gstin: 'Vendor GSTIN', tds: 'TDS Deducted from Vendor (Rs.)' }}
+      generateSample={generateSampleExpenses}
+      extension={receipts}
+      submitDisabled={receiptFiles.some(file => validateAttachment(file) !== null)}
+      onCreated={handleCreated}
+      onQueued={handleQueued}
+      beforeDelete={(entry) => deleteAttachmentsFor(entry.id)}
+      renderNotices={(getCategoryName) => budgetWarnings.map(({ budget, spent }) => (
+        <div key={budget.id} role="alert" className="flex items-start justify-between rounded-md border border-amber-300 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          <p>
+            {getCategoryName(budget.category)} is over its {budgetPeriodLabels[budget.period].toLowerCase()} budget
+            {budget.property_id ? ` for ${getPropertyName(budget.property_id)}` : ''}:
+            Rs. {formatCurrency(spent)} spent of Rs. {formatCurrency(budget.amount)}.
+          </p>
           <button
             type="button"
-            onClick={handleGenerateSampleData}
-            disabled={isGenerating}
-            className="ml-3 inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+            onClick={() => setBudgetWarnings(warnings => warnings.filter(warning => warning.budget.id !== budget.id))}
+            className="ml-4 font-medium text-amber-900 hover:text-amber-700"
           >
-            {isGenerating ? 'Generating...' : 'Generate Sample Data'}
+            Dismiss
           </button>
         </div>
-      </div>
-
-      {/* Expense Form */}
-      <div className="bg-white shadow sm:rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <h3 className="text-lg font-medium leading-6 text-gray-900">Add New Expense</h3>
-          <form onSubmit={handleSubmit} className="mt-5 space-y-4">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-              <div>
-                <label htmlFor="date" className="block text-sm font-medium text-gray-700">
-                  Date
-                </label>
-                <input
-                  type="date"
-                  id="date"
-                  required
-                  value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
-                  Amount (Rs.)
-                </label>
-                <input
-                  type="number"
-                  id="amount"
-                  required
-                  min="0"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                  Description
-                </label>
-                <input
-                  type="text"
-                  id="description"
-                  required
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="category" className="block text-sm font-medium text-gray-700">
-                  Category
-                </label>
-                <select
-                  id="category"
-                  required
-                  value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                >
-                  <option value="MAINTENANCE">Maintenance</option>
-                  <option value="UTILITIES">Utilities</option>
-                  <option value="SUPPLIES">Supplies</option>
-                  <option value="OTHER">Other</option>
-                </select>
-              </div>
-            </div>
-            <div className="flex justify-end">
-              <button
-                type="submit"
-                className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
-              >
-                Add Expense
-              </button>
-            </div>
-          </form>
-        </div>
-      </div>
-
-      {/* Expense List */}
-      <div className="bg-white shadow sm:rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">Expense History</h3>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-300">
-              <thead>
-                <tr>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Date</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Amount</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Description</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {expenseEntries.map((entry) => (
-                  <tr key={entry.id}>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.date}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">Rs. {formatCurrency(entry.amount)}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.description}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.category}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      </div>
-    </div>
+      ))}
+    />
   );
-} 
\ No newline at end of file
+}
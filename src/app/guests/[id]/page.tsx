@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Guest, Income } from '@/types/database.types';
+import { formatCurrency } from '@/utils/formatters';
+import { BASE_CURRENCY, formatMoney } from '@/utils/currency';
+import { guestFields, guestFormValues, guestLabel, type GuestFormValues } from '@/utils/guests';
+import { fetchAllRows } from '@/utils/ledgerFilters';
+import { hasPermission } from '@/utils/roles';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useCategories } from '@/hooks/useCategories';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { GuestForm } from '@/components/GuestForm';
+
+export default function GuestDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const { role } = useAuth();
+  const { getPropertyName } = useProperty();
+  const { getCategoryName } = useCategories('income');
+  const { showError } = useToast();
+  const [guest, setGuest] = useState<Guest | null>(null);
+  const [stays, setStays] = useState<Income[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchGuest = useCallback(async () => {
+    try {
+      // A regular's history can run past one response, so it is read in chunks
+      const [{ data: guestData, error: guestError }, incomeData] = await Promise.all([
+        supabase.from('guests').select('*').eq('id', id).maybeSingle(),
+        fetchAllRows<Income>((from, to) => supabase
+          .from('income')
+          .select('*')
+          .eq('guest_id', id)
+          .order('date', { ascending: false })
+          .order('id')
+          .range(from, to))
+      ]);
+
+      if (guestError) throw guestError;
+
+      setGuest(guestData);
+      setStays(incomeData);
+    } catch (error) {
+      showError('Could not load the guest.', error, () => fetchGuest(), 'fetch-guest');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, id, showError]);
+
+  useEffect(() => {
+    fetchGuest();
+  }, [fetchGuest]);
+
+  const handleUpdate = async (values: GuestFormValues) => {
+    const { data, error } = await supabase
+      .from('guests')
+      .update(guestFields(values))
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setGuest(data);
+    setIsEditing(false);
+  };
+
+  // Income keeps its amounts; only the link to the guest is cleared
+  const handleDelete = async () => {
+    setIsConfirmingDelete(false);
+
+    try {
+      const { error } = await supabase
+        .from('guests')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+
+      router.push('/guests');
+    } catch (error) {
+      showError(`Could not delete ${guest ? guestLabel(guest) : 'the guest'}.`, error, handleDelete);
+    }
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!guest) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500">This guest could not be found.</p>
+        <Link href="/guests" className="text-sm text-indigo-600 hover:text-indigo-900">
+          Back to guests
+        </Link>
+      </div>
+    );
+  }
+
+  const lifetimeRevenue = stays.reduce((sum, entry) => sum + entry.base_amount, 0);
+  const totalNights = stays.reduce((sum, entry) => sum + (entry.nights ?? 0), 0);
+
+  const cards = [
+    { label: 'Lifetime Revenue', value: `Rs. ${formatCurrency(lifetimeRevenue)}` },
+    { label: 'Stays', value: String(stays.length) },
+    { label: 'Nights Stayed', value: String(totalNights) },
+    { label: 'First Stay', value: stays[stays.length - 1]?.date ?? '-' },
+    { label: 'Last Stay', value: stays[0]?.date ?? '-' }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <Link href="/guests" className="text-sm text-indigo-600 hover:text-indigo-900">
+            ← Guests
+          </Link>
+          <h2 className="mt-1 text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            {guestLabel(guest)}
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {[guest.email, guest.phone].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        {hasPermission(role, 'editLedgers') && (
+          <div className="mt-4 flex md:ml-4 md:mt-0">
+            <button
+              type="button"
+              onClick={() => setIsEditing(!isEditing)}
+              className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsConfirmingDelete(true)}
+              className="ml-3 inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-red-600 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-red-50"
+            >
+              Delete
+            </button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Edit Guest</h3>
+            <GuestForm
+              initialValues={guestFormValues(guest)}
+              submitLabel="Save"
+              onSubmit={handleUpdate}
+              onCancel={() => setIsEditing(false)}
+            />
+          </div>
+        </div>
+      ) : guest.notes && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Notes</h3>
+            <p className="mt-2 whitespace-pre-line text-sm text-gray-700">{guest.notes}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <dl>
+                <dt className="text-sm font-medium text-gray-500">{card.label}</dt>
+                <dd className="mt-1 text-lg font-medium text-gray-900">{card.value}</dd>
+              </dl>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Stay History */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">Stay History</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Date</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Property</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Stay</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Description</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {stays.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.date}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getPropertyName(entry.property_id)}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {entry.nights && `${entry.check_in} to ${entry.check_out} (${entry.nights} ${entry.nights === 1 ? 'night' : 'nights'})`}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.description}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getCategoryName(entry.category)}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                      {formatMoney(entry.amount, entry.currency)}
+                      {entry.currency !== BASE_CURRENCY && (
+                        <div className="text-xs text-gray-400">Rs. {formatCurrency(entry.base_amount)}</div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {stays.length === 0 && (
+              <p className="px-3 py-4 text-sm text-gray-500">
+                No income is linked to this guest yet. Pick the guest when adding or editing income.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={isConfirmingDelete}
+        title="Delete guest"
+        message={`Delete ${guest.name}? Their ${stays.length} income entries are kept but no longer linked to a guest.`}
+        onConfirm={handleDelete}
+        onCancel={() => setIsConfirmingDelete(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { formatCurrency } from '@/utils/formatters';
+import { guestFields, searchGuests, type GuestFormValues } from '@/utils/guests';
+import { fetchAllRows } from '@/utils/ledgerFilters';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { GuestForm } from '@/components/GuestForm';
+import { useGuests } from '@/hooks/useGuests';
+import { hasPermission } from '@/utils/roles';
+
+interface GuestTotals {
+  stays: number;
+  revenue: number;
+  lastStay: string | null;
+}
+
+export default function GuestsPage() {
+  const { user, workspaceId, role } = useAuth();
+  const { guests, isLoading, createGuest } = useGuests();
+  const { showError } = useToast();
+  const [totals, setTotals] = useState<Record<string, GuestTotals>>({});
+  const [query, setQuery] = useState('');
+
+  const supabase = getSupabaseBrowserClient();
+
+  // Lifetime figures across all properties, in rupees. Every linked entry
+  // counts, so they are read in chunks past the 1000-row response limit.
+  const fetchTotals = useCallback(async () => {
+    try {
+      const rows = await fetchAllRows((from, to) => supabase
+        .from('income')
+        .select('guest_id, date, base_amount')
+        .not('guest_id', 'is', null)
+        .order('id')
+        .range(from, to));
+
+      const byGuest: Record<string, GuestTotals> = {};
+      for (const row of rows) {
+        if (!row.guest_id) continue;
+        const current = byGuest[row.guest_id] ?? { stays: 0, revenue: 0, lastStay: null };
+        byGuest[row.guest_id] = {
+          stays: current.stays + 1,
+          revenue: current.revenue + row.base_amount,
+          lastStay: !current.lastStay || row.date > current.lastStay ? row.date : current.lastStay
+        };
+      }
+      setTotals(byGuest);
+    } catch (error) {
+      showError('Could not load guest totals.', error, () => fetchTotals(), 'fetch-guest-totals');
+    }
+  }, [supabase, showError]);
+
+  useEffect(() => {
+    fetchTotals();
+  }, [fetchTotals]);
+
+  const handleSubmit = async (values: GuestFormValues) => {
+    if (!user || !workspaceId) return;
+    await createGuest({ workspace_id: workspaceId, user_id: user.id, ...guestFields(values) });
+  };
+
+  const visibleGuests = useMemo(() => searchGuests(guests, query), [guests, query]);
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Guests
+          </h2>
+        </div>
+      </div>
+
+      {/* Guest Form */}
+      {hasPermission(role, 'editLedgers') && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">Add New Guest</h3>
+            <GuestForm submitLabel="Add Guest" onSubmit={handleSubmit} />
+          </div>
+        </div>
+      )}
+
+      {/* Guest List */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">All Guests</h3>
+            <input
+              type="search"
+              aria-label="Search guests"
+              placeholder="Search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Name</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Company</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Contact</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Stays</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Last Stay</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Lifetime Revenue</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleGuests.map((guest) => (
+                  <tr key={guest.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm">
+                      <Link href={`/guests/${guest.id}`} className="text-indigo-600 hover:text-indigo-900">
+                        {guest.name}
+                      </Link>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{guest.company}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {[guest.email, guest.phone].filter(Boolean).join(' · ')}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{totals[guest.id]?.stays ?? 0}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{totals[guest.id]?.lastStay}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                      Rs. {formatCurrency(totals[guest.id]?.revenue ?? 0)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {visibleGuests.length === 0 && (
+              <p className="px-3 py-4 text-sm text-gray-500">
+                {guests.length === 0 ? 'No guests yet.' : 'No guests match the search.'}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,233 +1,156 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { createBrowserClient } from '@supabase/ssr';
-import type { Income } from '@/types/database.types';
+import Link from 'next/link';
 import { generateSampleIncome } from '@/utils/sampleData';
-import { formatCurrency } from '@/utils/formatters';
+import { guestLabel } from '@/utils/guests';
+import { stayColumns } from '@/utils/occupancy';
+import { useAuth } from '@/contexts/AuthContext';
+import { GuestPicker } from '@/components/GuestPicker';
+import { LedgerView, type LedgerExtension } from '@/components/LedgerView';
+import { useGuests } from '@/hooks/useGuests';
+
+type StayValues = {
+  guest_id: string;
+  check_in: string;
+  nights: string;
+};
 
 export default function IncomePage() {
-  const [incomeEntries, setIncomeEntries] = useState<Income[]>([]);
-  const [formData, setFormData] = useState({
-    date: '',
-    amount: '',
-    description: '',
-    category: 'RENTAL'
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
-
-  const fetchIncomeEntries = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('income')
-        .select('*')
-        .order('date', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setIncomeEntries(data);
-      }
-    } catch (error) {
-      console.error('Error fetching income entries:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [supabase]);
+  const { user, workspaceId } = useAuth();
+  const { guests, createGuest, getGuest } = useGuests();
 
-  useEffect(() => {
-    fetchIncomeEntries();
-  }, [fetchIncomeEntries]);
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    try {
-      const { data, error } = await supabase
-        .from('income')
-        .insert([
-          {
-            date: formData.date,
-            amount: parseFloat(formData.amount),
-            description: formData.description,
-            category: formData.category
-          }
-        ])
-        .select();
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setIncomeEntries([...data, ...incomeEntries]);
-        setFormData({ date: '', amount: '', description: '', category: 'RENTAL' });
-      }
-    } catch (error) {
-      console.error('Error adding income entry:', error);
-    }
+  const handleCreateGuest = (name: string) => {
+    if (!user || !workspaceId) return Promise.reject(new Error('Not signed in'));
+    return createGuest({ workspace_id: workspaceId, user_id: user.id, name, email: null, phone: null, company: null, notes: null });
   };
 
-  const handleGenerateSampleData = async () => {
-    if (isGenerating) return;
-    setIsGenerating(true);
-    
-    try {
-      const sampleData = generateSampleIncome(5);
-      const { data, error } = await supabase
-        .from('income')
-        .insert(sampleData)
-        .select();
-
-      if (error) {
-        throw error;
-      }
-
-      if (data) {
-        setIncomeEntries([...data, ...incomeEntries]);
-      }
-    } catch (error) {
-      console.error('Error generating sample data:', error);
-    } finally {
-      setIsGenerating(false);
-    }
-  };
-
-  if (isLoading) {
-    return <div>Loading...</div>;
-  }
+  // A stay starts on the entry date unless another check-in is given
+  const stay = (values: StayValues & { date: string }) => ({
+    guest_id: values.guest_id || null,
+    ...stayColumns(values.check_in || values.date, values.nights)
+  });
 
-  return (
-    <div className="space-y-6">
-      <div className="md:flex md:items-center md:justify-between">
-        <div className="min-w-0 flex-1">
-          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
-            Income Management
-          </h2>
+  const guestAndStay: LedgerExtension<'income', StayValues> = {
+    emptyValues: { guest_id: '', check_in: '', nights: '' },
+    valuesFor: (entry) => ({
+      guest_id: entry.guest_id ?? '',
+      check_in: entry.check_in ?? '',
+      nights: entry.nights ? String(entry.nights) : ''
+    }),
+    insertColumns: stay,
+    updateColumns: stay,
+    renderFormFields: (values, onChange) => (
+      <>
+        <div>
+          <label htmlFor="guest" className="block text-sm font-medium text-gray-700">
+            Guest (optional)
+          </label>
+          <GuestPicker
+            id="guest"
+            guests={guests}
+            value={values.guest_id}
+            onChange={(guestId) => onChange({ guest_id: guestId ?? '' })}
+            onCreate={handleCreateGuest}
+          />
         </div>
-        <div className="mt-4 flex md:ml-4 md:mt-0">
-          <button
-            type="button"
-            onClick={handleGenerateSampleData}
-            disabled={isGenerating}
-            className="ml-3 inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
-          >
-            {isGenerating ? 'Generating...' : 'Generate Sample Data'}
-          </button>
+        <div>
+          <label htmlFor="nights" className="block text-sm font-medium text-gray-700">
+            Nights (for stays)
+          </label>
+          <input
+            type="number"
+            id="nights"
+            min="1"
+            step="1"
+            value={values.nights}
+            onChange={(e) => onChange({ nights: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
         </div>
+        {values.nights && (
+          <div>
+            <label htmlFor="check-in" className="block text-sm font-medium text-gray-700">
+              Check-in
+            </label>
+            <input
+              type="date"
+              id="check-in"
+              required
+              value={values.check_in || values.date}
+              onChange={(e) => onChange({ check_in: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+        )}
+      </>
+    ),
+    renderEditDateFields: (values, onChange) => (
+      <>
+        <input
+          type="number"
+          min="1"
+          step="1"
+          form="edit-entry"
+          aria-label="Nights"
+          placeholder="Nights"
+          value={values.nights}
+          onChange={(e) => onChange({ nights: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+        {values.nights && (
+          <input
+            type="date"
+            required
+            form="edit-entry"
+            aria-label="Check-in"
+            value={values.check_in || values.date}
+            onChange={(e) => onChange({ check_in: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        )}
+      </>
+    ),
+    renderEditDescriptionFields: (values, onChange) => (
+      <GuestPicker
+        id="edit-guest"
+        guests={guests}
+        value={values.guest_id}
+        onChange={(guestId) => onChange({ guest_id: guestId ?? '' })}
+        onCreate={handleCreateGuest}
+      />
+    ),
+    renderDateDetails: (entry) => entry.nights && (
+      <div className="text-xs text-gray-400">
+        {entry.nights} {entry.nights === 1 ? 'night' : 'nights'} from {entry.check_in}
       </div>
-
-      {/* Income Form */}
-      <div className="bg-white shadow sm:rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <h3 className="text-lg font-medium leading-6 text-gray-900">Add New Income</h3>
-          <form onSubmit={handleSubmit} className="mt-5 space-y-4">
-            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
-              <div>
-                <label htmlFor="date" className="block text-sm font-medium text-gray-700">
-                  Date
-                </label>
-                <input
-                  type="date"
-                  id="date"
-                  required
-                  value={formData.date}
-                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
-                  Amount (Rs.)
-                </label>
-                <input
-                  type="number"
-                  id="amount"
-                  required
-                  min="0"
-                  step="0.01"
-                  value={formData.amount}
-                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="description" className="block text-sm font-medium text-gray-700">
-                  Description
-                </label>
-                <input
-                  type="text"
-                  id="description"
-                  required
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
-              <div>
-                <label htmlFor="category" className="block text-sm font-medium text-gray-700">
-                  Category
-                </label>
-                <select
-                  id="category"
-                  required
-                  value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                >
-                  <option value="RENTAL">Rental</option>
-                  <option value="SERVICE">Service</option>
-                  <option value="OTHER">Other</option>
-                </select>
-              </div>
-            </div>
-            <div className="flex justify-end">
-              <button
-                type="submit"
-                className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
-              >
-                Add Income
-              </button>
-            </div>
-          </form>
+    ),
+    renderDescriptionDetails: (entry) => {
+      const guest = getGuest(entry.guest_id);
+      return guest && (
+        <div className="text-xs">
+          <Link href={`/guests/${guest.id}`} className="text-indigo-600 hover:text-indigo-900">
+            {guestLabel(guest)}
+          </Link>
         </div>
-      </div>
+      );
+    }
+  };
 
-      {/* Income List */}
-      <div className="bg-white shadow sm:rounded-lg">
-        <div className="px-4 py-5 sm:p-6">
-          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">Income History</h3>
-          <div className="overflow-x-auto">
-            <table className="min-w-full divide-y divide-gray-300">
-              <thead>
-                <tr>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Date</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Amount</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Description</th>
-                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {incomeEntries.map((entry) => (
-                  <tr key={entry.id}>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.date}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">Rs. {formatCurrency(entry.amount)}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.description}</td>
-                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{entry.category}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
-      </div>
-    </div>
+  return (
+    <LedgerView
+      ledger="income"
+      labels={{
+        title: 'Income Management',
+        listTitle: 'Income History',
+        addTitle: 'Add New Income',
+        addButton: 'Add Income',
+        sheetName: 'Income',
+        entryName: 'income entry',
+        entriesName: 'income entries'
+      }}
+      taxLabels={{ gstin: 'Customer GSTIN', tds: 'TDS Deducted by Customer (Rs.)' }}
+      generateSample={generateSampleIncome}
+      extension={guestAndStay}
+    />
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { useAuth } from '@/contexts/AuthContext';
+import { fetchInvitation, roleWithArticle, type InvitationDetails } from '@/utils/invitations';
+import { homeRoute } from '@/utils/roles';
+
+// Where an invitation email's link lands. Signed-out visitors sign up or in
+// first; signed-in ones join with one click.
+export default function InvitePage() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading } = useAuth();
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAccepting, setIsAccepting] = useState(false);
+  const [error, setError] = useState('');
+
+  const supabase = getSupabaseBrowserClient();
+
+  useEffect(() => {
+    fetchInvitation(supabase, token)
+      .then(setInvitation)
+      .catch((error) => console.error('Error fetching invitation:', error))
+      .finally(() => setIsLoading(false));
+  }, [supabase, token]);
+
+  const handleAccept = async () => {
+    if (!invitation) return;
+    setIsAccepting(true);
+    setError('');
+
+    try {
+      const { error } = await supabase.rpc('accept_invitation', { invite_token: token });
+      if (error) throw error;
+
+      // A full load so that every page starts on the new workspace
+      window.location.assign(homeRoute(invitation.role));
+    } catch (error) {
+      console.error('Error accepting invitation:', error);
+      setError('Could not accept the invitation. Ask the owner to send a new one.');
+      setIsAccepting(false);
+    }
+  };
+
+  if (isLoading || loading) {
+    return <div>Loading...</div>;
+  }
+
+  const isForOtherEmail = user && invitation && user.email?.toLowerCase() !== invitation.email.toLowerCase();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-6 text-center">
+        {!invitation ? (
+          <p className="text-sm text-gray-600">This invitation link is not valid.</p>
+        ) : invitation.status === 'ACCEPTED' ? (
+          <p className="text-sm text-gray-600">
+            This invitation has already been used.{' '}
+            <Link href="/" className="font-medium text-indigo-600 hover:text-indigo-500">Go to the app</Link>
+          </p>
+        ) : invitation.status === 'EXPIRED' ? (
+          <p className="text-sm text-gray-600">
+            This invitation has expired. Ask the owner of {invitation.workspace_name} to send a new one.
+          </p>
+        ) : (
+          <>
+            <h2 className="text-3xl font-extrabold text-gray-900">Join {invitation.workspace_name}</h2>
+            <p className="text-sm text-gray-600">
+              You have been invited to work in {invitation.workspace_name} as {roleWithArticle(invitation.role)}.
+            </p>
+
+            {!user ? (
+              <div className="flex justify-center space-x-4">
+                <Link
+                  href={`/signup?invite=${token}`}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+                >
+                  Create an account
+                </Link>
+                <Link
+                  href={`/login?next=${encodeURIComponent(`/invite/${token}`)}`}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-md text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+                >
+                  Sign in
+                </Link>
+              </div>
+            ) : isForOtherEmail ? (
+              <p className="text-sm text-red-600">
+                This invitation was sent to {invitation.email}, but you are signed in as {user.email}.
+                Sign in with that address to accept it.
+              </p>
+            ) : (
+              <button
+                type="button"
+                onClick={handleAccept}
+                disabled={isAccepting}
+                className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isAccepting ? 'Joining...' : `Join ${invitation.workspace_name}`}
+              </button>
+            )}
+
+            {error && (
+              <div className="text-red-600 text-sm">{error}</div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
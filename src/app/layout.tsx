@@ -2,8 +2,14 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { PropertyProvider } from "@/contexts/PropertyContext";
+import { OfflineQueueProvider } from "@/contexts/OfflineQueueContext";
+import { LedgerChangesProvider } from "@/contexts/LedgerChangesContext";
+import { ToastProvider } from "@/contexts/ToastContext";
 import { NavBar } from "@/components/NavBar";
+import { Toaster } from "@/components/Toaster";
 import Script from "next/script";
+import { Suspense } from "react";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -43,14 +49,26 @@ export default function RootLayout({
         <meta name="apple-mobile-web-app-status-bar-style" content="default" />
       </head>
       <body className={inter.className}>
-        <AuthProvider>
-          <div className="min-h-screen bg-gray-100">
-            <NavBar />
-            <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 pt-24">
-              {children}
-            </main>
-          </div>
-        </AuthProvider>
+        <ToastProvider>
+          <AuthProvider>
+            <OfflineQueueProvider>
+              <LedgerChangesProvider>
+                {/* The selected property lives in the query string */}
+                <Suspense>
+                  <PropertyProvider>
+                    <div className="min-h-screen bg-gray-100">
+                      <NavBar />
+                      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8 pt-24">
+                        {children}
+                      </main>
+                    </div>
+                  </PropertyProvider>
+                </Suspense>
+              </LedgerChangesProvider>
+            </OfflineQueueProvider>
+          </AuthProvider>
+          <Toaster />
+        </ToastProvider>
         <Script
           id="sw-registration"
           strategy="afterInteractive"
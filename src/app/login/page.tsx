@@ -2,9 +2,22 @@
 
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 
+// Only paths on this site are followed, so a crafted link cannot send people
+// elsewhere once they have signed in. Parsing catches the forms a prefix
+// check misses, such as "/\evil.com", which browsers read as "//evil.com".
+const sameOriginPath = (next: string | null) => {
+  if (!next) return null;
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : null;
+  } catch {
+    return null;
+  }
+};
+
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -12,6 +25,9 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const { signIn } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set by pages that send people here to sign in first, such as an invitation
+  const next = searchParams.get('next');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -20,7 +36,7 @@ export default function LoginPage() {
 
     try {
       await signIn(email, password);
-      router.push('/dashboard');
+      router.push(sameOriginPath(next) ?? '/dashboard');
     } catch {
       setError('Failed to sign in. Please check your credentials.');
     } finally {
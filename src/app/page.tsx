@@ -1,8 +1,10 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { createBrowserClient } from '@supabase/ssr';
 import { formatCurrency } from '@/utils/formatters';
+import { fetchLedgerSummary } from '@/utils/summaryApi';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
 
 interface SummaryData {
   totalIncome: number;
@@ -17,32 +19,14 @@ export default function Home() {
     netProfit: 0
   });
   const [isLoading, setIsLoading] = useState(true);
-
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
+  const { selectedPropertyId, withProperty } = useProperty();
+  const { showError } = useToast();
 
   const fetchSummaryData = useCallback(async () => {
     try {
-      // Fetch income
-      const { data: incomeData, error: incomeError } = await supabase
-        .from('income')
-        .select('amount');
-
-      if (incomeError) throw incomeError;
-
-      // Fetch expenses
-      const { data: expenseData, error: expenseError } = await supabase
-        .from('expenses')
-        .select('amount');
-
-      if (expenseError) throw expenseError;
-
-      // Calculate totals
-      const totalIncome = incomeData?.reduce((sum, item) => sum + item.amount, 0) || 0;
-      const totalExpenses = expenseData?.reduce((sum, item) => sum + item.amount, 0) || 0;
-      const netProfit = totalIncome - totalExpenses;
+      const { totalIncome, totalExpenses, netProfit } = await fetchLedgerSummary({
+        propertyId: selectedPropertyId
+      });
 
       setSummaryData({
         totalIncome,
@@ -50,11 +34,11 @@ export default function Home() {
         netProfit
       });
     } catch (error) {
-      console.error('Error fetching summary data:', error);
+      showError('Could not load the summary.', error, () => fetchSummaryData(), 'fetch-summary');
     } finally {
       setIsLoading(false);
     }
-  }, [supabase]);
+  }, [selectedPropertyId, showError]);
 
   useEffect(() => {
     fetchSummaryData();
@@ -141,12 +125,12 @@ export default function Home() {
           <h3 className="text-lg font-medium leading-6 text-gray-900">Quick Actions</h3>
           <div className="mt-5 grid grid-cols-1 gap-4 sm:grid-cols-2">
             <div>
-              <a href="/income" className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 w-full">
+              <a href={withProperty('/income')} className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 w-full">
                 Record Income
               </a>
             </div>
             <div>
-              <a href="/expenses" className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 w-full">
+              <a href={withProperty('/expenses')} className="inline-flex items-center justify-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 w-full">
                 Record Expense
               </a>
             </div>
@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { PROPERTY_PARAM, useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+
+export default function PropertiesPage() {
+  const { user, workspaceId } = useAuth();
+  const { properties, refreshProperties } = useProperty();
+  const { showError } = useToast();
+  const [formData, setFormData] = useState({
+    name: '',
+    location: ''
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (isSaving || !user || !workspaceId) return;
+    setIsSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from('properties')
+        .insert([
+          {
+            workspace_id: workspaceId,
+            user_id: user.id,
+            name: formData.name,
+            location: formData.location || null
+          }
+        ]);
+
+      if (error) {
+        throw error;
+      }
+
+      await refreshProperties();
+      setFormData({ name: '', location: '' });
+    } catch (error) {
+      showError(`Could not add ${formData.name}.`, error, handleSubmit);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Properties
+          </h2>
+        </div>
+      </div>
+
+      {/* Property Form */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Add New Property</h3>
+          <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  required
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="location" className="block text-sm font-medium text-gray-700">
+                  Location
+                </label>
+                <input
+                  type="text"
+                  id="location"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Add Property'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+
+      {/* Property List */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">All Properties</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Name</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Location</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {properties.map((property) => (
+                  <tr key={property.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{property.name}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{property.location}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                      <Link
+                        href={`/dashboard?${PROPERTY_PARAM}=${property.id}`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        View Dashboard
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { formatCurrency } from '@/utils/formatters';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ExportMenu } from '@/components/ExportMenu';
+import { exportFilename, type Sheet } from '@/utils/export';
+import { financialYearLabel, financialYearOf, financialYearRange, today } from '@/utils/dates';
+import { fetchAllRows } from '@/utils/ledgerFilters';
+import { taxSummary } from '@/utils/tax';
+
+const YEARS_SHOWN = 6;
+
+// YYYY-MM to a label such as "Apr 2026"
+const monthLabel = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString('en-IN', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+};
+
+export default function TaxReportPage() {
+  const { selectedPropertyId, getPropertyName } = useProperty();
+  const { showError } = useToast();
+  const currentYear = financialYearOf(today());
+  const [year, setYear] = useState(currentYear);
+  const [summary, setSummary] = useState(() => taxSummary(currentYear, [], []));
+  const [isLoading, setIsLoading] = useState(true);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchTaxData = useCallback(async () => {
+    const { startDate, endDate } = financialYearRange(year);
+    // A year can hold more entries than one response returns, and every
+    // one of them counts towards the totals, so they are read in chunks
+    const ledgerRows = (table: 'income' | 'expenses') => fetchAllRows((from, to) => {
+      let query = supabase
+        .from(table)
+        .select('date, amount, gst_amount, tds_amount, exchange_rate, base_amount')
+        .gte('date', startDate)
+        .lte('date', endDate)
+        .order('id')
+        .range(from, to);
+
+      if (selectedPropertyId) {
+        query = query.eq('property_id', selectedPropertyId);
+      }
+
+      return query;
+    });
+
+    try {
+      const [income, expenses] = await Promise.all([ledgerRows('income'), ledgerRows('expenses')]);
+
+      setSummary(taxSummary(year, income, expenses));
+    } catch (error) {
+      showError('Could not load the tax report.', error, () => fetchTaxData(), 'fetch-tax');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, year, selectedPropertyId, showError]);
+
+  useEffect(() => {
+    fetchTaxData();
+  }, [fetchTaxData]);
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  const { totals, months } = summary;
+  const netGstPayable = totals.outputTax - totals.inputTaxCredit;
+  const propertyLabel = selectedPropertyId ? getPropertyName(selectedPropertyId) : 'All Properties';
+
+  const cards = [
+    { label: 'Output Tax (GST on income)', value: totals.outputTax },
+    { label: 'Input Tax Credit (GST on expenses)', value: totals.inputTaxCredit },
+    { label: netGstPayable >= 0 ? 'Net GST Payable' : 'Net GST Credit', value: Math.abs(netGstPayable) },
+    { label: 'TDS Deducted by Customers', value: totals.tdsReceivable },
+    { label: 'TDS Deducted from Vendors', value: totals.tdsPayable }
+  ];
+
+  const getExportSheets = (): Sheet[] => [
+    {
+      name: 'Summary',
+      rows: [
+        ['', 'Amount (Rs.)'],
+        ['Gross income', totals.grossIncome],
+        ['Net income (excl. GST)', totals.netIncome],
+        ['Gross expenses', totals.grossExpenses],
+        ['Net expenses (excl. GST)', totals.netExpenses],
+        ...cards.map(card => [card.label, card.value])
+      ]
+    },
+    {
+      name: 'By Month',
+      rows: [
+        ['Month', 'Output Tax (Rs.)', 'Input Tax Credit (Rs.)', 'Net GST (Rs.)', 'TDS by Customers (Rs.)', 'TDS from Vendors (Rs.)'],
+        ...months.map(m => [
+          monthLabel(m.month),
+          m.outputTax,
+          m.inputTaxCredit,
+          m.outputTax - m.inputTaxCredit,
+          m.tdsReceivable,
+          m.tdsPayable
+        ])
+      ]
+    }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Tax Report
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {financialYearLabel(year)} (1 April {year} to 31 March {year + 1}), {propertyLabel}
+          </p>
+        </div>
+        <div className="mt-4 flex items-center md:ml-4 md:mt-0">
+          <label htmlFor="financial-year" className="sr-only">Financial year</label>
+          <select
+            id="financial-year"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            {Array.from({ length: YEARS_SHOWN }, (_, i) => currentYear - i).map(startYear => (
+              <option key={startYear} value={startYear}>{financialYearLabel(startYear)}</option>
+            ))}
+          </select>
+          <div className="ml-3">
+            <ExportMenu
+              filename={exportFilename('tax-report', financialYearLabel(year), propertyLabel)}
+              title={`Tax Report: ${financialYearLabel(year)}, ${propertyLabel}`}
+              getSheets={getExportSheets}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <dl>
+                <dt className="text-sm font-medium text-gray-500">{card.label}</dt>
+                <dd className="mt-1 text-lg font-medium text-gray-900">Rs. {formatCurrency(card.value)}</dd>
+              </dl>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Gross vs Net */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">Gross and Net of GST</h3>
+          <dl className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+            {[
+              { label: 'Gross Income', value: totals.grossIncome },
+              { label: 'Net Income', value: totals.netIncome },
+              { label: 'Gross Expenses', value: totals.grossExpenses },
+              { label: 'Net Expenses', value: totals.netExpenses }
+            ].map(item => (
+              <div key={item.label}>
+                <dt className="text-gray-500">{item.label}</dt>
+                <dd className="font-medium text-gray-900">Rs. {formatCurrency(item.value)}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      </div>
+
+      {/* Monthly Breakdown */}
+      <div className="bg-white shadow overflow-hidden sm:rounded-lg">
+        <div className="px-4 py-5 sm:px-6">
+          <h3 className="text-lg leading-6 font-medium text-gray-900">By Month</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Output Tax</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Input Tax Credit</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Net GST</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">TDS by Customers</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">TDS from Vendors</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {[...months, { month: 'Total', ...totals }].map(m => (
+                <tr key={m.month} className={m.month === 'Total' ? 'bg-gray-50 font-medium' : ''}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {m.month === 'Total' ? 'Total' : monthLabel(m.month)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(m.outputTax)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(m.inputTaxCredit)}</td>
+                  <td className={`px-6 py-4 whitespace-nowrap text-sm ${m.outputTax - m.inputTaxCredit > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(m.outputTax - m.inputTaxCredit)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(m.tdsReceivable)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatCurrency(m.tdsPayable)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+'use client';
+
+import { useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Budget, BudgetPeriod } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useBudgets } from '@/hooks/useBudgets';
+import { useCategories } from '@/hooks/useCategories';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { formatCurrency } from '@/utils/formatters';
+import { budgetPeriodLabels } from '@/utils/budgets';
+
+export default function BudgetSettingsPage() {
+  const { user, workspaceId } = useAuth();
+  const { properties, getPropertyName } = useProperty();
+  const { activeCategories, getCategoryName } = useCategories('expense');
+  const { statuses, refreshBudgets } = useBudgets();
+  const { showError } = useToast();
+  const [formData, setFormData] = useState({
+    category: '',
+    period: 'MONTHLY' as BudgetPeriod,
+    property_id: '',
+    amount: ''
+  });
+  const [formError, setFormError] = useState('');
+  const [deleteCandidate, setDeleteCandidate] = useState<Budget | null>(null);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const formCategory = formData.category || activeCategories[0]?.code || '';
+
+  // Setting a budget for a category, period and property that already has
+  // one replaces its amount
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !workspaceId) return;
+    setFormError('');
+
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .upsert(
+          {
+            workspace_id: workspaceId,
+            user_id: user.id,
+            property_id: formData.property_id || null,
+            category: formCategory,
+            period: formData.period,
+            amount: parseFloat(formData.amount)
+          },
+          { onConflict: 'workspace_id,property_id,category,period' }
+        );
+
+      if (error) throw error;
+
+      await refreshBudgets();
+      setFormData({ ...formData, amount: '' });
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      setFormError('Failed to save budget');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteCandidate) return;
+    const budget = deleteCandidate;
+    setDeleteCandidate(null);
+    await deleteBudget(budget);
+  };
+
+  const deleteBudget = async (budget: Budget) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', budget.id);
+
+      if (error) throw error;
+
+      await refreshBudgets();
+    } catch (error) {
+      showError(`Could not delete the ${getCategoryName(budget.category)} budget.`, error, () => deleteBudget(budget));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Budgets
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Spending limits per expense category for each calendar month, quarter or year.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Set Budget</h3>
+          <form onSubmit={handleSubmit} className="mt-5 flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="budget-category" className="block text-sm font-medium text-gray-700">
+                Category
+              </label>
+              <select
+                id="budget-category"
+                required
+                value={formCategory}
+                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {activeCategories.map(category => (
+                  <option key={category.code} value={category.code}>{category.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="budget-period" className="block text-sm font-medium text-gray-700">
+                Period
+              </label>
+              <select
+                id="budget-period"
+                value={formData.period}
+                onChange={(e) => setFormData({ ...formData, period: e.target.value as BudgetPeriod })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {Object.entries(budgetPeriodLabels).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="budget-property" className="block text-sm font-medium text-gray-700">
+                Property
+              </label>
+              <select
+                id="budget-property"
+                value={formData.property_id}
+                onChange={(e) => setFormData({ ...formData, property_id: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                <option value="">All Properties</option>
+                {properties.map(property => (
+                  <option key={property.id} value={property.id}>{property.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="budget-amount" className="block text-sm font-medium text-gray-700">
+                Amount (Rs.)
+              </label>
+              <input
+                type="number"
+                id="budget-amount"
+                required
+                min="0.01"
+                step="0.01"
+                value={formData.amount}
+                onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={!formCategory}
+              className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              Save Budget
+            </button>
+          </form>
+          {formError && (
+            <div className="mt-2 text-red-600 text-sm">{formError}</div>
+          )}
+
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Period</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Property</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Budget</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Spent This Period</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {statuses.map(({ budget, spent }) => (
+                  <tr key={budget.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{getCategoryName(budget.category)}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{budgetPeriodLabels[budget.period]}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {budget.property_id ? getPropertyName(budget.property_id) : 'All Properties'}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">Rs. {formatCurrency(budget.amount)}</td>
+                    <td className={`whitespace-nowrap px-3 py-4 text-sm ${spent > budget.amount ? 'text-red-600' : 'text-gray-500'}`}>
+                      Rs. {formatCurrency(spent)}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                      <button
+                        type="button"
+                        onClick={() => setDeleteCandidate(budget)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={deleteCandidate !== null}
+        title="Delete budget"
+        message={deleteCandidate
+          ? `Delete the ${budgetPeriodLabels[deleteCandidate.period].toLowerCase()} budget for ${getCategoryName(deleteCandidate.category)}?`
+          : ''}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteCandidate(null)}
+      />
+    </div>
+  );
+}
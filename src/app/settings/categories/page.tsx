@@ -0,0 +1,240 @@
+'use client';
+
+import { useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Category, CategoryType } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useCategories } from '@/hooks/useCategories';
+
+// "Guest Amenities" becomes GUEST_AMENITIES
+const codeFromName = (name: string) =>
+  name.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+function CategoryList({ type, title }: { type: CategoryType; title: string }) {
+  const { user, workspaceId } = useAuth();
+  const { categories, refreshCategories } = useCategories(type);
+  const { showError } = useToast();
+  const [formData, setFormData] = useState({ name: '', color: '#6366F1' });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState({ name: '', color: '' });
+  const [formError, setFormError] = useState('');
+
+  const supabase = getSupabaseBrowserClient();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !workspaceId) return;
+    setFormError('');
+
+    const code = codeFromName(formData.name);
+    if (!code) {
+      setFormError('Name must contain letters or digits');
+      return;
+    }
+    if (categories.some(category => category.code === code)) {
+      setFormError(`A category with the code ${code} already exists`);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .insert([
+          {
+            workspace_id: workspaceId,
+            user_id: user.id,
+            type,
+            code,
+            name: formData.name.trim(),
+            color: formData.color,
+            archived: false
+          }
+        ]);
+
+      if (error) throw error;
+
+      await refreshCategories();
+      setFormData({ ...formData, name: '' });
+    } catch (error) {
+      console.error('Error adding category:', error);
+      setFormError('Failed to add category');
+    }
+  };
+
+  // Resolves to whether the change was saved
+  const updateCategory = async (
+    id: string,
+    changes: Partial<Pick<Category, 'name' | 'color' | 'archived'>>
+  ): Promise<boolean> => {
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) throw error;
+
+      await refreshCategories();
+      return true;
+    } catch (error) {
+      const name = categories.find(category => category.id === id)?.name ?? 'the category';
+      showError(`Could not save ${name}.`, error, () => updateCategory(id, changes));
+      return false;
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+    if (await updateCategory(editingId, { name: editData.name.trim(), color: editData.color })) {
+      setEditingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">{title}</h3>
+        <form onSubmit={handleSubmit} className="mt-5 flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-48">
+            <label htmlFor={`${type}-name`} className="block text-sm font-medium text-gray-700">
+              Name
+            </label>
+            <input
+              type="text"
+              id={`${type}-name`}
+              required
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor={`${type}-color`} className="block text-sm font-medium text-gray-700">
+              Colour
+            </label>
+            <input
+              type="color"
+              id={`${type}-color`}
+              value={formData.color}
+              onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+              className="mt-1 block h-9 w-16 rounded-md border-gray-300"
+            />
+          </div>
+          <button
+            type="submit"
+            className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+          >
+            Add Category
+          </button>
+        </form>
+        {formError && (
+          <div className="mt-2 text-red-600 text-sm">{formError}</div>
+        )}
+
+        <div className="mt-6 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead>
+              <tr>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Name</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Code</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {categories.map((category) => (
+                editingId === category.id ? (
+                  <tr key={category.id} className="bg-gray-50">
+                    <td className="px-3 py-2" colSpan={3}>
+                      <form id={`edit-${type}-category`} onSubmit={handleUpdate} className="flex items-center gap-3">
+                        <input
+                          type="color"
+                          aria-label="Colour"
+                          value={editData.color}
+                          onChange={(e) => setEditData({ ...editData, color: e.target.value })}
+                          className="h-8 w-12 rounded-md border-gray-300"
+                        />
+                        <input
+                          type="text"
+                          required
+                          aria-label="Name"
+                          value={editData.name}
+                          onChange={(e) => setEditData({ ...editData, name: e.target.value })}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                      </form>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2 text-sm text-right space-x-3">
+                      <button type="submit" form={`edit-${type}-category`} className="text-indigo-600 hover:text-indigo-900">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        Cancel
+                      </button>
+                    </td>
+                  </tr>
+                ) : (
+                  <tr key={category.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                      <span className="mr-2 inline-block h-3 w-3 rounded-sm align-middle" style={{ backgroundColor: category.color }} />
+                      {category.name}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{category.code}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {category.archived ? 'Archived' : 'Active'}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right space-x-3">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(category.id);
+                          setEditData({ name: category.name, color: category.color });
+                        }}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateCategory(category.id, { archived: !category.archived })}
+                        className="text-gray-600 hover:text-gray-900"
+                      >
+                        {category.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </td>
+                  </tr>
+                )
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function CategorySettingsPage() {
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Categories
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Archived categories are no longer offered in the forms but keep their name on existing entries.
+          </p>
+        </div>
+      </div>
+
+      <CategoryList type="income" title="Income Categories" />
+      <CategoryList type="expense" title="Expense Categories" />
+    </div>
+  );
+}
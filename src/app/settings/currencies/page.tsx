@@ -0,0 +1,219 @@
+'use client';
+
+import { useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { ExchangeRate } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { BASE_CURRENCY, CURRENCIES, parseRatesCsv, type ParsedRate } from '@/utils/currency';
+
+export default function CurrencySettingsPage() {
+  const { user, workspaceId } = useAuth();
+  const { rates, refreshRates } = useExchangeRates();
+  const { showError } = useToast();
+  const [formData, setFormData] = useState({
+    currency: CURRENCIES.find(currency => currency !== BASE_CURRENCY) ?? '',
+    rate_date: '',
+    rate: ''
+  });
+  const [formError, setFormError] = useState('');
+  const [importResult, setImportResult] = useState<{ imported: number; errors: string[] } | null>(null);
+
+  const supabase = getSupabaseBrowserClient();
+
+  // A second rate for the same currency and day replaces the first
+  const saveRates = async (newRates: ParsedRate[]) => {
+    if (!user || !workspaceId) return;
+
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(
+        newRates.map(rate => ({ ...rate, workspace_id: workspaceId, user_id: user.id })),
+        { onConflict: 'workspace_id,currency,rate_date' }
+      );
+
+    if (error) throw error;
+
+    await refreshRates();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    try {
+      await saveRates([{ currency: formData.currency, rate_date: formData.rate_date, rate: parseFloat(formData.rate) }]);
+      setFormData({ ...formData, rate: '' });
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      setFormError('Failed to save exchange rate');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: parsed, errors } = parseRatesCsv(await file.text());
+
+    try {
+      if (parsed.length > 0) {
+        await saveRates(parsed);
+      }
+      setImportResult({ imported: parsed.length, errors });
+    } catch (error) {
+      console.error('Error importing exchange rates:', error);
+      setImportResult({ imported: 0, errors: ['Failed to save the imported rates'] });
+    }
+  };
+
+  const handleDelete = async (rate: ExchangeRate) => {
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', rate.id);
+
+      if (error) throw error;
+
+      await refreshRates();
+    } catch (error) {
+      showError(`Could not delete the ${rate.currency} rate for ${rate.rate_date}.`, error, () => handleDelete(rate));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Exchange Rates
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Rupees per unit of foreign currency. New entries take the latest rate on or before their date;
+            the rate is saved with each entry, so changing rates here never alters past totals.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Add Rate</h3>
+          <form onSubmit={handleSubmit} className="mt-5 flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="rate-currency" className="block text-sm font-medium text-gray-700">
+                Currency
+              </label>
+              <select
+                id="rate-currency"
+                value={formData.currency}
+                onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {CURRENCIES.filter(currency => currency !== BASE_CURRENCY).map(currency => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="rate-date" className="block text-sm font-medium text-gray-700">
+                Date
+              </label>
+              <input
+                type="date"
+                id="rate-date"
+                required
+                value={formData.rate_date}
+                onChange={(e) => setFormData({ ...formData, rate_date: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="rate-value" className="block text-sm font-medium text-gray-700">
+                Rate (Rs.)
+              </label>
+              <input
+                type="number"
+                id="rate-value"
+                required
+                min="0.000001"
+                step="0.000001"
+                value={formData.rate}
+                onChange={(e) => setFormData({ ...formData, rate: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+            >
+              Save Rate
+            </button>
+          </form>
+          {formError && (
+            <div className="mt-2 text-red-600 text-sm">{formError}</div>
+          )}
+
+          <div className="mt-6">
+            <label htmlFor="rates-file" className="block text-sm font-medium text-gray-700">
+              Load from file
+            </label>
+            <p className="text-xs text-gray-500">CSV with a header row and date, currency and rate columns.</p>
+            <input
+              type="file"
+              id="rates-file"
+              accept=".csv,text/csv"
+              onChange={handleFile}
+              className="mt-1 block text-sm text-gray-500 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-gray-700 hover:file:bg-gray-200"
+            />
+            {importResult && (
+              <div className="mt-2 text-sm">
+                <p className="text-gray-700">Imported {importResult.imported} rates.</p>
+                {importResult.errors.length > 0 && (
+                  <ul className="mt-1 list-disc pl-5 text-red-600">
+                    {importResult.errors.map(error => (
+                      <li key={error}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Date</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Currency</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Rate (Rs.)</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rates.map(rate => (
+                  <tr key={rate.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{rate.rate_date}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{rate.currency}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{rate.rate}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(rate)}
+                        className="text-red-600 hover:text-red-900"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { WorkspaceInvitation, WorkspaceMember } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { ROLES, roleDescriptions, roleLabels } from '@/utils/roles';
+import { INVITATION_ROLES, type InvitationRole } from '@/utils/invitations';
+
+type PendingInvitation = Omit<WorkspaceInvitation, 'token_hash' | 'invited_by' | 'accepted_by'>;
+
+export default function TeamSettingsPage() {
+  const { user, workspaceId, workspaceName, refreshMemberships } = useAuth();
+  const { showError } = useToast();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<PendingInvitation[]>([]);
+  const [emails, setEmails] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState({ email: '', role: 'MANAGER' as InvitationRole });
+  const [formError, setFormError] = useState('');
+  const [isInviting, setIsInviting] = useState(false);
+  const [nameDraft, setNameDraft] = useState<string | null>(null);
+  const [removeCandidate, setRemoveCandidate] = useState<WorkspaceMember | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchMembers = useCallback(async () => {
+    if (!workspaceId) return;
+
+    try {
+      const [
+        { data: memberData, error: memberError },
+        { data: emailData, error: emailError },
+        { data: invitationData, error: invitationError }
+      ] = await Promise.all([
+        supabase
+          .from('workspace_members')
+          .select('*')
+          .eq('workspace_id', workspaceId)
+          .order('created_at', { ascending: true }),
+        supabase.rpc('workspace_member_emails'),
+        supabase
+          .from('workspace_invitations')
+          .select('id, created_at, workspace_id, email, role, expires_at, accepted_at')
+          .eq('workspace_id', workspaceId)
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (memberError) throw memberError;
+      if (emailError) throw emailError;
+      if (invitationError) throw invitationError;
+
+      setMembers(memberData ?? []);
+      setInvitations(invitationData ?? []);
+      setEmails(Object.fromEntries(
+        (emailData ?? []).map(row => [row.user_id, row.email])
+      ));
+    } catch (error) {
+      showError('Could not load the team.', error, () => fetchMembers(), 'fetch-team');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, workspaceId, showError]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isInviting) return;
+    setIsInviting(true);
+    setFormError('');
+
+    try {
+      const response = await fetch('/api/invitations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      });
+      const body = await response.json();
+
+      if (!response.ok) {
+        setFormError(body.error ?? 'Could not send the invitation.');
+        return;
+      }
+
+      setInvitations(current => [
+        body.invitation,
+        ...current.filter(invitation => invitation.email !== body.invitation.email)
+      ]);
+      setFormData({ ...formData, email: '' });
+    } catch (error) {
+      console.error('Error inviting team member:', error);
+      setFormError('Could not send the invitation.');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: PendingInvitation) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      setInvitations(current => current.filter(i => i.id !== invitation.id));
+    } catch (error) {
+      showError(`Could not revoke the invitation to ${invitation.email}.`, error, () => handleRevoke(invitation));
+    }
+  };
+
+  const handleRename = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!workspaceId || !nameDraft?.trim()) return;
+
+    try {
+      const { error } = await supabase
+        .from('workspaces')
+        .update({ name: nameDraft.trim() })
+        .eq('id', workspaceId);
+
+      if (error) throw error;
+
+      await refreshMemberships();
+      setNameDraft(null);
+    } catch (error) {
+      showError('Could not rename the workspace.', error, handleRename);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, role: InvitationRole) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      setMembers(current => current.map(m => (m.id === member.id ? { ...m, role } : m)));
+    } catch (error) {
+      showError(`Could not change the role of ${emails[member.user_id] ?? 'the team member'}.`, error, () => handleRoleChange(member, role));
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!removeCandidate) return;
+    const member = removeCandidate;
+    setRemoveCandidate(null);
+    await removeMember(member);
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    try {
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      setMembers(current => current.filter(m => m.id !== member.id));
+    } catch (error) {
+      showError(`Could not remove ${emails[member.user_id] ?? 'the team member'}.`, error, () => removeMember(member));
+    }
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            Team
+          </h2>
+          <p className="mt-1 text-sm text-gray-500">
+            People who work in {workspaceName}, and what they may do.
+          </p>
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Workspace</h3>
+          <form onSubmit={handleRename} className="mt-5 flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[16rem]">
+              <label htmlFor="workspace-name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                type="text"
+                id="workspace-name"
+                required
+                value={nameDraft ?? workspaceName ?? ''}
+                onChange={(e) => setNameDraft(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={nameDraft === null || nameDraft.trim() === workspaceName}
+              className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              Rename
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Invite Someone</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            They get an email with a link to join, whether or not they already have an account.
+          </p>
+          <form onSubmit={handleInvite} className="mt-5 flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-[16rem]">
+              <label htmlFor="member-email" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                type="email"
+                id="member-email"
+                required
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+            <div>
+              <label htmlFor="member-role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                id="member-role"
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value as InvitationRole })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {INVITATION_ROLES.map(role => (
+                  <option key={role} value={role}>{roleLabels[role]}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={isInviting}
+              className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {isInviting ? 'Sending...' : 'Send Invitation'}
+            </button>
+          </form>
+          {formError && (
+            <div className="mt-2 text-red-600 text-sm">{formError}</div>
+          )}
+          <dl className="mt-4 grid grid-cols-1 gap-2 text-sm sm:grid-cols-2">
+            {ROLES.map(role => (
+              <div key={role}>
+                <dt className="inline font-medium text-gray-700">{roleLabels[role]}: </dt>
+                <dd className="inline text-gray-500">{roleDescriptions[role]}</dd>
+              </div>
+            ))}
+          </dl>
+
+          {invitations.length > 0 && (
+            <div className="mt-6 overflow-x-auto">
+              <h4 className="text-sm font-medium text-gray-900">Pending Invitations</h4>
+              <table className="mt-2 min-w-full divide-y divide-gray-300">
+                <tbody className="divide-y divide-gray-200">
+                  {invitations.map(invitation => (
+                    <tr key={invitation.id}>
+                      <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-900">{invitation.email}</td>
+                      <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">{roleLabels[invitation.role]}</td>
+                      <td className="whitespace-nowrap px-3 py-3 text-sm text-gray-500">
+                        {new Date(invitation.expires_at) < new Date()
+                          ? 'Expired'
+                          : `Expires ${invitation.expires_at.slice(0, 10)}`}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-3 text-sm text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invitation)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Revoke
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <h3 className="text-lg font-medium leading-6 text-gray-900 mb-4">Members</h3>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Email</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Role</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {members.map(member => (
+                  <tr key={member.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">
+                      {emails[member.user_id] ?? member.user_id}
+                      {member.user_id === user?.id && <span className="ml-2 text-gray-500">(you)</span>}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                      {member.role === 'OWNER' ? (
+                        roleLabels.OWNER
+                      ) : (
+                        <select
+                          aria-label="Role"
+                          value={member.role}
+                          onChange={(e) => handleRoleChange(member, e.target.value as InvitationRole)}
+                          className="block rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          {INVITATION_ROLES.map(role => (
+                            <option key={role} value={role}>{roleLabels[role]}</option>
+                          ))}
+                        </select>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                      {member.role !== 'OWNER' && (
+                        <button
+                          type="button"
+                          onClick={() => setRemoveCandidate(member)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={removeCandidate !== null}
+        title="Remove team member"
+        message={removeCandidate
+          ? `Remove ${emails[removeCandidate.user_id] ?? 'this person'} from ${workspaceName}? Entries they recorded stay.`
+          : ''}
+        confirmLabel="Remove"
+        onConfirm={handleRemove}
+        onCancel={() => setRemoveCandidate(null)}
+      />
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
 import { useAuth } from '@/contexts/AuthContext';
 import Link from 'next/link';
+import { fetchInvitation, roleWithArticle, type InvitationDetails } from '@/utils/invitations';
 
 export default function SignUpPage() {
   const [email, setEmail] = useState('');
@@ -11,7 +14,25 @@ export default function SignUpPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
   const { signUp } = useAuth();
+  // Set when arriving from an invitation link; the new account joins that
+  // workspace
+  const inviteToken = useSearchParams().get('invite') ?? undefined;
+
+  const supabase = getSupabaseBrowserClient();
+
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    fetchInvitation(supabase, inviteToken)
+      .then((details) => {
+        if (details?.status !== 'PENDING') return;
+        setInvitation(details);
+        setEmail(details.email);
+      })
+      .catch((error) => console.error('Error fetching invitation:', error));
+  }, [supabase, inviteToken]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,7 +47,7 @@ export default function SignUpPage() {
     setLoading(true);
 
     try {
-      await signUp(email, password);
+      await signUp(email, password, invitation ? inviteToken : undefined);
       setSuccess(true);
       // Don't redirect immediately to allow user to see the success message
     } catch {
@@ -43,6 +64,12 @@ export default function SignUpPage() {
           <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
             Create your account
           </h2>
+          {invitation && (
+            <p className="mt-2 text-center text-sm text-gray-600">
+              You&apos;ll join {invitation.workspace_name} as {roleWithArticle(invitation.role)}.
+              The invitation was sent to {invitation.email}, so sign up with that address.
+            </p>
+          )}
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
           <div className="rounded-md shadow-sm -space-y-px">
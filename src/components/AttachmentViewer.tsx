@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import type { ExpenseAttachment } from '@/types/database.types';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { attachmentUrl, formatFileSize, isImageAttachment } from '@/utils/attachments';
+
+interface AttachmentViewerProps {
+  attachments: ExpenseAttachment[];
+  initialIndex: number;
+  // Left out for people who may only look at receipts
+  onDelete?: (attachment: ExpenseAttachment) => void;
+  onClose: () => void;
+}
+
+// Full-size view of one attachment at a time, with arrows to step through the
+// rest of the expense's files
+export function AttachmentViewer({ attachments, initialIndex, onDelete, onClose }: AttachmentViewerProps) {
+  const [index, setIndex] = useState(initialIndex);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const current = attachments[Math.min(index, attachments.length - 1)];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') setIndex(i => Math.max(0, i - 1));
+      if (e.key === 'ArrowRight') setIndex(i => Math.min(attachments.length - 1, i + 1));
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [attachments.length, onClose]);
+
+  if (!current) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-900/80 px-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={current.file_name}
+        className="flex max-h-full w-full max-w-4xl flex-col rounded-lg bg-white shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium text-gray-900">{current.file_name}</p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(current.size)}
+              {attachments.length > 1 && ` · ${index + 1} of ${attachments.length}`}
+            </p>
+          </div>
+          <div className="ml-4 flex items-center space-x-3 text-sm">
+            <a
+              href={attachmentUrl(current)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 hover:text-indigo-900"
+            >
+              Open
+            </a>
+            {onDelete && (
+              <button type="button" onClick={() => setConfirmDelete(true)} className="text-red-600 hover:text-red-900">
+                Delete
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="text-gray-600 hover:text-gray-900">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="relative flex min-h-[60vh] items-center justify-center bg-gray-100">
+          {isImageAttachment(current) ? (
+            <Image
+              src={attachmentUrl(current)}
+              alt={current.file_name}
+              fill
+              unoptimized
+              className="object-contain"
+            />
+          ) : (
+            <iframe src={attachmentUrl(current)} title={current.file_name} className="h-[70vh] w-full" />
+          )}
+
+          {index > 0 && (
+            <button
+              type="button"
+              aria-label="Previous attachment"
+              onClick={() => setIndex(index - 1)}
+              className="absolute left-2 rounded-full bg-white/90 px-3 py-1 text-lg text-gray-700 shadow hover:bg-white"
+            >
+              ‹
+            </button>
+          )}
+          {index < attachments.length - 1 && (
+            <button
+              type="button"
+              aria-label="Next attachment"
+              onClick={() => setIndex(index + 1)}
+              className="absolute right-2 rounded-full bg-white/90 px-3 py-1 text-lg text-gray-700 shadow hover:bg-white"
+            >
+              ›
+            </button>
+          )}
+        </div>
+
+        <ConfirmDialog
+          open={confirmDelete}
+          title="Delete attachment"
+          message={`Delete ${current.file_name}? This cannot be undone.`}
+          onConfirm={() => {
+            setConfirmDelete(false);
+            onDelete?.(current);
+            if (attachments.length === 1) onClose();
+            else setIndex(i => Math.max(0, Math.min(i, attachments.length - 2)));
+          }}
+          onCancel={() => setConfirmDelete(false)}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import type { AuditEntry, LedgerTable } from '@/types/database.types';
+import { auditChanges, auditFieldLabel } from '@/utils/audit';
+
+interface AuditChangesProps {
+  entry: AuditEntry;
+  // From useAuditValueFormatter, shared by every entry on the page
+  formatValue: (table: LedgerTable, field: string, value: unknown) => string;
+}
+
+// What one audit entry did: each changed field with its old and new value,
+// or the values the row was created or deleted with
+export function AuditChanges({ entry, formatValue }: AuditChangesProps) {
+  const changes = auditChanges(entry);
+
+  if (changes.length === 0) {
+    return <span className="text-gray-400">No visible changes</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5">
+      {changes.map(({ field, before, after }) => (
+        <li key={field}>
+          <span className="font-medium text-gray-700">{auditFieldLabel(field)}: </span>
+          {entry.action === 'UPDATE' ? (
+            <>
+              <span className="text-red-600 line-through">{formatValue(entry.table_name, field, before)}</span>
+              {' → '}
+              <span className="text-green-700">{formatValue(entry.table_name, field, after)}</span>
+            </>
+          ) : (
+            <span>{formatValue(entry.table_name, field, entry.action === 'DELETE' ? before : after)}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import Link from 'next/link';
+import { formatCurrency } from '@/utils/formatters';
+import { budgetPeriodLabels, type BudgetStatus } from '@/utils/budgets';
+
+interface BudgetPanelProps {
+  statuses: BudgetStatus[];
+  getCategoryName: (code: string) => string;
+  getPropertyName: (id: string) => string;
+}
+
+// Bar colour by how much of the budget is used
+const usageColor = (usage: number) => {
+  if (usage > 1) return 'bg-red-500';
+  if (usage >= 0.8) return 'bg-amber-400';
+  return 'bg-emerald-400';
+};
+
+// Budget against actual spending for the current month, quarter or year
+export function BudgetPanel({ statuses, getCategoryName, getPropertyName }: BudgetPanelProps) {
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Budget vs Actual</h3>
+          <Link href="/settings/budgets" className="text-sm text-indigo-600 hover:text-indigo-900">
+            Manage budgets
+          </Link>
+        </div>
+        {statuses.length === 0 ? (
+          <p className="text-sm text-gray-500">No budgets set.</p>
+        ) : (
+          <ul className="space-y-4">
+            {statuses.map(({ budget, startDate, endDate, spent, remaining, usage }) => (
+              <li key={budget.id}>
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-gray-900">
+                    {getCategoryName(budget.category)}
+                    <span className="ml-2 font-normal text-gray-500">
+                      {budgetPeriodLabels[budget.period]}, {budget.property_id ? getPropertyName(budget.property_id) : 'All Properties'}
+                    </span>
+                  </span>
+                  <span className={remaining < 0 ? 'text-red-700' : 'text-gray-500'}>
+                    Rs. {formatCurrency(spent)} of Rs. {formatCurrency(budget.amount)}
+                  </span>
+                </div>
+                <div className="mt-1 h-2 w-full rounded-full bg-gray-200" title={`${startDate} to ${endDate}`}>
+                  <div
+                    className={`h-2 rounded-full ${usageColor(usage)}`}
+                    style={{ width: `${Math.min(usage, 1) * 100}%` }}
+                  />
+                </div>
+                <p className={`mt-1 text-xs ${remaining < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                  {remaining < 0
+                    ? `Over by Rs. ${formatCurrency(-remaining)}`
+                    : `Rs. ${formatCurrency(remaining)} left until ${endDate}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { formatCurrency } from '@/utils/formatters';
+
+interface CategoryDonutProps {
+  title: string;
+  data: {
+    category: string;
+    amount: number;
+  }[];
+  // Display name and colour of each category code, where known
+  categories?: { code: string; name: string; color: string }[];
+}
+
+const COLORS = ['#6366F1', '#34D399', '#F87171', '#FBBF24', '#60A5FA', '#A78BFA', '#F472B6', '#9CA3AF'];
+const RADIUS = 60;
+const STROKE = 24;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// Share of each category in the total, drawn as dashed circle segments
+export function CategoryDonut({ title, data, categories = [] }: CategoryDonutProps) {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const total = data.reduce((sum, d) => sum + d.amount, 0);
+  const slices = [...data].sort((a, b) => b.amount - a.amount);
+  const active = slices.find(slice => slice.category === hovered);
+  const colorFor = (code: string, index: number) =>
+    categories.find(category => category.code === code)?.color ?? COLORS[index % COLORS.length];
+  const nameFor = (code: string) =>
+    categories.find(category => category.code === code)?.name ?? code;
+
+  let offset = 0;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+      {total === 0 ? (
+        <p className="text-sm text-gray-500">No data for this period.</p>
+      ) : (
+        <div className="flex items-center space-x-6">
+          <svg viewBox="0 0 160 160" className="h-40 w-40 flex-shrink-0 -rotate-90" role="img" aria-label={title}>
+            {slices.map((slice, i) => {
+              const length = (slice.amount / total) * CIRCUMFERENCE;
+              const circle = (
+                <circle
+                  key={slice.category}
+                  cx={80}
+                  cy={80}
+                  r={RADIUS}
+                  fill="none"
+                  stroke={colorFor(slice.category, i)}
+                  strokeWidth={hovered === slice.category ? STROKE + 4 : STROKE}
+                  strokeDasharray={`${length} ${CIRCUMFERENCE - length}`}
+                  strokeDashoffset={-offset}
+                  onMouseEnter={() => setHovered(slice.category)}
+                  onMouseLeave={() => setHovered(null)}
+                />
+              );
+              offset += length;
+              return circle;
+            })}
+          </svg>
+          <ul className="space-y-1 text-sm">
+            {slices.map((slice, i) => (
+              <li
+                key={slice.category}
+                onMouseEnter={() => setHovered(slice.category)}
+                onMouseLeave={() => setHovered(null)}
+                className={`flex items-center ${hovered === slice.category ? 'font-medium text-gray-900' : 'text-gray-600'}`}
+              >
+                <span className="mr-2 h-3 w-3 rounded-sm" style={{ backgroundColor: colorFor(slice.category, i) }} />
+                {nameFor(slice.category)}: {((slice.amount / total) * 100).toFixed(1)}%
+              </li>
+            ))}
+            {active && (
+              <li className="pt-1 text-xs text-gray-500">Rs. {formatCurrency(active.amount)}</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
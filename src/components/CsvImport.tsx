@@ -0,0 +1,288 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { LedgerTable } from '@/types/database.types';
+import type { LedgerInsert, LedgerRepository, LedgerRow } from '@/utils/ledgerRepository';
+import { parseCsv } from '@/utils/csv';
+import {
+  buildImportPreview,
+  guessMapping,
+  headerSignature,
+  importFields,
+  type ColumnMapping,
+  type ImportedEntry
+} from '@/utils/csvImport';
+import { formatCurrency } from '@/utils/formatters';
+import { defaultLedgerFilters } from '@/utils/ledgerFilters';
+
+interface CsvImportProps<L extends LedgerTable> {
+  repository: LedgerRepository<L>;
+  workspaceId: string;
+  userId: string;
+  propertyId: string;
+  categoryOptions: { value: string; label: string }[];
+  defaultCategory: string;
+  onImported: (rows: LedgerRow<L>[]) => void;
+  onClose: () => void;
+}
+
+const fieldLabels: Record<keyof ColumnMapping, string> = {
+  date: 'Date',
+  amount: 'Amount',
+  description: 'Description',
+  category: 'Category'
+};
+
+const emptyMapping: ColumnMapping = { date: '', amount: '', description: '', category: '' };
+
+export function CsvImport<L extends LedgerTable>({
+  repository,
+  workspaceId,
+  userId,
+  propertyId,
+  categoryOptions,
+  defaultCategory,
+  onImported,
+  onClose
+}: CsvImportProps<L>) {
+  const { ledger } = repository;
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [usingSavedMapping, setUsingSavedMapping] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [existingEntries, setExistingEntries] = useState<Pick<ImportedEntry, 'date' | 'amount' | 'description'>[]>([]);
+  // Without the existing entries duplicates cannot be found, so nothing is imported
+  const [existingLoaded, setExistingLoaded] = useState(false);
+  const [existingError, setExistingError] = useState('');
+
+  const supabase = getSupabaseBrowserClient();
+
+  const preview = useMemo(() => buildImportPreview(headers, rows, mapping, {
+    categories: categoryOptions.map(option => option.value),
+    defaultCategory,
+    existing: existingEntries
+  }), [headers, rows, mapping, categoryOptions, defaultCategory, existingEntries]);
+
+  const importable = preview.filter(row => row.entry && !row.duplicate);
+  const duplicateCount = preview.filter(row => row.duplicate).length;
+  const errorCount = preview.filter(row => row.errors.length > 0).length;
+
+  // Everything already recorded for the property, not just the rows on
+  // screen, counts when looking for duplicates
+  const loadExistingEntries = async () => {
+    setExistingLoaded(false);
+    setExistingError('');
+
+    try {
+      setExistingEntries(await repository.listAll({ propertyId, filters: defaultLedgerFilters }));
+      setExistingLoaded(true);
+    } catch (error) {
+      console.error('Error loading existing entries:', error);
+      setExistingError('Could not load the entries already recorded, so duplicates cannot be skipped. Nothing can be imported until they load.');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError('');
+    if (!file) return;
+
+    const [headerRow = [], ...dataRows] = parseCsv(await file.text());
+    const fileHeaders = headerRow.map(header => header.trim());
+    setHeaders(fileHeaders);
+    setRows(dataRows);
+
+    await loadExistingEntries();
+
+    try {
+      const { data, error } = await supabase
+        .from('import_mappings')
+        .select('mapping')
+        .eq('ledger', ledger)
+        .eq('header_signature', headerSignature(fileHeaders))
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        setMapping({ ...emptyMapping, ...data.mapping });
+        setUsingSavedMapping(true);
+        return;
+      }
+    } catch (error) {
+      console.error('Error loading saved import mapping:', error);
+    }
+
+    setMapping(guessMapping(fileHeaders));
+    setUsingSavedMapping(false);
+  };
+
+  const handleImport = async () => {
+    if (isImporting || !existingLoaded || importable.length === 0) return;
+    setIsImporting(true);
+    setError('');
+
+    try {
+      const created = await repository.create(importable.map(row => ({
+        ...row.entry,
+        workspace_id: workspaceId,
+        user_id: userId,
+        property_id: propertyId
+      }) as LedgerInsert<L>));
+
+      // Remember the mapping for the next file with the same columns
+      const { error: mappingError } = await supabase
+        .from('import_mappings')
+        .upsert(
+          {
+            workspace_id: workspaceId,
+            user_id: userId,
+            ledger,
+            header_signature: headerSignature(headers),
+            mapping
+          },
+          { onConflict: 'workspace_id,ledger,header_signature' }
+        );
+
+      if (mappingError) {
+        console.error('Error saving import mapping:', mappingError);
+      }
+
+      onImported(created);
+    } catch (error) {
+      console.error('Error importing entries:', error);
+      setError('Failed to import entries. Nothing was saved.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Import from CSV</h3>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-sm text-gray-600 hover:text-gray-900"
+          >
+            Close
+          </button>
+        </div>
+
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-700 file:mr-4 file:rounded-md file:border-0 file:bg-indigo-50 file:px-3 file:py-2 file:text-sm file:font-medium file:text-indigo-700 hover:file:bg-indigo-100"
+        />
+
+        {headers.length > 0 && (
+          <>
+            {usingSavedMapping && (
+              <p className="text-sm text-gray-500">Using the column mapping saved for this file layout.</p>
+            )}
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              {importFields.map(field => (
+                <div key={field}>
+                  <label htmlFor={`mapping-${field}`} className="block text-sm font-medium text-gray-700">
+                    {fieldLabels[field]}
+                  </label>
+                  <select
+                    id={`mapping-${field}`}
+                    value={mapping[field]}
+                    onChange={(e) => {
+                      setMapping({ ...mapping, [field]: e.target.value });
+                      setUsingSavedMapping(false);
+                    }}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    <option value="">
+                      {field === 'category' ? `Use ${defaultCategory}` : 'Not mapped'}
+                    </option>
+                    {headers.map(header => (
+                      <option key={header} value={header}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-gray-700">
+              {importable.length} to import, {duplicateCount} duplicates skipped, {errorCount} with errors
+            </p>
+
+            <div className="overflow-x-auto max-h-96">
+              <table className="min-w-full divide-y divide-gray-300">
+                <thead>
+                  <tr>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Line</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Date</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Amount</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Description</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.map(row => (
+                    <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicate ? 'bg-gray-50' : ''}>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500">{row.line}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500">{row.entry?.date}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500">
+                        {row.entry && `Rs. ${formatCurrency(row.entry.amount)}`}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-500 truncate max-w-xs">{row.entry?.description}</td>
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-gray-500">{row.entry?.category}</td>
+                      <td className="px-3 py-2 text-sm">
+                        {row.errors.length > 0 ? (
+                          <span className="text-red-600">{row.errors.join('; ')}</span>
+                        ) : row.duplicate ? (
+                          <span className="text-gray-500">Duplicate, skipped</span>
+                        ) : (
+                          <span className="text-green-600">Ready</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {existingError && (
+              <div className="flex items-center justify-between text-red-600 text-sm">
+                <span>{existingError}</span>
+                <button
+                  type="button"
+                  onClick={loadExistingEntries}
+                  className="ml-3 font-medium underline hover:text-red-800"
+                >
+                  Retry
+                </button>
+              </div>
+            )}
+
+            {error && (
+              <div className="text-red-600 text-sm">{error}</div>
+            )}
+
+            <div className="flex justify-end">
+              <button
+                type="button"
+                onClick={handleImport}
+                disabled={isImporting || !existingLoaded || importable.length === 0}
+                className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isImporting ? 'Importing...' : `Import ${importable.length} ${importable.length === 1 ? 'entry' : 'entries'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
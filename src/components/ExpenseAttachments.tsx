@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import type { ExpenseAttachment } from '@/types/database.types';
+import { AttachmentViewer } from '@/components/AttachmentViewer';
+import { ACCEPTED_ATTACHMENT_TYPES, attachmentUrl, isImageAttachment } from '@/utils/attachments';
+
+interface ExpenseAttachmentsProps {
+  expenseId: string;
+  attachments: ExpenseAttachment[];
+  onUpload?: (files: File[]) => Promise<string | null>;
+  onDelete?: (attachment: ExpenseAttachment) => void;
+}
+
+// Thumbnails of an expense's receipts with a button to attach more. Clicking
+// a thumbnail opens the viewer. Without onUpload or onDelete the receipts are
+// view only.
+export function ExpenseAttachments({ expenseId, attachments, onUpload, onDelete }: ExpenseAttachmentsProps) {
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState('');
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0 || !onUpload) return;
+
+    setIsUploading(true);
+    setUploadError((await onUpload(files)) ?? '');
+    setIsUploading(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-1">
+        {attachments.map((attachment, i) => (
+          <button
+            key={attachment.id}
+            type="button"
+            title={attachment.file_name}
+            onClick={() => setViewerIndex(i)}
+            className="h-8 w-8 flex-shrink-0 overflow-hidden rounded border border-gray-200 bg-gray-50 hover:ring-2 hover:ring-indigo-500"
+          >
+            {isImageAttachment(attachment) ? (
+              <Image
+                src={attachmentUrl(attachment)}
+                alt={attachment.file_name}
+                width={32}
+                height={32}
+                unoptimized
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <span className="text-[10px] font-semibold text-red-600">PDF</span>
+            )}
+          </button>
+        ))}
+        {onUpload && (
+          <>
+            <label
+              htmlFor={`attach-${expenseId}`}
+              className={`cursor-pointer text-indigo-600 hover:text-indigo-900 ${attachments.length > 0 ? 'pl-1' : ''}`}
+            >
+              {isUploading ? 'Uploading...' : 'Attach'}
+            </label>
+            <input
+              id={`attach-${expenseId}`}
+              type="file"
+              multiple
+              accept={ACCEPTED_ATTACHMENT_TYPES.join(',')}
+              disabled={isUploading}
+              onChange={handleFiles}
+              className="sr-only"
+            />
+          </>
+        )}
+      </div>
+      {uploadError && (
+        <div className="mt-1 text-xs text-red-600">{uploadError}</div>
+      )}
+
+      {viewerIndex !== null && (
+        <AttachmentViewer
+          attachments={attachments}
+          initialIndex={viewerIndex}
+          onDelete={onDelete}
+          onClose={() => setViewerIndex(null)}
+        />
+      )}
+    </div>
+  );
+}
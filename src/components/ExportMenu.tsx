@@ -0,0 +1,61 @@
+'use client';
+
+import { useToast } from '@/contexts/ToastContext';
+import { exportCsv, exportXlsx, printReport, type Sheet } from '@/utils/export';
+
+interface ExportMenuProps {
+  filename: string;
+  title: string;
+  // Built when an export is requested so it reflects the current view
+  getSheets: () => Sheet[] | Promise<Sheet[]>;
+}
+
+export function ExportMenu({ filename, title, getSheets }: ExportMenuProps) {
+  const { showError } = useToast();
+
+  const handleExport = async (format: 'csv' | 'xlsx' | 'pdf') => {
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    try {
+      const sheets = await getSheets();
+      if (format === 'csv') {
+        exportCsv(filename, sheets);
+      } else if (format === 'xlsx') {
+        exportXlsx(filename, sheets);
+      } else {
+        printReport(title, sheets, printWindow);
+      }
+    } catch (error) {
+      printWindow?.close();
+      showError('Could not export the data.', error, () => handleExport(format));
+    }
+  };
+
+  return (
+    <span className="isolate inline-flex rounded-md shadow-sm">
+      <span className="inline-flex items-center rounded-l-md bg-gray-50 px-3 py-2 text-sm font-medium text-gray-500 ring-1 ring-inset ring-gray-300">
+        Export
+      </span>
+      <button
+        type="button"
+        onClick={() => handleExport('csv')}
+        className="relative -ml-px inline-flex items-center bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+      >
+        CSV
+      </button>
+      <button
+        type="button"
+        onClick={() => handleExport('xlsx')}
+        className="relative -ml-px inline-flex items-center bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+      >
+        Excel
+      </button>
+      <button
+        type="button"
+        onClick={() => handleExport('pdf')}
+        className="relative -ml-px inline-flex items-center rounded-r-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+      >
+        PDF
+      </button>
+    </span>
+  );
+}
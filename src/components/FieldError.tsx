@@ -0,0 +1,10 @@
+// The message under a form field that failed validation
+export function FieldError({ message, compact = false }: { message?: string; compact?: boolean }) {
+  if (!message) return null;
+
+  return (
+    <div role="alert" className={`mt-1 text-red-600 ${compact ? 'text-xs' : 'text-sm'}`}>
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from 'react';
+import { emptyGuestForm, type GuestFormValues } from '@/utils/guests';
+
+interface GuestFormProps {
+  initialValues?: GuestFormValues;
+  submitLabel: string;
+  // Resolves once saved; the form clears itself unless editing
+  onSubmit: (values: GuestFormValues) => Promise<void>;
+  onCancel?: () => void;
+}
+
+const inputClassName = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm';
+
+export function GuestForm({ initialValues, submitLabel, onSubmit, onCancel }: GuestFormProps) {
+  const [formData, setFormData] = useState(initialValues ?? emptyGuestForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSaving) return;
+    setIsSaving(true);
+
+    try {
+      await onSubmit(formData);
+      if (!initialValues) {
+        setFormData(emptyGuestForm);
+      }
+    } catch (error) {
+      console.error('Error saving guest:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="guest-name" className="block text-sm font-medium text-gray-700">
+            Name
+          </label>
+          <input
+            type="text"
+            id="guest-name"
+            required
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="guest-company" className="block text-sm font-medium text-gray-700">
+            Company
+          </label>
+          <input
+            type="text"
+            id="guest-company"
+            value={formData.company}
+            onChange={(e) => setFormData({ ...formData, company: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="guest-email" className="block text-sm font-medium text-gray-700">
+            Email
+          </label>
+          <input
+            type="email"
+            id="guest-email"
+            value={formData.email}
+            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="guest-phone" className="block text-sm font-medium text-gray-700">
+            Phone
+          </label>
+          <input
+            type="tel"
+            id="guest-phone"
+            value={formData.phone}
+            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="sm:col-span-2">
+          <label htmlFor="guest-notes" className="block text-sm font-medium text-gray-700">
+            Notes
+          </label>
+          <textarea
+            id="guest-notes"
+            rows={3}
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="inline-flex justify-center rounded-md border border-gray-300 bg-white py-2 px-4 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
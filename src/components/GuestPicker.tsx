@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import type { Guest } from '@/types/database.types';
+import { guestLabel, searchGuests } from '@/utils/guests';
+
+const MAX_MATCHES = 8;
+
+interface GuestPickerProps {
+  id: string;
+  guests: Guest[];
+  value: string | null;
+  onChange: (guestId: string | null) => void;
+  // Saves a guest typed in that is not in the directory yet
+  onCreate: (name: string) => Promise<Guest>;
+}
+
+// Search box over the guest directory. Typing a name that is not found
+// offers to add it as a new guest.
+export function GuestPicker({ id, guests, value, onChange, onCreate }: GuestPickerProps) {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const selected = guests.find(guest => guest.id === value);
+  const matches = searchGuests(guests, query).slice(0, MAX_MATCHES);
+  const canCreate = query.trim() !== '' &&
+    !guests.some(guest => guest.name.toLowerCase() === query.trim().toLowerCase());
+
+  const choose = (guestId: string) => {
+    onChange(guestId);
+    setQuery('');
+    setIsOpen(false);
+  };
+
+  const handleCreate = async () => {
+    if (isCreating) return;
+    setIsCreating(true);
+
+    try {
+      const guest = await onCreate(query.trim());
+      choose(guest.id);
+    } catch (error) {
+      console.error('Error adding guest:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  if (selected) {
+    return (
+      <div className="mt-1 flex items-center justify-between rounded-md border border-gray-300 bg-gray-50 px-3 py-2 text-sm">
+        <span className="text-gray-900">{guestLabel(selected)}</span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          className="text-indigo-600 hover:text-indigo-900"
+        >
+          Change
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative mt-1">
+      <input
+        type="search"
+        id={id}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls={`${id}-options`}
+        autoComplete="off"
+        placeholder="Search by name, company, email or phone"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        // Delay so a click on an option lands before the list closes
+        onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+        className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+      />
+      {isOpen && (matches.length > 0 || canCreate) && (
+        <ul
+          id={`${id}-options`}
+          role="listbox"
+          className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md bg-white py-1 text-sm shadow-lg ring-1 ring-black ring-opacity-5"
+        >
+          {matches.map(guest => (
+            <li key={guest.id} role="option" aria-selected={false}>
+              <button
+                type="button"
+                onClick={() => choose(guest.id)}
+                className="block w-full px-3 py-2 text-left hover:bg-gray-100"
+              >
+                <span className="text-gray-900">{guestLabel(guest)}</span>
+                {(guest.email || guest.phone) && (
+                  <span className="ml-2 text-xs text-gray-500">{guest.email || guest.phone}</span>
+                )}
+              </button>
+            </li>
+          ))}
+          {canCreate && (
+            <li role="option" aria-selected={false}>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="block w-full px-3 py-2 text-left text-indigo-600 hover:bg-gray-100 disabled:opacity-50"
+              >
+                {isCreating ? 'Adding...' : `Add "${query.trim()}" as a new guest`}
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { hasActiveFilters, type LedgerFilters } from '@/utils/ledgerFilters';
+
+interface LedgerFilterBarProps {
+  filters: LedgerFilters;
+  categoryOptions: { value: string; label: string }[];
+  onChange: (changes: Partial<LedgerFilters>) => void;
+  onClear: () => void;
+}
+
+// Typed fields wait for a pause before updating the URL, so each keystroke
+// does not start a new query
+const TYPING_DELAY_MS = 400;
+
+type TypedFilters = Pick<LedgerFilters, 'search' | 'minAmount' | 'maxAmount'>;
+
+// The URL holds trimmed values, so trailing spaces do not count as a change
+const sameTyped = (a: TypedFilters, b: TypedFilters) =>
+  a.search.trim() === b.search.trim() &&
+  a.minAmount.trim() === b.minAmount.trim() &&
+  a.maxAmount.trim() === b.maxAmount.trim();
+
+export function LedgerFilterBar({ filters, categoryOptions, onChange, onClear }: LedgerFilterBarProps) {
+  const { search, minAmount, maxAmount } = filters;
+  const [typed, setTyped] = useState<TypedFilters>({ search, minAmount, maxAmount });
+  const sentRef = useRef<TypedFilters | null>(null);
+
+  // Follow the URL when it changes from elsewhere, such as the back button,
+  // but not when it catches up with what is being typed
+  useEffect(() => {
+    const current = { search, minAmount, maxAmount };
+    if (sentRef.current && sameTyped(sentRef.current, current)) {
+      sentRef.current = null;
+      return;
+    }
+    setTyped(current);
+  }, [search, minAmount, maxAmount]);
+
+  useEffect(() => {
+    if (sameTyped(typed, { search, minAmount, maxAmount })) return;
+    const timer = setTimeout(() => {
+      sentRef.current = typed;
+      onChange(typed);
+    }, TYPING_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [typed, search, minAmount, maxAmount, onChange]);
+
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-6 mb-4">
+      <div className="col-span-2">
+        <label htmlFor="filter-search" className="block text-xs font-medium text-gray-500">
+          Search descriptions
+        </label>
+        <input
+          type="search"
+          id="filter-search"
+          value={typed.search}
+          onChange={(e) => setTyped({ ...typed, search: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+      </div>
+      <div>
+        <label htmlFor="filter-category" className="block text-xs font-medium text-gray-500">
+          Category
+        </label>
+        <select
+          id="filter-category"
+          value={filters.category}
+          onChange={(e) => onChange({ category: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <option value="">All</option>
+          {categoryOptions.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="filter-min" className="block text-xs font-medium text-gray-500">
+          Amount (Rs.)
+        </label>
+        <div className="mt-1 flex">
+          <input
+            type="number"
+            id="filter-min"
+            aria-label="Minimum amount"
+            placeholder="Min"
+            min="0"
+            step="0.01"
+            value={typed.minAmount}
+            onChange={(e) => setTyped({ ...typed, minAmount: e.target.value })}
+            className="block w-full rounded-l-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          <input
+            type="number"
+            aria-label="Maximum amount"
+            placeholder="Max"
+            min="0"
+            step="0.01"
+            value={typed.maxAmount}
+            onChange={(e) => setTyped({ ...typed, maxAmount: e.target.value })}
+            className="-ml-px block w-full rounded-r-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="filter-from" className="block text-xs font-medium text-gray-500">
+          From
+        </label>
+        <input
+          type="date"
+          id="filter-from"
+          value={filters.startDate}
+          max={filters.endDate || undefined}
+          onChange={(e) => onChange({ startDate: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+      </div>
+      <div>
+        <label htmlFor="filter-to" className="block text-xs font-medium text-gray-500">
+          To
+        </label>
+        <input
+          type="date"
+          id="filter-to"
+          value={filters.endDate}
+          min={filters.startDate || undefined}
+          onChange={(e) => onChange({ endDate: e.target.value })}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+      </div>
+      {hasActiveFilters(filters) && (
+        <div className="col-span-2 sm:col-span-6 text-right">
+          <button
+            type="button"
+            onClick={onClear}
+            className="text-sm text-indigo-600 hover:text-indigo-900"
+          >
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
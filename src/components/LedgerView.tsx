@@ -0,0 +1,876 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, type ReactNode } from 'react';
+import type { LedgerTable } from '@/types/database.types';
+import { formatCurrency } from '@/utils/formatters';
+import { BASE_CURRENCY, CURRENCIES, formatMoney, toBaseAmount } from '@/utils/currency';
+import { today } from '@/utils/dates';
+import { hasPermission, type Permission } from '@/utils/roles';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
+import { useLedgerChanges } from '@/contexts/LedgerChangesContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { FieldError } from '@/components/FieldError';
+import { RecordHistory } from '@/components/RecordHistory';
+import { CsvImport } from '@/components/CsvImport';
+import { ExportMenu } from '@/components/ExportMenu';
+import { LedgerFilterBar } from '@/components/LedgerFilterBar';
+import { Pagination } from '@/components/Pagination';
+import { PendingEntries } from '@/components/PendingEntries';
+import { RecurringSchedules } from '@/components/RecurringSchedules';
+import { SortableHeader } from '@/components/SortableHeader';
+import { TaxFields } from '@/components/TaxFields';
+import { UndoToast } from '@/components/UndoToast';
+import { exportFilename, ledgerSheet } from '@/utils/export';
+import { hasActiveFilters, LEDGER_PAGE_SIZE } from '@/utils/ledgerFilters';
+import {
+  createSupabaseLedgerRepository,
+  type LedgerInsert,
+  type LedgerRepository,
+  type LedgerRow,
+  type LedgerUpdate
+} from '@/utils/ledgerRepository';
+import { isConnectionError } from '@/utils/errors';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { emptyTaxFields, gstFromGross, netAmount, taxColumns } from '@/utils/tax';
+import {
+  hasErrors,
+  serverFieldErrors,
+  validateLedgerEntry,
+  type FieldErrors,
+  type LedgerEntryValues
+} from '@/utils/validation';
+import { useUndoableDelete } from '@/hooks/useUndoableDelete';
+import { useCategories } from '@/hooks/useCategories';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import { useLedgerFilters } from '@/hooks/useLedgerFilters';
+
+export interface LedgerFormValues {
+  property_id: string;
+  date: string;
+  amount: string;
+  currency: string;
+  exchange_rate: string;
+  description: string;
+  category: string;
+}
+
+export interface LedgerEditValues {
+  date: string;
+  amount: string;
+  description: string;
+  category: string;
+}
+
+type ExtraValues = Record<string, string>;
+
+// Fields one ledger has on top of the shared ones, such as the guest and
+// stay on income. Their values are strings kept next to the shared form
+// values, and every part is optional.
+export interface LedgerExtension<L extends LedgerTable, E extends ExtraValues> {
+  emptyValues?: E;
+  valuesFor?: (entry: LedgerRow<L>) => E;
+  // Columns written with a new entry or an edit
+  insertColumns?: (values: LedgerFormValues & E) => Partial<LedgerInsert<L>>;
+  updateColumns?: (values: LedgerEditValues & E) => Partial<LedgerUpdate<L>>;
+  renderFormFields?: (values: LedgerFormValues & E, onChange: (changes: Partial<E>) => void) => ReactNode;
+  renderEditDateFields?: (values: LedgerEditValues & E, onChange: (changes: Partial<E>) => void) => ReactNode;
+  renderEditDescriptionFields?: (values: LedgerEditValues & E, onChange: (changes: Partial<E>) => void) => ReactNode;
+  renderDateDetails?: (entry: LedgerRow<L>) => ReactNode;
+  renderDescriptionDetails?: (entry: LedgerRow<L>) => ReactNode;
+  // An extra column shown after the property, in view and edit rows alike
+  extraColumn?: { header: string; render: (entry: LedgerRow<L>) => ReactNode };
+}
+
+export interface LedgerLabels {
+  title: string;
+  listTitle: string;
+  addTitle: string;
+  addButton: string;
+  // Export sheet and file name
+  sheetName: string;
+  // Lower case, for messages
+  entryName: string;
+  entriesName: string;
+}
+
+interface LedgerViewProps<L extends LedgerTable, E extends ExtraValues> {
+  ledger: L;
+  labels: LedgerLabels;
+  // Who may use the add form; editing always takes editLedgers
+  addPermission?: Permission;
+  // Limits the categories offered when adding
+  allowedCategories?: string[];
+  taxLabels: { gstin: string; tds: string };
+  generateSample: (workspaceId: string, userId: string, propertyId: string, categories: string[]) => LedgerInsert<L>[];
+  extension?: LedgerExtension<L, E>;
+  // Shown under the page heading, such as budget warnings
+  renderNotices?: (getCategoryName: (code: string) => string) => ReactNode;
+  submitDisabled?: boolean;
+  onCreated?: (entry: LedgerRow<L>) => void | Promise<void>;
+  // Called instead of onCreated when the entry was saved on the device to
+  // sync later
+  onQueued?: () => void;
+  // Runs before an entry is removed, once its undo window has passed
+  beforeDelete?: (entry: LedgerRow<L>) => Promise<unknown>;
+  // Defaults to the Supabase tables
+  repository?: LedgerRepository<L>;
+}
+
+const emptyFormValues: LedgerFormValues = {
+  property_id: '',
+  date: '',
+  amount: '',
+  currency: BASE_CURRENCY,
+  exchange_rate: '',
+  description: '',
+  category: ''
+};
+
+// The income and expense pages: add form, recurring schedules, and the
+// filtered, paged history with inline editing
+export function LedgerView<L extends LedgerTable, E extends ExtraValues = Record<never, string>>({
+  ledger,
+  labels,
+  addPermission = 'editLedgers',
+  allowedCategories,
+  taxLabels,
+  generateSample,
+  extension = {},
+  renderNotices,
+  submitDisabled = false,
+  onCreated,
+  onQueued,
+  beforeDelete,
+  repository
+}: LedgerViewProps<L, E>) {
+  const ledgerRepository = useMemo(
+    () => repository ?? createSupabaseLedgerRepository(getSupabaseBrowserClient(), ledger),
+    [repository, ledger]
+  );
+  const [entries, setEntries] = useState<LedgerRow<L>[]>([]);
+  const [entryCount, setEntryCount] = useState(0);
+  const [total, setTotal] = useState(0);
+  const { filters, updateFilters, sortBy, clearFilters } = useLedgerFilters();
+  const { user, workspaceId, role } = useAuth();
+  const { properties, selectedPropertyId, getPropertyName } = useProperty();
+  const { categories, activeCategories, getCategoryName } = useCategories(ledger === 'income' ? 'income' : 'expense');
+  const categoryOptions = useMemo(
+    () => activeCategories
+      .filter(category => !allowedCategories || allowedCategories.includes(category.code))
+      .map(category => ({ value: category.code, label: category.name })),
+    [activeCategories, allowedCategories]
+  );
+  // Archived categories still appear on older entries
+  const filterCategoryOptions = useMemo(
+    () => categories.map(category => ({ value: category.code, label: category.name })),
+    [categories]
+  );
+  const { emptyValues, valuesFor } = extension;
+  const [formData, setFormData] = useState<LedgerFormValues & E>({ ...emptyFormValues, ...emptyValues } as LedgerFormValues & E);
+  const { rateFor } = useExchangeRates();
+  const { pendingEntries, syncCount, queueEntry, retryEntry, discardEntry } = useOfflineQueue();
+  const ledgerChangeCount = useLedgerChanges().changeCounts[ledger];
+  const { showToast, showError } = useToast();
+  const [taxData, setTaxData] = useState(emptyTaxFields);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editData, setEditData] = useState<LedgerEditValues & E>({
+    date: '',
+    amount: '',
+    description: '',
+    category: '',
+    ...emptyValues
+  } as LedgerEditValues & E);
+  const [formErrors, setFormErrors] = useState<FieldErrors<LedgerEntryValues>>({});
+  const [editErrors, setEditErrors] = useState<FieldErrors<LedgerEntryValues>>({});
+  const [showImport, setShowImport] = useState(false);
+  const [deleteCandidate, setDeleteCandidate] = useState<LedgerRow<L> | null>(null);
+  const [historyEntry, setHistoryEntry] = useState<LedgerRow<L> | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    const query = { propertyId: selectedPropertyId, filters };
+    try {
+      const [{ rows, count }, matchingTotal] = await Promise.all([
+        ledgerRepository.list(query),
+        ledgerRepository.summarise(query)
+      ]);
+
+      // Deleting the last entries of the last page leaves it empty
+      if (rows.length === 0 && count > 0 && filters.page > 1) {
+        updateFilters({ page: Math.ceil(count / LEDGER_PAGE_SIZE) });
+        return;
+      }
+
+      setEntries(rows);
+      setEntryCount(count);
+      setTotal(matchingTotal);
+    } catch (error) {
+      showError(`Could not load ${labels.entriesName}.`, error, () => fetchEntries(), `fetch-${ledger}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ledgerRepository, selectedPropertyId, filters, updateFilters, labels.entriesName, ledger, showError]);
+
+  // Entries saved offline show up once they have synced, and changes from
+  // other sessions as they happen
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries, syncCount, ledgerChangeCount]);
+
+  // New entries go to the property selected in the navigation bar. With all
+  // properties shown, the form asks which one.
+  const formPropertyId = selectedPropertyId || formData.property_id || properties[0]?.id || '';
+
+  const formCategory = formData.category || categoryOptions[0]?.value || '';
+
+  // Foreign amounts take the stored rate for their date unless one is typed in
+  const formRate = formData.currency === BASE_CURRENCY
+    ? '1'
+    : formData.exchange_rate || String(rateFor(formData.currency, formData.date || today()) ?? '');
+
+  const resetForm = () => {
+    setFormData({ ...formData, date: '', amount: '', exchange_rate: '', description: '', category: '', ...emptyValues });
+    setTaxData(emptyTaxFields);
+    setFormErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !workspaceId) return;
+
+    // The id is made here so that an entry queued offline, or retried after
+    // a lost reply, is still only saved once
+    const row = {
+      id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: user.id,
+      property_id: formPropertyId,
+      date: formData.date,
+      amount: parseFloat(formData.amount),
+      currency: formData.currency,
+      exchange_rate: parseFloat(formRate),
+      description: formData.description,
+      category: formCategory,
+      ...taxColumns(parseFloat(formData.amount), taxData),
+      ...extension.insertColumns?.(formData)
+    } as LedgerInsert<L> & { id: string };
+
+    const errors = validateLedgerEntry(
+      {
+        date: formData.date,
+        amount: parseFloat(formData.amount),
+        description: formData.description,
+        category: formCategory,
+        exchange_rate: parseFloat(formRate)
+      },
+      { today: today(), categories: categoryOptions.map(option => option.value) }
+    );
+    setFormErrors(errors);
+    if (hasErrors(errors)) return;
+
+    const saveOffline = async () => {
+      await queueEntry(ledger, row);
+      resetForm();
+      showToast({ tone: 'info', message: `Saved on this device. The ${labels.entryName} will be added once you are back online.` });
+      onQueued?.();
+    };
+
+    try {
+      if (!navigator.onLine) {
+        await saveOffline();
+        return;
+      }
+
+      let created: LedgerRow<L>;
+      try {
+        [created] = await ledgerRepository.create([row]);
+      } catch (error) {
+        if (!isConnectionError(error)) throw error;
+        await saveOffline();
+        return;
+      }
+
+      fetchEntries();
+      resetForm();
+      await onCreated?.(created);
+    } catch (error) {
+      const fieldErrors = serverFieldErrors(error);
+      if (fieldErrors) {
+        setFormErrors(fieldErrors);
+      } else {
+        showError(`Could not add the ${labels.entryName}.`, error);
+      }
+    }
+  };
+
+  const handleGenerateSampleData = async () => {
+    if (isGenerating || !user || !workspaceId || !formPropertyId || categoryOptions.length === 0) return;
+    setIsGenerating(true);
+
+    try {
+      await ledgerRepository.create(generateSample(
+        workspaceId,
+        user.id,
+        formPropertyId,
+        categoryOptions.map(option => option.value)
+      ));
+      fetchEntries();
+    } catch (error) {
+      showError('Could not generate sample data.', error, handleGenerateSampleData);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const startEdit = (entry: LedgerRow<L>) => {
+    setEditingId(entry.id);
+    setEditErrors({});
+    setEditData({
+      date: entry.date,
+      amount: String(entry.amount),
+      description: entry.description,
+      category: entry.category,
+      ...valuesFor?.(entry)
+    } as LedgerEditValues & E);
+  };
+
+  const saveEdit = async (id: string, changes: LedgerUpdate<L>) => {
+    try {
+      await ledgerRepository.update(id, changes);
+      fetchEntries();
+      // A retried save should not close a row the user has since opened
+      setEditingId(current => (current === id ? null : current));
+    } catch (error) {
+      const fieldErrors = serverFieldErrors(error);
+      if (fieldErrors) {
+        setEditErrors(fieldErrors);
+      } else {
+        showError(`Could not update the ${labels.entryName}.`, error, () => saveEdit(id, changes));
+      }
+    }
+  };
+
+  const handleUpdate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    const amount = parseFloat(editData.amount);
+    const original = entries.find(entry => entry.id === editingId);
+
+    // Entries keep their category after it is archived
+    const errors = validateLedgerEntry(
+      { date: editData.date, amount, description: editData.description, category: editData.category },
+      {
+        today: today(),
+        categories: [...categoryOptions.map(option => option.value), ...(original ? [original.category] : [])]
+      }
+    );
+    setEditErrors(errors);
+    if (hasErrors(errors)) return;
+
+    await saveEdit(editingId, {
+      date: editData.date,
+      amount,
+      description: editData.description,
+      category: editData.category,
+      // Keep the GST share in line with a changed gross amount
+      ...(original?.gst_rate != null && original.amount !== amount && {
+        gst_amount: gstFromGross(amount, original.gst_rate)
+      }),
+      ...extension.updateColumns?.(editData)
+    } as LedgerUpdate<L>);
+  };
+
+  const commitDelete = useCallback(async (entry: LedgerRow<L>) => {
+    try {
+      await beforeDelete?.(entry);
+      await ledgerRepository.remove(entry.id);
+    } catch (error) {
+      showError(`Could not delete "${entry.description}".`, error, () => commitDelete(entry));
+    } finally {
+      // Refill the page, or bring the row back if the delete failed
+      fetchEntries();
+    }
+  }, [ledgerRepository, beforeDelete, fetchEntries, showError]);
+
+  const { pendingItem: pendingDelete, scheduleDelete, undo } = useUndoableDelete(commitDelete);
+
+  const handleDeleteConfirmed = () => {
+    if (!deleteCandidate) return;
+    const entry = deleteCandidate;
+    setDeleteCandidate(null);
+    scheduleDelete(entry);
+  };
+
+  const canEdit = hasPermission(role, 'editLedgers');
+  const canAdd = hasPermission(role, addPermission);
+  const canViewAudit = hasPermission(role, 'viewAudit');
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  // An entry waiting out its undo window is hidden but not yet deleted
+  const visibleEntries = entries.filter(entry => entry.id !== pendingDelete?.id);
+
+  const getExportSheets = async () => {
+    const rows = await ledgerRepository.listAll({ propertyId: selectedPropertyId, filters });
+    return [ledgerSheet(labels.sheetName, rows, getPropertyName)];
+  };
+
+  const handleFormExtrasChange = (changes: Partial<E>) => setFormData({ ...formData, ...changes });
+  const handleEditExtrasChange = (changes: Partial<E>) => setEditData({ ...editData, ...changes });
+
+  return (
+    <div className="space-y-6">
+      <div className="md:flex md:items-center md:justify-between">
+        <div className="min-w-0 flex-1">
+          <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+            {labels.title}
+          </h2>
+        </div>
+        <div className="mt-4 flex md:ml-4 md:mt-0">
+          <ExportMenu
+            filename={exportFilename(labels.sheetName, selectedPropertyId ? getPropertyName(selectedPropertyId) : 'all-properties')}
+            title={`${labels.sheetName}: ${selectedPropertyId ? getPropertyName(selectedPropertyId) : 'All Properties'}`}
+            getSheets={getExportSheets}
+          />
+          {canEdit && (
+            <>
+              <button
+                type="button"
+                onClick={() => setShowImport(!showImport)}
+                className="ml-3 inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+              >
+                Import CSV
+              </button>
+              <button
+                type="button"
+                onClick={handleGenerateSampleData}
+                disabled={isGenerating || !formPropertyId || categoryOptions.length === 0}
+                className="ml-3 inline-flex items-center rounded-md bg-indigo-600 px-3 py-2 text-sm font-semibold text-white shadow-sm hover:bg-indigo-500 focus-visible:outline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-indigo-600 disabled:opacity-50"
+              >
+                {isGenerating ? 'Generating...' : 'Generate Sample Data'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {renderNotices?.(getCategoryName)}
+
+      {showImport && user && workspaceId && formPropertyId && (
+        <CsvImport
+          repository={ledgerRepository}
+          workspaceId={workspaceId}
+          userId={user.id}
+          propertyId={formPropertyId}
+          categoryOptions={categoryOptions}
+          defaultCategory={categoryOptions[0]?.value ?? ''}
+          onImported={() => {
+            fetchEntries();
+            setShowImport(false);
+          }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {/* Entry Form */}
+      {canAdd && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-4 py-5 sm:p-6">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">{labels.addTitle}</h3>
+            <form onSubmit={handleSubmit} className="mt-5 space-y-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {!selectedPropertyId && (
+                  <div>
+                    <label htmlFor="property" className="block text-sm font-medium text-gray-700">
+                      Property
+                    </label>
+                    <select
+                      id="property"
+                      required
+                      value={formPropertyId}
+                      onChange={(e) => setFormData({ ...formData, property_id: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {properties.map(property => (
+                        <option key={property.id} value={property.id}>
+                          {property.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="date" className="block text-sm font-medium text-gray-700">
+                    Date
+                  </label>
+                  <input
+                    type="date"
+                    id="date"
+                    required
+                    value={formData.date}
+                    onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                    aria-invalid={Boolean(formErrors.date)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.date} />
+                </div>
+                <div>
+                  <label htmlFor="amount" className="block text-sm font-medium text-gray-700">
+                    Amount
+                  </label>
+                  <div className="mt-1 flex">
+                    <select
+                      aria-label="Currency"
+                      value={formData.currency}
+                      onChange={(e) => setFormData({ ...formData, currency: e.target.value, exchange_rate: '' })}
+                      className="block rounded-l-md border-gray-300 bg-gray-50 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    >
+                      {CURRENCIES.map(currency => (
+                        <option key={currency} value={currency}>{currency}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      id="amount"
+                      required
+                      min="0"
+                      step="0.01"
+                      value={formData.amount}
+                      onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                      aria-invalid={Boolean(formErrors.amount)}
+                      className="-ml-px block w-full rounded-r-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                  <FieldError message={formErrors.amount} />
+                </div>
+                {formData.currency !== BASE_CURRENCY && (
+                  <div>
+                    <label htmlFor="exchange-rate" className="block text-sm font-medium text-gray-700">
+                      Exchange Rate (Rs. per {formData.currency})
+                    </label>
+                    <input
+                      type="number"
+                      id="exchange-rate"
+                      required
+                      min="0.000001"
+                      step="0.000001"
+                      value={formRate}
+                      onChange={(e) => setFormData({ ...formData, exchange_rate: e.target.value })}
+                      aria-invalid={Boolean(formErrors.exchange_rate)}
+                      className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                    <FieldError message={formErrors.exchange_rate} />
+                    <p className="mt-1 text-xs text-gray-500">
+                      {formRate === ''
+                        ? 'No stored rate on or before this date; enter the rate used.'
+                        : formData.amount && `Rs. ${formatCurrency(toBaseAmount(parseFloat(formData.amount), parseFloat(formRate)))}`}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    id="description"
+                    required
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    aria-invalid={Boolean(formErrors.description)}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                  <FieldError message={formErrors.description} />
+                </div>
+                <div>
+                  <label htmlFor="category" className="block text-sm font-medium text-gray-700">
+                    Category
+                  </label>
+                  <select
+                    id="category"
+                    required
+                    value={formCategory}
+                    onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    {categoryOptions.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <FieldError message={formErrors.category} />
+                </div>
+                {extension.renderFormFields?.(formData, handleFormExtrasChange)}
+              </div>
+              <TaxFields
+                idPrefix="tax"
+                amount={formData.amount}
+                values={taxData}
+                onChange={setTaxData}
+                gstinLabel={taxLabels.gstin}
+                tdsLabel={taxLabels.tds}
+              />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={submitDisabled}
+                  className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  {labels.addButton}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <PendingEntries
+        entries={pendingEntries.filter(entry => entry.ledger === ledger)}
+        getCategoryName={getCategoryName}
+        getPropertyName={getPropertyName}
+        onRetry={retryEntry}
+        onDiscard={discardEntry}
+      />
+
+      {/* Recurring Entries */}
+      <RecurringSchedules
+        ledger={ledger}
+        propertyId={formPropertyId}
+        categoryOptions={categoryOptions}
+        getCategoryName={getCategoryName}
+      />
+
+      {/* Entry List */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-4 py-5 sm:p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-medium leading-6 text-gray-900">{labels.listTitle}</h3>
+            <p className="text-sm font-medium text-gray-700">Total: Rs. {formatCurrency(total)}</p>
+          </div>
+          <LedgerFilterBar
+            filters={filters}
+            categoryOptions={filterCategoryOptions}
+            onChange={updateFilters}
+            onClear={clearFilters}
+          />
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <SortableHeader label="Date" field="date" filters={filters} onSort={sortBy} />
+                  <SortableHeader label="Amount" field="amount" filters={filters} onSort={sortBy} />
+                  <SortableHeader label="Description" field="description" filters={filters} onSort={sortBy} />
+                  <SortableHeader label="Category" field="category" filters={filters} onSort={sortBy} />
+                  {!selectedPropertyId && (
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Property</th>
+                  )}
+                  {extension.extraColumn && (
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">{extension.extraColumn.header}</th>
+                  )}
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleEntries.map((entry) => (
+                  entry.id === editingId ? (
+                    <tr key={entry.id} className="bg-gray-50">
+                      <td className="px-3 py-2">
+                        <input
+                          type="date"
+                          required
+                          form="edit-entry"
+                          aria-label="Date"
+                          value={editData.date}
+                          onChange={(e) => setEditData({ ...editData, date: e.target.value })}
+                          aria-invalid={Boolean(editErrors.date)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                        <FieldError message={editErrors.date} compact />
+                        {extension.renderEditDateFields?.(editData, handleEditExtrasChange)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="number"
+                          required
+                          min="0"
+                          step="0.01"
+                          form="edit-entry"
+                          aria-label="Amount"
+                          value={editData.amount}
+                          onChange={(e) => setEditData({ ...editData, amount: e.target.value })}
+                          aria-invalid={Boolean(editErrors.amount)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                        <FieldError message={editErrors.amount} compact />
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          required
+                          form="edit-entry"
+                          aria-label="Description"
+                          value={editData.description}
+                          onChange={(e) => setEditData({ ...editData, description: e.target.value })}
+                          aria-invalid={Boolean(editErrors.description)}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        />
+                        <FieldError message={editErrors.description} compact />
+                        {extension.renderEditDescriptionFields?.(editData, handleEditExtrasChange)}
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          required
+                          form="edit-entry"
+                          aria-label="Category"
+                          value={editData.category}
+                          onChange={(e) => setEditData({ ...editData, category: e.target.value })}
+                          className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                        >
+                          {/* Keep archived categories of existing rows */}
+                          {!categoryOptions.some(option => option.value === entry.category) && (
+                            <option value={entry.category}>{getCategoryName(entry.category)}</option>
+                          )}
+                          {categoryOptions.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                          ))}
+                        </select>
+                        <FieldError message={editErrors.category} compact />
+                      </td>
+                      {!selectedPropertyId && (
+                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getPropertyName(entry.property_id)}</td>
+                      )}
+                      {extension.extraColumn && (
+                        <td className="whitespace-nowrap px-3 py-2 text-sm">{extension.extraColumn.render(entry)}</td>
+                      )}
+                      <td className="whitespace-nowrap px-3 py-2 text-sm text-right space-x-3">
+                        <form id="edit-entry" onSubmit={handleUpdate} className="inline">
+                          <button type="submit" className="text-indigo-600 hover:text-indigo-900">
+                            Save
+                          </button>
+                        </form>
+                        <button
+                          type="button"
+                          onClick={() => setEditingId(null)}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={entry.id}>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {entry.date}
+                        {extension.renderDateDetails?.(entry)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {formatMoney(entry.amount, entry.currency)}
+                        {entry.currency !== BASE_CURRENCY && (
+                          <div className="text-xs text-gray-400">
+                            Rs. {formatCurrency(entry.base_amount)} at {entry.exchange_rate}
+                          </div>
+                        )}
+                        {Boolean(entry.gst_amount || entry.tds_amount) && (
+                          <div className="text-xs text-gray-400">
+                            {entry.gst_amount ? `Net ${formatMoney(netAmount(entry), entry.currency)} + GST ${formatMoney(entry.gst_amount, entry.currency)}` : ''}
+                            {entry.gst_amount && entry.tds_amount ? ' · ' : ''}
+                            {entry.tds_amount ? `TDS ${formatMoney(entry.tds_amount, entry.currency)}` : ''}
+                          </div>
+                        )}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                        {entry.description}
+                        {extension.renderDescriptionDetails?.(entry)}
+                      </td>
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getCategoryName(entry.category)}</td>
+                      {!selectedPropertyId && (
+                        <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getPropertyName(entry.property_id)}</td>
+                      )}
+                      {extension.extraColumn && (
+                        <td className="whitespace-nowrap px-3 py-2 text-sm">{extension.extraColumn.render(entry)}</td>
+                      )}
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-right space-x-3">
+                        {canViewAudit && (
+                          <button
+                            type="button"
+                            onClick={() => setHistoryEntry(entry)}
+                            className="text-gray-600 hover:text-gray-900"
+                          >
+                            History
+                          </button>
+                        )}
+                        {canEdit && (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => startEdit(entry)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                            >
+                              Edit
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setDeleteCandidate(entry)}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                ))}
+              </tbody>
+            </table>
+            {visibleEntries.length === 0 && (
+              <p className="px-3 py-4 text-sm text-gray-500">
+                {hasActiveFilters(filters)
+                  ? `No ${labels.entriesName} match these filters.`
+                  : `No ${labels.entriesName} recorded yet.`}
+              </p>
+            )}
+          </div>
+          <Pagination
+            page={filters.page}
+            pageSize={LEDGER_PAGE_SIZE}
+            totalCount={entryCount}
+            onPageChange={(page) => updateFilters({ page })}
+          />
+        </div>
+      </div>
+
+      <ConfirmDialog
+        open={deleteCandidate !== null}
+        title={`Delete ${labels.entryName}`}
+        message={deleteCandidate
+          ? `Delete "${deleteCandidate.description}" on ${deleteCandidate.date} for ${formatMoney(deleteCandidate.amount, deleteCandidate.currency)}?`
+          : ''}
+        onConfirm={handleDeleteConfirmed}
+        onCancel={() => setDeleteCandidate(null)}
+      />
+
+      {historyEntry && (
+        <RecordHistory
+          table={ledger}
+          recordId={historyEntry.id}
+          title={historyEntry.description}
+          onClose={() => setHistoryEntry(null)}
+        />
+      )}
+
+      {pendingDelete && (
+        <UndoToast
+          message={`Deleted "${pendingDelete.description}"`}
+          onUndo={undo}
+        />
+      )}
+    </div>
+  );
+}
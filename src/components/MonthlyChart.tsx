@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { formatCurrency } from '@/utils/formatters';
+
+interface MonthlyChartProps {
+  data: {
+    month: string;
+    income: number;
+    expenses: number;
+  }[];
+  onSelectMonth: (month: string) => void;
+}
+
+const WIDTH = 720;
+const HEIGHT = 280;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+// YYYY-MM to a short label such as "Oct 26"
+const monthLabel = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString('en-IN', {
+    month: 'short',
+    year: '2-digit',
+    timeZone: 'UTC'
+  });
+};
+
+// Compact axis labels: 1.5L for lakhs, 2.3Cr for crores
+const formatAxisAmount = (amount: number) => {
+  const absolute = Math.abs(amount);
+  if (absolute >= 1e7) return `${(amount / 1e7).toFixed(1)}Cr`;
+  if (absolute >= 1e5) return `${(amount / 1e5).toFixed(1)}L`;
+  if (absolute >= 1e3) return `${(amount / 1e3).toFixed(0)}K`;
+  return amount.toFixed(0);
+};
+
+// Monthly income and expense bars with a net profit line. Clicking a month
+// selects it.
+export function MonthlyChart({ data, onSelectMonth }: MonthlyChartProps) {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500">No data for this period.</p>;
+  }
+
+  const values = data.flatMap(d => [d.income, d.expenses, d.income - d.expenses]);
+  const max = Math.max(0, ...values);
+  const min = Math.min(0, ...values);
+  const range = max - min || 1;
+  const y = (value: number) => PADDING.top + ((max - value) / range) * PLOT_HEIGHT;
+
+  const slotWidth = PLOT_WIDTH / data.length;
+  const barWidth = Math.min(24, slotWidth / 3);
+  const slotCenter = (index: number) => PADDING.left + slotWidth * index + slotWidth / 2;
+
+  const ticks = Array.from({ length: 5 }, (_, i) => min + (range * i) / 4);
+  const netPoints = data
+    .map((d, i) => `${slotCenter(i)},${y(d.income - d.expenses)}`)
+    .join(' ');
+  const hovered = hoveredIndex !== null ? data[hoveredIndex] : null;
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Monthly income and expenses">
+        {ticks.map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#E5E7EB" />
+            <text x={PADDING.left - 8} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px]">
+              {formatAxisAmount(tick)}
+            </text>
+          </g>
+        ))}
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(0)} y2={y(0)} stroke="#9CA3AF" />
+
+        {data.map((d, i) => (
+          <g
+            key={d.month}
+            onClick={() => onSelectMonth(d.month)}
+            onMouseEnter={() => setHoveredIndex(i)}
+            onMouseLeave={() => setHoveredIndex(null)}
+            className="cursor-pointer"
+          >
+            <rect
+              x={PADDING.left + slotWidth * i}
+              y={PADDING.top}
+              width={slotWidth}
+              height={PLOT_HEIGHT}
+              fill={hoveredIndex === i ? '#F3F4F6' : 'transparent'}
+            />
+            <rect
+              x={slotCenter(i) - barWidth - 1}
+              y={y(d.income)}
+              width={barWidth}
+              height={y(0) - y(d.income)}
+              fill="#34D399"
+            />
+            <rect
+              x={slotCenter(i) + 1}
+              y={y(d.expenses)}
+              width={barWidth}
+              height={y(0) - y(d.expenses)}
+              fill="#F87171"
+            />
+            <text x={slotCenter(i)} y={HEIGHT - 10} textAnchor="middle" className="fill-gray-500 text-[10px]">
+              {monthLabel(d.month)}
+            </text>
+          </g>
+        ))}
+
+        <polyline points={netPoints} fill="none" stroke="#6366F1" strokeWidth={2} pointerEvents="none" />
+        {data.map((d, i) => (
+          <circle key={d.month} cx={slotCenter(i)} cy={y(d.income - d.expenses)} r={3} fill="#6366F1" pointerEvents="none" />
+        ))}
+      </svg>
+
+      {hovered && hoveredIndex !== null && (
+        <div
+          className="pointer-events-none absolute top-2 z-10 rounded-md bg-white px-3 py-2 text-xs shadow-lg ring-1 ring-gray-200"
+          style={{ left: `${(slotCenter(hoveredIndex) / WIDTH) * 100}%`, transform: 'translateX(-50%)' }}
+        >
+          <div className="font-medium text-gray-900">{monthLabel(hovered.month)}</div>
+          <div className="text-green-700">Income: Rs. {formatCurrency(hovered.income)}</div>
+          <div className="text-red-700">Expenses: Rs. {formatCurrency(hovered.expenses)}</div>
+          <div className="text-indigo-700">Net Profit: Rs. {formatCurrency(hovered.income - hovered.expenses)}</div>
+        </div>
+      )}
+
+      <div className="mt-2 flex justify-center space-x-4 text-xs text-gray-600">
+        <span className="inline-flex items-center"><span className="mr-1 h-2 w-3 bg-emerald-400" />Income</span>
+        <span className="inline-flex items-center"><span className="mr-1 h-2 w-3 bg-red-400" />Expenses</span>
+        <span className="inline-flex items-center"><span className="mr-1 h-0.5 w-3 bg-indigo-500" />Net Profit</span>
+      </div>
+    </div>
+  );
+}
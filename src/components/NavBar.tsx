@@ -2,14 +2,40 @@
 
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { PropertySwitcher } from '@/components/PropertySwitcher';
+import { SyncStatus } from '@/components/SyncStatus';
+import { WorkspaceSwitcher } from '@/components/WorkspaceSwitcher';
+import { canAccessRoute, roleLabels } from '@/utils/roles';
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 
 export function NavBar() {
-  const { user, signOut } = useAuth();
+  const { user, role, signOut } = useAuth();
+  const { withProperty } = useProperty();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const router = useRouter();
 
+  // Pages that keep the selected property carry it in the link
+  const navLinks = [
+    { path: '/dashboard', label: 'Dashboard', keepsProperty: true },
+    { path: '/income', label: 'Income', keepsProperty: true },
+    { path: '/expenses', label: 'Expenses', keepsProperty: true },
+    { path: '/bookings', label: 'Bookings', keepsProperty: true },
+    { path: '/guests', label: 'Guests', keepsProperty: false },
+    { path: '/reports/tax', label: 'Tax', keepsProperty: true },
+    { path: '/audit', label: 'Audit', keepsProperty: false },
+    { path: '/properties', label: 'Properties', keepsProperty: false },
+    { path: '/settings/categories', label: 'Categories', keepsProperty: false },
+    { path: '/settings/budgets', label: 'Budgets', keepsProperty: false },
+    { path: '/settings/currencies', label: 'Currencies', keepsProperty: false },
+    { path: '/settings/team', label: 'Team', keepsProperty: false }
+  ];
+
+  const visibleLinks = navLinks
+    .filter(link => role && canAccessRoute(role, link.path))
+    .map(link => ({ ...link, href: link.keepsProperty ? withProperty(link.path) : link.path }));
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -25,39 +51,39 @@ export function NavBar() {
         <div className="flex justify-between h-16">
           <div className="flex">
             <div className="flex-shrink-0 flex items-center">
-              <Link href="/" className="text-xl font-bold text-gray-800">
+              <Link href={withProperty('/')} className="text-xl font-bold text-gray-800">
                 Chalet Manager
               </Link>
             </div>
             {user && (
               <div className="hidden sm:ml-6 sm:flex sm:space-x-8">
-                <Link
-                  href="/dashboard"
-                  className="text-gray-900 inline-flex items-center px-1 pt-1 border-b-2 border-transparent hover:border-gray-300"
-                >
-                  Dashboard
-                </Link>
-                <Link
-                  href="/income"
-                  className="text-gray-900 inline-flex items-center px-1 pt-1 border-b-2 border-transparent hover:border-gray-300"
-                >
-                  Income
-                </Link>
-                <Link
-                  href="/expenses"
-                  className="text-gray-900 inline-flex items-center px-1 pt-1 border-b-2 border-transparent hover:border-gray-300"
-                >
-                  Expenses
-                </Link>
+                {visibleLinks.map(link => (
+                  <Link
+                    key={link.path}
+                    href={link.href}
+                    className="text-gray-900 inline-flex items-center px-1 pt-1 border-b-2 border-transparent hover:border-gray-300"
+                  >
+                    {link.label}
+                  </Link>
+                ))}
               </div>
             )}
           </div>
 
           <div className="flex items-center">
+            {user && <SyncStatus className="mr-3 sm:mr-4" />}
+
             {/* Desktop menu */}
             {user ? (
               <div className="hidden sm:flex sm:items-center sm:space-x-4">
-                <span className="text-gray-700">{user.email}</span>
+                <WorkspaceSwitcher />
+                <PropertySwitcher />
+                <span className="text-gray-700">
+                  {user.email}
+                  {role && role !== 'OWNER' && (
+                    <span className="ml-2 rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{roleLabels[role]}</span>
+                  )}
+                </span>
                 <button
                   onClick={handleSignOut}
                   className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -121,28 +147,19 @@ export function NavBar() {
                     </div>
                   </div>
                 </div>
+                <WorkspaceSwitcher className="px-4 pt-3" />
+                <PropertySwitcher className="px-4 pt-3" />
                 <div className="pt-2 pb-3 space-y-1">
-                  <Link
-                    href="/dashboard"
-                    className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-50 hover:border-gray-300"
-                    onClick={() => setIsMenuOpen(false)}
-                  >
-                    Dashboard
-                  </Link>
-                  <Link
-                    href="/income"
-                    className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-50 hover:border-gray-300"
-                    onClick={() => setIsMenuOpen(false)}
-                  >
-                    Income
-                  </Link>
-                  <Link
-                    href="/expenses"
-                    className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-50 hover:border-gray-300"
-                    onClick={() => setIsMenuOpen(false)}
-                  >
-                    Expenses
-                  </Link>
+                  {visibleLinks.map(link => (
+                    <Link
+                      key={link.path}
+                      href={link.href}
+                      className="block pl-3 pr-4 py-2 border-l-4 border-transparent text-base font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-50 hover:border-gray-300"
+                      onClick={() => setIsMenuOpen(false)}
+                    >
+                      {link.label}
+                    </Link>
+                  ))}
                 </div>
                 <div className="pt-4 pb-3">
                   <button
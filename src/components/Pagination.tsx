@@ -0,0 +1,43 @@
+'use client';
+
+interface PaginationProps {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  onPageChange: (page: number) => void;
+}
+
+export function Pagination({ page, pageSize, totalCount, onPageChange }: PaginationProps) {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize));
+  const first = totalCount === 0 ? 0 : (page - 1) * pageSize + 1;
+  const last = Math.min(page * pageSize, totalCount);
+
+  return (
+    <nav className="mt-4 flex items-center justify-between border-t border-gray-200 pt-4" aria-label="Pagination">
+      <p className="text-sm text-gray-700">
+        {totalCount === 0 ? 'No entries' : `Showing ${first}–${last} of ${totalCount}`}
+      </p>
+      <div className="flex items-center gap-3">
+        <button
+          type="button"
+          onClick={() => onPageChange(page - 1)}
+          disabled={page <= 1}
+          className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Previous
+        </button>
+        <span className="text-sm text-gray-500">
+          Page {Math.min(page, pageCount)} of {pageCount}
+        </span>
+        <button
+          type="button"
+          onClick={() => onPageChange(page + 1)}
+          disabled={page >= pageCount}
+          className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Next
+        </button>
+      </div>
+    </nav>
+  );
+}
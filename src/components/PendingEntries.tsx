@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { BASE_CURRENCY, formatMoney } from '@/utils/currency';
+import type { QueuedEntry } from '@/utils/offlineQueue';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+
+interface PendingEntriesProps {
+  entries: QueuedEntry[];
+  getCategoryName: (code: string) => string;
+  getPropertyName: (propertyId: string) => string;
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+}
+
+// Entries saved on this device that have not reached the server, with the
+// reason for any the server turned down
+export function PendingEntries({ entries, getCategoryName, getPropertyName, onRetry, onDiscard }: PendingEntriesProps) {
+  const [discardCandidate, setDiscardCandidate] = useState<QueuedEntry | null>(null);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6">
+        <h3 className="text-lg font-medium leading-6 text-gray-900">Waiting to Sync</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Saved on this device and sent automatically once the connection is back.
+        </p>
+        <ul className="mt-4 divide-y divide-gray-200">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start justify-between py-3 text-sm">
+              <div>
+                <p className="text-gray-900">
+                  {entry.row.date} · {formatMoney(entry.row.amount, entry.row.currency ?? BASE_CURRENCY)} · {entry.row.description}
+                </p>
+                <p className="text-gray-500">
+                  {getCategoryName(entry.row.category)}
+                  {getPropertyName(entry.row.property_id) && ` · ${getPropertyName(entry.row.property_id)}`}
+                </p>
+                {entry.conflict && <p className="mt-1 text-red-600">Not saved: {entry.conflict}</p>}
+              </div>
+              <div className="ml-4 flex-shrink-0 space-x-3">
+                {entry.conflict && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(entry.id)}
+                    className="text-indigo-600 hover:text-indigo-900"
+                  >
+                    Retry
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setDiscardCandidate(entry)}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <ConfirmDialog
+        open={discardCandidate !== null}
+        title="Discard unsynced entry"
+        message={discardCandidate
+          ? `"${discardCandidate.row.description}" has not been saved to the server and will be lost.`
+          : ''}
+        confirmLabel="Discard"
+        onConfirm={() => {
+          if (discardCandidate) onDiscard(discardCandidate.id);
+          setDiscardCandidate(null);
+        }}
+        onCancel={() => setDiscardCandidate(null)}
+      />
+    </div>
+  );
+}
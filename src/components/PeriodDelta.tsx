@@ -0,0 +1,35 @@
+'use client';
+
+import { formatCurrency } from '@/utils/formatters';
+
+interface PeriodDeltaProps {
+  current: number;
+  previous: number;
+  label: string;
+  // For expenses a rise is bad news, so the colours are swapped
+  higherIsWorse?: boolean;
+  // Shows the size of the change; rupees unless given
+  formatChange?: (change: number) => string;
+}
+
+// Change from the comparison period, as a percentage and an amount
+export function PeriodDelta({
+  current,
+  previous,
+  label,
+  higherIsWorse = false,
+  formatChange = formatCurrency
+}: PeriodDeltaProps) {
+  const change = current - previous;
+  const percent = previous !== 0 ? (change / Math.abs(previous)) * 100 : null;
+  const isGood = higherIsWorse ? change < 0 : change > 0;
+  const color = change === 0 ? 'text-gray-500' : isGood ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <p className={`mt-1 text-xs ${color}`}>
+      {change > 0 ? '▲' : change < 0 ? '▼' : '='}{' '}
+      {percent !== null ? `${Math.abs(percent).toFixed(1)}%` : 'n/a'}
+      {' '}({change >= 0 ? '+' : '-'}{formatChange(Math.abs(change))}) {label}
+    </p>
+  );
+}
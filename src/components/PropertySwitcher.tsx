@@ -0,0 +1,28 @@
+'use client';
+
+import { useProperty } from '@/contexts/PropertyContext';
+
+export function PropertySwitcher({ className = '' }: { className?: string }) {
+  const { properties, selectedPropertyId, selectProperty } = useProperty();
+
+  return (
+    <div className={className}>
+      <label htmlFor="property-switcher" className="sr-only">
+        Property
+      </label>
+      <select
+        id="property-switcher"
+        value={selectedPropertyId ?? ''}
+        onChange={(e) => selectProperty(e.target.value || null)}
+        className="block w-full rounded-md border-gray-300 py-1.5 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      >
+        <option value="">All Properties</option>
+        {properties.map(property => (
+          <option key={property.id} value={property.id}>
+            {property.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
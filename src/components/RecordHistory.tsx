@@ -0,0 +1,91 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { AuditEntry, LedgerTable } from '@/types/database.types';
+import { auditActionLabels, auditActorName, fetchAuditActors } from '@/utils/audit';
+import { useAuditValueFormatter } from '@/hooks/useAuditValueFormatter';
+import { AuditChanges } from '@/components/AuditChanges';
+
+interface RecordHistoryProps {
+  table: LedgerTable;
+  recordId: string;
+  title: string;
+  onClose: () => void;
+}
+
+// Every change to one income or expense row, oldest first
+export function RecordHistory({ table, recordId, title, onClose }: RecordHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const formatValue = useAuditValueFormatter();
+
+  const supabase = getSupabaseBrowserClient();
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        const [{ data, error }, actorEmails] = await Promise.all([
+          supabase
+            .from('audit_log')
+            .select('*')
+            .eq('table_name', table)
+            .eq('record_id', recordId)
+            .order('created_at', { ascending: true }),
+          fetchAuditActors(supabase)
+        ]);
+
+        if (error) throw error;
+
+        setEntries(data ?? []);
+        setActors(actorEmails);
+      } catch (error) {
+        console.error('Error fetching history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [supabase, table, recordId]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-gray-500/75 px-4">
+      <div role="dialog" aria-modal="true" aria-labelledby="record-history-title" className="w-full max-w-2xl rounded-lg bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between">
+          <h3 id="record-history-title" className="text-lg font-medium leading-6 text-gray-900">
+            History: {title}
+          </h3>
+          <button type="button" onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900">
+            Close
+          </button>
+        </div>
+
+        <div className="mt-4 max-h-[60vh] overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500">No changes have been recorded for this entry.</p>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map(entry => (
+                <li key={entry.id} className="border-l-2 border-gray-200 pl-4 text-sm">
+                  <p className="text-gray-900">
+                    <span className="font-medium">{auditActionLabels[entry.action]}</span>
+                    {' by '}
+                    {auditActorName(actors, entry.actor_id)}
+                    <span className="ml-2 text-gray-500">{new Date(entry.created_at).toLocaleString('en-IN')}</span>
+                  </p>
+                  <div className="mt-1 text-gray-600">
+                    <AuditChanges entry={entry} formatValue={formatValue} />
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { LedgerTable, RecurrenceInterval, RecurringSchedule } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useToast } from '@/contexts/ToastContext';
+import { ConfirmDialog } from '@/components/ConfirmDialog';
+import { FieldError } from '@/components/FieldError';
+import { formatCurrency } from '@/utils/formatters';
+import { today } from '@/utils/dates';
+import { intervalLabels, upcomingOccurrences } from '@/utils/recurring';
+import { hasPermission } from '@/utils/roles';
+import { hasErrors, validateLedgerEntry, type FieldErrors, type LedgerEntryValues } from '@/utils/validation';
+
+interface RecurringSchedulesProps {
+  ledger: LedgerTable;
+  propertyId: string;
+  categoryOptions: { value: string; label: string }[];
+  getCategoryName: (code: string) => string;
+}
+
+const UPCOMING_DAYS = 30;
+
+export function RecurringSchedules({ ledger, propertyId, categoryOptions, getCategoryName }: RecurringSchedulesProps) {
+  const { user, workspaceId, role } = useAuth();
+  const { selectedPropertyId, getPropertyName } = useProperty();
+  const { showError } = useToast();
+  const [schedules, setSchedules] = useState<RecurringSchedule[]>([]);
+  const [formData, setFormData] = useState({
+    description: '',
+    amount: '',
+    category: '',
+    interval: 'MONTHLY' as RecurrenceInterval,
+    start_date: '',
+    end_date: ''
+  });
+  const [formErrors, setFormErrors] = useState<FieldErrors<LedgerEntryValues>>({});
+  const [showForm, setShowForm] = useState(false);
+  const [deleteCandidate, setDeleteCandidate] = useState<RecurringSchedule | null>(null);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      let query = supabase
+        .from('recurring_schedules')
+        .select('*')
+        .eq('ledger', ledger)
+        .order('start_date', { ascending: true });
+
+      if (selectedPropertyId) {
+        query = query.eq('property_id', selectedPropertyId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      setSchedules(data ?? []);
+    } catch (error) {
+      showError('Could not load recurring schedules.', error, () => fetchSchedules(), `fetch-schedules-${ledger}`);
+    }
+  }, [supabase, ledger, selectedPropertyId, showError]);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const formCategory = formData.category || categoryOptions[0]?.value || '';
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!user || !workspaceId || !propertyId) return;
+
+    // Each occurrence becomes an entry, so the schedule follows the entry
+    // rules, with its first date standing in for the entry date
+    const errors = validateLedgerEntry(
+      {
+        date: formData.start_date,
+        amount: parseFloat(formData.amount),
+        description: formData.description,
+        category: formCategory
+      },
+      { today: today(), categories: categoryOptions.map(option => option.value) }
+    );
+    setFormErrors(errors);
+    if (hasErrors(errors)) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('recurring_schedules')
+        .insert([
+          {
+            workspace_id: workspaceId,
+            user_id: user.id,
+            property_id: propertyId,
+            ledger,
+            description: formData.description,
+            amount: parseFloat(formData.amount),
+            category: formCategory,
+            interval: formData.interval,
+            start_date: formData.start_date,
+            end_date: formData.end_date || null
+          }
+        ])
+        .select();
+
+      if (error) throw error;
+
+      if (data) {
+        setSchedules(current => [...current, ...data]);
+        setFormData({ ...formData, description: '', amount: '', start_date: '', end_date: '' });
+        setShowForm(false);
+      }
+    } catch (error) {
+      showError('Could not add the recurring schedule.', error, handleSubmit);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteCandidate) return;
+    const schedule = deleteCandidate;
+    setDeleteCandidate(null);
+
+    try {
+      const { error } = await supabase
+        .from('recurring_schedules')
+        .delete()
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+
+      setSchedules(current => current.filter(s => s.id !== schedule.id));
+    } catch (error) {
+      showError(`Could not delete "${schedule.description}".`, error);
+    }
+  };
+
+  const canEdit = hasPermission(role, 'editLedgers');
+
+  const upcoming = schedules
+    .flatMap(schedule => upcomingOccurrences(schedule, today(), UPCOMING_DAYS).map(date => ({ date, schedule })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg">
+      <div className="px-4 py-5 sm:p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium leading-6 text-gray-900">Recurring</h3>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setShowForm(!showForm)}
+              className="inline-flex items-center rounded-md bg-white px-3 py-2 text-sm font-semibold text-gray-900 shadow-sm ring-1 ring-inset ring-gray-300 hover:bg-gray-50"
+            >
+              {showForm ? 'Close' : 'Add Schedule'}
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="recurring-description" className="block text-sm font-medium text-gray-700">
+                  Description
+                </label>
+                <input
+                  type="text"
+                  id="recurring-description"
+                  required
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  aria-invalid={Boolean(formErrors.description)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                <FieldError message={formErrors.description} />
+              </div>
+              <div>
+                <label htmlFor="recurring-amount" className="block text-sm font-medium text-gray-700">
+                  Amount (Rs.)
+                </label>
+                <input
+                  type="number"
+                  id="recurring-amount"
+                  required
+                  min="0.01"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  aria-invalid={Boolean(formErrors.amount)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                <FieldError message={formErrors.amount} />
+              </div>
+              <div>
+                <label htmlFor="recurring-category" className="block text-sm font-medium text-gray-700">
+                  Category
+                </label>
+                <select
+                  id="recurring-category"
+                  required
+                  value={formCategory}
+                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {categoryOptions.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <FieldError message={formErrors.category} />
+              </div>
+              <div>
+                <label htmlFor="recurring-interval" className="block text-sm font-medium text-gray-700">
+                  Repeats
+                </label>
+                <select
+                  id="recurring-interval"
+                  value={formData.interval}
+                  onChange={(e) => setFormData({ ...formData, interval: e.target.value as RecurrenceInterval })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {Object.entries(intervalLabels).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="recurring-start" className="block text-sm font-medium text-gray-700">
+                  First Date
+                </label>
+                <input
+                  type="date"
+                  id="recurring-start"
+                  required
+                  value={formData.start_date}
+                  onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
+                  aria-invalid={Boolean(formErrors.date)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                <FieldError message={formErrors.date} />
+              </div>
+              <div>
+                <label htmlFor="recurring-end" className="block text-sm font-medium text-gray-700">
+                  Last Date (optional)
+                </label>
+                <input
+                  type="date"
+                  id="recurring-end"
+                  min={formData.start_date || undefined}
+                  value={formData.end_date}
+                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                className="ml-3 inline-flex justify-center rounded-md border border-transparent bg-indigo-600 py-2 px-4 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2"
+              >
+                Save Schedule
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Due in the next {UPCOMING_DAYS} days</h4>
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing due.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {upcoming.map(({ date, schedule }) => (
+                <li key={`${schedule.id}-${date}`} className="flex justify-between py-2 text-sm">
+                  <span className="text-gray-500">{date}</span>
+                  <span className="flex-1 px-4 text-gray-900">{schedule.description}</span>
+                  <span className="text-gray-500">Rs. {formatCurrency(schedule.amount)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {schedules.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead>
+                <tr>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Description</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Amount</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Category</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Repeats</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">From</th>
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Until</th>
+                  {!selectedPropertyId && (
+                    <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">Property</th>
+                  )}
+                  <th className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {schedules.map(schedule => (
+                  <tr key={schedule.id}>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900">{schedule.description}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">Rs. {formatCurrency(schedule.amount)}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getCategoryName(schedule.category)}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{intervalLabels[schedule.interval]}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{schedule.start_date}</td>
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{schedule.end_date ?? 'No end'}</td>
+                    {!selectedPropertyId && (
+                      <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{getPropertyName(schedule.property_id)}</td>
+                    )}
+                    <td className="whitespace-nowrap px-3 py-4 text-sm text-right">
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => setDeleteCandidate(schedule)}
+                          className="text-red-600 hover:text-red-900"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={deleteCandidate !== null}
+        title="Delete recurring schedule"
+        message="No further entries will be created. Entries already recorded are kept."
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteCandidate(null)}
+      />
+    </div>
+  );
+}
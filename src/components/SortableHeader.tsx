@@ -0,0 +1,28 @@
+'use client';
+
+import type { LedgerFilters, LedgerSortField } from '@/utils/ledgerFilters';
+
+interface SortableHeaderProps {
+  label: string;
+  field: LedgerSortField;
+  filters: LedgerFilters;
+  onSort: (field: LedgerSortField) => void;
+}
+
+export function SortableHeader({ label, field, filters, onSort }: SortableHeaderProps) {
+  const isSorted = filters.sort === field;
+
+  return (
+    <th
+      className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900"
+      aria-sort={isSorted ? (filters.ascending ? 'ascending' : 'descending') : 'none'}
+    >
+      <button type="button" onClick={() => onSort(field)} className="inline-flex items-center gap-1 hover:text-indigo-600">
+        {label}
+        <span aria-hidden="true" className={isSorted ? 'text-gray-900' : 'text-gray-300'}>
+          {isSorted && filters.ascending ? '▲' : '▼'}
+        </span>
+      </button>
+    </th>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useOfflineQueue } from '@/contexts/OfflineQueueContext';
+
+// Badge for the navigation bar: whether the app is offline and how many
+// entries saved on this device still have to reach the server
+export function SyncStatus({ className = '' }: { className?: string }) {
+  const { isOnline, isSyncing, pendingEntries, syncNow } = useOfflineQueue();
+
+  const conflicts = pendingEntries.filter(entry => entry.conflict).length;
+  const waiting = pendingEntries.length - conflicts;
+
+  if (isOnline && pendingEntries.length === 0) return null;
+
+  const label = [
+    !isOnline && 'Offline',
+    waiting > 0 && (isSyncing ? `Syncing ${waiting}...` : `${waiting} pending sync`),
+    conflicts > 0 && `${conflicts} not synced`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <button
+      type="button"
+      onClick={() => syncNow()}
+      disabled={!isOnline || isSyncing || waiting === 0}
+      title={conflicts > 0
+        ? 'Some entries were turned down by the server; see the income or expenses page'
+        : 'Entries saved on this device are sent once the connection is back'}
+      className={`${className} inline-flex items-center rounded-full px-3 py-1 text-xs font-medium ${
+        conflicts > 0 ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+      } disabled:cursor-default`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import { formatCurrency } from '@/utils/formatters';
+import { GST_RATES, gstFromGross, type TaxFieldValues } from '@/utils/tax';
+
+interface TaxFieldsProps {
+  idPrefix: string;
+  // Gross amount entered in the form, used to suggest the GST amount
+  amount: string;
+  values: TaxFieldValues;
+  onChange: (values: TaxFieldValues) => void;
+  gstinLabel: string;
+  tdsLabel: string;
+}
+
+// Optional GST and TDS inputs for the income and expense forms, collapsed
+// until needed
+export function TaxFields({ idPrefix, amount, values, onChange, gstinLabel, tdsLabel }: TaxFieldsProps) {
+  const gross = parseFloat(amount);
+  const suggestedGst = values.gst_rate !== '' && !Number.isNaN(gross)
+    ? gstFromGross(gross, parseFloat(values.gst_rate))
+    : null;
+  const gst = values.gst_amount !== '' ? parseFloat(values.gst_amount) : suggestedGst;
+
+  return (
+    <details className="rounded-md border border-gray-200 px-4 py-3" open={Object.values(values).some(Boolean)}>
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">GST and TDS (optional)</summary>
+      <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor={`${idPrefix}-gst-rate`} className="block text-sm font-medium text-gray-700">
+            GST Rate
+          </label>
+          <select
+            id={`${idPrefix}-gst-rate`}
+            value={values.gst_rate}
+            onChange={(e) => onChange({ ...values, gst_rate: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <option value="">No GST</option>
+            {GST_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate}%</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-gst-amount`} className="block text-sm font-medium text-gray-700">
+            GST Amount (Rs.)
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-gst-amount`}
+            min="0"
+            step="0.01"
+            placeholder={suggestedGst !== null ? String(suggestedGst) : ''}
+            value={values.gst_amount}
+            onChange={(e) => onChange({ ...values, gst_amount: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+          {gst !== null && !Number.isNaN(gross) && (
+            <p className="mt-1 text-xs text-gray-500">
+              Net of GST: Rs. {formatCurrency(gross - gst)}
+            </p>
+          )}
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-tds`} className="block text-sm font-medium text-gray-700">
+            {tdsLabel}
+          </label>
+          <input
+            type="number"
+            id={`${idPrefix}-tds`}
+            min="0"
+            step="0.01"
+            value={values.tds_amount}
+            onChange={(e) => onChange({ ...values, tds_amount: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor={`${idPrefix}-gstin`} className="block text-sm font-medium text-gray-700">
+            {gstinLabel}
+          </label>
+          {/* State code, PAN, entity number, the letter Z and a check character */}
+          <input
+            type="text"
+            id={`${idPrefix}-gstin`}
+            maxLength={15}
+            pattern="[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]"
+            title="15-character GSTIN, e.g. 27ABCDE1234F1Z5"
+            value={values.gstin}
+            onChange={(e) => onChange({ ...values, gstin: e.target.value.toUpperCase() })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+    </details>
+  );
+}
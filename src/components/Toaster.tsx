@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useToast, type Toast } from '@/contexts/ToastContext';
+
+const TOAST_DURATION_MS = 6000;
+
+const toneClasses = {
+  info: 'bg-gray-800',
+  error: 'bg-red-700'
+};
+
+function ToastItem({ toast, onDismiss }: { toast: Toast; onDismiss: (id: string) => void }) {
+  // Toasts offering an action stay until the user deals with them
+  const persistent = Boolean(toast.action);
+
+  useEffect(() => {
+    if (persistent) return;
+    const timer = setTimeout(() => onDismiss(toast.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, persistent, onDismiss]);
+
+  return (
+    <div
+      role={toast.tone === 'error' ? 'alert' : 'status'}
+      className={`flex items-start space-x-4 rounded-md px-4 py-3 text-sm text-white shadow-lg ${toneClasses[toast.tone]}`}
+    >
+      <span className="flex-1">{toast.message}</span>
+      {toast.action && (
+        <button
+          type="button"
+          onClick={toast.action.onClick}
+          className="font-medium text-white underline hover:text-gray-200"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => onDismiss(toast.id)}
+        className={`font-medium ${toast.tone === 'error' ? 'text-red-200 hover:text-red-100' : 'text-indigo-300 hover:text-indigo-200'}`}
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
+
+export function Toaster() {
+  const { toasts, dismissToast } = useToast();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm space-y-2">
+      {toasts.map(toast => (
+        <ToastItem key={toast.id} toast={toast} onDismiss={dismissToast} />
+      ))}
+    </div>
+  );
+}
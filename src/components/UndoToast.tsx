@@ -0,0 +1,21 @@
+'use client';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+}
+
+export function UndoToast({ message, onUndo }: UndoToastProps) {
+  return (
+    <div className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 flex items-center space-x-4 rounded-md bg-gray-800 px-4 py-3 text-sm text-white shadow-lg">
+      <span>{message}</span>
+      <button
+        type="button"
+        onClick={onUndo}
+        className="font-medium text-indigo-300 hover:text-indigo-200"
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { roleLabels } from '@/utils/roles';
+
+// Only shown to people who belong to more than one workspace
+export function WorkspaceSwitcher({ className = '' }: { className?: string }) {
+  const { memberships, workspaceId, switchWorkspace } = useAuth();
+  const { showError } = useToast();
+
+  if (memberships.length < 2) return null;
+
+  const handleChange = async (targetId: string) => {
+    try {
+      await switchWorkspace(targetId);
+    } catch (error) {
+      const name = memberships.find(membership => membership.workspaceId === targetId)?.workspaceName;
+      showError(`Could not switch to ${name || 'the workspace'}.`, error, () => handleChange(targetId));
+    }
+  };
+
+  return (
+    <div className={className}>
+      <label htmlFor="workspace-switcher" className="sr-only">
+        Workspace
+      </label>
+      <select
+        id="workspace-switcher"
+        value={workspaceId ?? ''}
+        onChange={(e) => handleChange(e.target.value)}
+        className="block w-full rounded-md border-gray-300 py-1.5 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      >
+        {memberships.map(membership => (
+          <option key={membership.workspaceId} value={membership.workspaceId}>
+            {membership.workspaceName} ({roleLabels[membership.role]})
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,33 +1,42 @@
 'use client';
 
-import { createBrowserClient } from '@supabase/ssr';
-import { createContext, useContext, useEffect, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
+import type { Role } from '@/types/database.types';
+import { activeMembership, fetchMemberships, homeRoute, type Membership } from '@/utils/roles';
+import { OFFLINE_DATA_CACHE } from '@/utils/offlineQueue';
 
 interface AuthContextType {
   user: User | null;
+  // Every workspace the user belongs to, and the one they are working in
+  memberships: Membership[];
+  workspaceId: string | null;
+  workspaceName: string | null;
+  role: Role | null;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
-  signUp: (email: string, password: string) => Promise<void>;
+  // With an invitation token the new user joins that workspace
+  signUp: (email: string, password: string, inviteToken?: string) => Promise<void>;
   signOut: () => Promise<void>;
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+  refreshMemberships: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [memberships, setMemberships] = useState<Membership[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const supabase = createBrowserClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
+  const supabase = getSupabaseBrowserClient();
 
   useEffect(() => {
     // Check active sessions and sets the user
     supabase.auth.getSession().then(({ data: { session } }) => {
       setUser(session?.user ?? null);
-      setLoading(false);
+      if (!session) setLoading(false);
     });
 
     // Listen for changes on auth state (sign in, sign out, etc.)
@@ -38,6 +47,30 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe();
   }, [supabase.auth]);
 
+  const userId = user?.id;
+
+  const refreshMemberships = useCallback(async () => {
+    if (!userId) {
+      setMemberships([]);
+      return;
+    }
+
+    try {
+      setMemberships(await fetchMemberships(supabase, userId));
+    } catch (error) {
+      // Pages still load; row-level security keeps the data to the real role
+      console.error('Error fetching workspaces:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [supabase, userId]);
+
+  useEffect(() => {
+    refreshMemberships();
+  }, [refreshMemberships]);
+
+  const active = activeMembership(memberships);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -46,10 +79,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
   };
 
-  const signUp = async (email: string, password: string) => {
+  const signUp = async (email: string, password: string, inviteToken?: string) => {
     const { error } = await supabase.auth.signUp({
       email,
       password,
+      options: inviteToken ? { data: { invite_token: inviteToken } } : undefined,
     });
     if (error) throw error;
   };
@@ -57,10 +91,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
+    // The next person on this device must not see these books offline
+    if ('caches' in window) await caches.delete(OFFLINE_DATA_CACHE);
+  };
+
+  // Reloads so that every page fetches the other workspace's books
+  const switchWorkspace = async (workspaceId: string) => {
+    const { error } = await supabase.rpc('switch_workspace', { target_workspace_id: workspaceId });
+    if (error) throw error;
+
+    const role = memberships.find(membership => membership.workspaceId === workspaceId)?.role ?? 'OWNER';
+    window.location.assign(homeRoute(role));
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        memberships,
+        workspaceId: active?.workspaceId ?? null,
+        workspaceName: active?.workspaceName ?? null,
+        role: active?.role ?? null,
+        loading,
+        signIn,
+        signUp,
+        signOut,
+        switchWorkspace,
+        refreshMemberships
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,121 @@
+'use client';
+
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Expense, Income, LedgerTable } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { formatMoney } from '@/utils/currency';
+
+// Changes arriving within this window, such as a CSV import, cause one refetch
+const REFRESH_DELAY_MS = 500;
+
+const ledgerNouns = {
+  income: 'income',
+  expenses: 'an expense'
+};
+
+interface LedgerChangesContextType {
+  // Go up whenever a ledger changes in the database, from any session, so
+  // pages showing it can refetch
+  changeCounts: Record<LedgerTable, number>;
+}
+
+const LedgerChangesContext = createContext<LedgerChangesContextType | undefined>(undefined);
+
+export function LedgerChangesProvider({ children }: { children: React.ReactNode }) {
+  const { user, workspaceId } = useAuth();
+  const [changeCounts, setChangeCounts] = useState<Record<LedgerTable, number>>({ income: 0, expenses: 0 });
+  const { showToast } = useToast();
+  const changedRef = useRef(new Set<LedgerTable>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const emailsRef = useRef<Record<string, string>>({});
+
+  const supabase = getSupabaseBrowserClient();
+  const userId = user?.id;
+
+  const actorName = useCallback(async (actorId: string) => {
+    if (!emailsRef.current[actorId]) {
+      try {
+        const { data, error } = await supabase.rpc('workspace_member_emails');
+        if (error) throw error;
+        emailsRef.current = Object.fromEntries(
+          (data ?? []).map(row => [row.user_id, row.email])
+        );
+      } catch (error) {
+        console.error('Error fetching team members:', error);
+      }
+    }
+    return emailsRef.current[actorId] ?? 'A team member';
+  }, [supabase]);
+
+  useEffect(() => {
+    if (!userId || !workspaceId) return;
+
+    const handleChange = async (ledger: LedgerTable, payload: RealtimePostgresChangesPayload<Income | Expense>) => {
+      changedRef.current.add(ledger);
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = setTimeout(() => {
+        const changed = changedRef.current;
+        changedRef.current = new Set();
+        setChangeCounts(counts => ({
+          income: counts.income + (changed.has('income') ? 1 : 0),
+          expenses: counts.expenses + (changed.has('expenses') ? 1 : 0)
+        }));
+      }, REFRESH_DELAY_MS);
+
+      // Tell the user about entries other people add while they have the app open
+      if (payload.eventType === 'INSERT' && payload.new.user_id !== userId) {
+        const entry = payload.new;
+        const actor = await actorName(entry.user_id);
+        showToast({
+          id: entry.id,
+          tone: 'info',
+          message: `${actor} added ${ledgerNouns[ledger]}: “${entry.description}” for ${formatMoney(entry.amount, entry.currency)}`
+        });
+      }
+    };
+
+    // Deleted rows only carry their id, so deletes cannot be narrowed to
+    // this workspace and are all taken as a change
+    const channel = (['income', 'expenses'] as const).reduce(
+      (subscribed, ledger) => subscribed
+        .on<Income | Expense>(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: ledger, filter: `workspace_id=eq.${workspaceId}` },
+          payload => handleChange(ledger, payload)
+        )
+        .on<Income | Expense>(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: ledger, filter: `workspace_id=eq.${workspaceId}` },
+          payload => handleChange(ledger, payload)
+        )
+        .on<Income | Expense>(
+          'postgres_changes',
+          { event: 'DELETE', schema: 'public', table: ledger },
+          payload => handleChange(ledger, payload)
+        ),
+      supabase.channel(`ledger-changes:${workspaceId}`)
+    ).subscribe();
+
+    return () => {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [supabase, userId, workspaceId, actorName, showToast]);
+
+  return (
+    <LedgerChangesContext.Provider value={{ changeCounts }}>
+      {children}
+    </LedgerChangesContext.Provider>
+  );
+}
+
+export function useLedgerChanges() {
+  const context = useContext(LedgerChangesContext);
+  if (context === undefined) {
+    throw new Error('useLedgerChanges must be used within a LedgerChangesProvider');
+  }
+  return context;
+}
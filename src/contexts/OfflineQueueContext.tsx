@@ -0,0 +1,171 @@
+'use client';
+
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import type { LedgerTable } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { createSupabaseLedgerRepository } from '@/utils/ledgerRepository';
+import { isConnectionError } from '@/utils/errors';
+import {
+  conflictMessage,
+  listQueuedEntries,
+  removeQueuedEntry,
+  saveQueuedEntry,
+  type QueuedEntry
+} from '@/utils/offlineQueue';
+
+// How often to try again while entries wait and the browser claims to be
+// online, for connections that drop without an offline event
+const RETRY_INTERVAL_MS = 30000;
+
+interface OfflineQueueContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  // Entries the signed-in user made in the active workspace that have not
+  // reached the server yet
+  pendingEntries: QueuedEntry[];
+  // Goes up whenever queued entries are saved, so lists can refetch
+  syncCount: number;
+  queueEntry: (ledger: LedgerTable, row: QueuedEntry['row']) => Promise<void>;
+  syncNow: () => Promise<void>;
+  // Clears the conflict on an entry and replays it again
+  retryEntry: (id: string) => Promise<void>;
+  discardEntry: (id: string) => Promise<void>;
+}
+
+const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined);
+
+export function OfflineQueueProvider({ children }: { children: React.ReactNode }) {
+  const { user, workspaceId } = useAuth();
+  const [queuedEntries, setQueuedEntries] = useState<QueuedEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncCount, setSyncCount] = useState(0);
+  const syncingRef = useRef(false);
+
+  const supabase = getSupabaseBrowserClient();
+  const userId = user?.id;
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueuedEntries(await listQueuedEntries());
+    } catch (error) {
+      console.error('Error reading offline entries:', error);
+    }
+  }, []);
+
+  // Replays the user's entries oldest first. An unreachable server stops the
+  // run and leaves the rest for later; an entry the server refuses is kept
+  // with the reason, and the others carry on. Row-level security only
+  // accepts rows for the active workspace, so entries made in another one
+  // wait until the user switches back to it.
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !userId || !workspaceId || !navigator.onLine) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    let saved = 0;
+    try {
+      const entries = (await listQueuedEntries())
+        .filter(entry => entry.row.user_id === userId && entry.row.workspace_id === workspaceId && !entry.conflict);
+
+      for (const entry of entries) {
+        try {
+          // Saved by an earlier attempt whose reply was lost, or by another
+          // tab, when nothing comes back
+          await createSupabaseLedgerRepository(supabase, entry.ledger).createIfMissing([entry.row]);
+          await removeQueuedEntry(entry.id);
+          saved++;
+        } catch (error) {
+          if (isConnectionError(error)) break;
+          await saveQueuedEntry({ ...entry, conflict: conflictMessage(error) });
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing offline entries:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      if (saved > 0) setSyncCount(count => count + 1);
+      await refreshQueue();
+    }
+  }, [supabase, userId, workspaceId, refreshQueue]);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+    refreshQueue();
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [refreshQueue, syncNow]);
+
+  const pendingEntries = useMemo(
+    () => queuedEntries.filter(entry => entry.row.user_id === userId && entry.row.workspace_id === workspaceId),
+    [queuedEntries, userId, workspaceId]
+  );
+  const hasRetryableEntries = pendingEntries.some(entry => !entry.conflict);
+
+  // Entries left from an earlier visit go out as soon as the user is known
+  useEffect(() => {
+    if (userId) syncNow();
+  }, [userId, syncNow]);
+
+  useEffect(() => {
+    if (!hasRetryableEntries || !isOnline) return;
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasRetryableEntries, isOnline, syncNow]);
+
+  const queueEntry = async (ledger: LedgerTable, row: QueuedEntry['row']) => {
+    await saveQueuedEntry({ id: row.id, ledger, row, queuedAt: new Date().toISOString(), conflict: null });
+    await refreshQueue();
+  };
+
+  const retryEntry = async (id: string) => {
+    const entry = queuedEntries.find(queued => queued.id === id);
+    if (!entry) return;
+    await saveQueuedEntry({ ...entry, conflict: null });
+    await refreshQueue();
+    await syncNow();
+  };
+
+  const discardEntry = async (id: string) => {
+    await removeQueuedEntry(id);
+    await refreshQueue();
+  };
+
+  return (
+    <OfflineQueueContext.Provider
+      value={{
+        isOnline,
+        isSyncing,
+        pendingEntries,
+        syncCount,
+        queueEntry,
+        syncNow,
+        retryEntry,
+        discardEntry
+      }}
+    >
+      {children}
+    </OfflineQueueContext.Provider>
+  );
+}
+
+export function useOfflineQueue() {
+  const context = useContext(OfflineQueueContext);
+  if (context === undefined) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider');
+  }
+  return context;
+}
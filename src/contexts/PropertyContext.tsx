@@ -0,0 +1,100 @@
+'use client';
+
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import type { Property } from '@/types/database.types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+
+// Query string parameter holding the selected property, so that a view of a
+// single chalet can be bookmarked and survives reloads
+export const PROPERTY_PARAM = 'property';
+
+interface PropertyContextType {
+  properties: Property[];
+  // null means all properties combined
+  selectedPropertyId: string | null;
+  selectProperty: (propertyId: string | null) => void;
+  refreshProperties: () => Promise<void>;
+  withProperty: (href: string) => string;
+  getPropertyName: (propertyId: string) => string;
+}
+
+const PropertyContext = createContext<PropertyContextType | undefined>(undefined);
+
+export function PropertyProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const { showError } = useToast();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const selectedPropertyId = searchParams.get(PROPERTY_PARAM);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const refreshProperties = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setProperties(data ?? []);
+    } catch (error) {
+      showError('Could not load your properties.', error, () => refreshProperties(), 'fetch-properties');
+    }
+  }, [supabase, showError]);
+
+  useEffect(() => {
+    if (user) {
+      refreshProperties();
+    } else {
+      setProperties([]);
+    }
+  }, [user, refreshProperties]);
+
+  const selectProperty = (propertyId: string | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (propertyId) {
+      params.set(PROPERTY_PARAM, propertyId);
+    } else {
+      params.delete(PROPERTY_PARAM);
+    }
+    const query = params.toString();
+    router.push(query ? `${pathname}?${query}` : pathname);
+  };
+
+  // Carry the selected property over to another page
+  const withProperty = (href: string) =>
+    selectedPropertyId ? `${href}?${PROPERTY_PARAM}=${encodeURIComponent(selectedPropertyId)}` : href;
+
+  const getPropertyName = (propertyId: string) =>
+    properties.find(property => property.id === propertyId)?.name ?? '';
+
+  return (
+    <PropertyContext.Provider
+      value={{
+        properties,
+        selectedPropertyId,
+        selectProperty,
+        refreshProperties,
+        withProperty,
+        getPropertyName
+      }}
+    >
+      {children}
+    </PropertyContext.Provider>
+  );
+}
+
+export function useProperty() {
+  const context = useContext(PropertyContext);
+  if (context === undefined) {
+    throw new Error('useProperty must be used within a PropertyProvider');
+  }
+  return context;
+}
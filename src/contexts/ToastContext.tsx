@@ -0,0 +1,81 @@
+'use client';
+
+import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import { isConnectionError } from '@/utils/errors';
+
+// Toasts beyond this are dropped, oldest first
+const MAX_TOASTS = 4;
+
+export type ToastTone = 'info' | 'error';
+
+export interface Toast {
+  id: string;
+  message: string;
+  tone: ToastTone;
+  action?: { label: string; onClick: () => void };
+}
+
+interface ToastContextType {
+  toasts: Toast[];
+  // A toast with the id of one already shown replaces it
+  showToast: (toast: Omit<Toast, 'id'> & { id?: string }) => void;
+  // Logs a failed action and tells the user. Connection failures offer to
+  // retry when given a way to.
+  showError: (message: string, error: unknown, retry?: () => void, id?: string) => void;
+  dismissToast: (id: string) => void;
+}
+
+const ToastContext = createContext<ToastContextType | undefined>(undefined);
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+
+  const dismissToast = useCallback((id: string) => {
+    setToasts(current => current.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((toast: Omit<Toast, 'id'> & { id?: string }) => {
+    const shown = { ...toast, id: toast.id ?? crypto.randomUUID() };
+    setToasts(current => [...current.filter(existing => existing.id !== shown.id), shown].slice(-MAX_TOASTS));
+  }, []);
+
+  const showError = useCallback((message: string, error: unknown, retry?: () => void, id?: string) => {
+    console.error(message, error);
+
+    const offline = isConnectionError(error);
+    const toastId = id ?? crypto.randomUUID();
+    showToast({
+      id: toastId,
+      tone: 'error',
+      message: offline ? `${message} Check your connection.` : message,
+      action: offline && retry
+        ? {
+            label: 'Retry',
+            onClick: () => {
+              dismissToast(toastId);
+              retry();
+            }
+          }
+        : undefined
+    });
+  }, [showToast, dismissToast]);
+
+  const value = useMemo(
+    () => ({ toasts, showToast, showError, dismissToast }),
+    [toasts, showToast, showError, dismissToast]
+  );
+
+  return (
+    <ToastContext.Provider value={value}>
+      {children}
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { LedgerTable } from '@/types/database.types';
+import { useProperty } from '@/contexts/PropertyContext';
+import { useCategories } from '@/hooks/useCategories';
+import { useGuests } from '@/hooks/useGuests';
+
+// Shows ids in audit snapshots by name, and empty values as a dash
+export function useAuditValueFormatter() {
+  const { getPropertyName } = useProperty();
+  const { getCategoryName: getIncomeCategoryName } = useCategories('income');
+  const { getCategoryName: getExpenseCategoryName } = useCategories('expense');
+  const { getGuest } = useGuests();
+
+  return useCallback((table: LedgerTable, field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return '—';
+
+    switch (field) {
+      case 'property_id':
+        return getPropertyName(String(value)) || 'Deleted property';
+      case 'category':
+        return table === 'income' ? getIncomeCategoryName(String(value)) : getExpenseCategoryName(String(value));
+      case 'guest_id':
+        return getGuest(String(value))?.name ?? 'Deleted guest';
+      default:
+        return String(value);
+    }
+  }, [getPropertyName, getIncomeCategoryName, getExpenseCategoryName, getGuest]);
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Budget } from '@/types/database.types';
+import { useToast } from '@/contexts/ToastContext';
+import { budgetPeriodRange, budgetStatuses, type BudgetedExpense, type BudgetStatus } from '@/utils/budgets';
+import { fetchAllRows } from '@/utils/ledgerFilters';
+
+// All of the user's budgets with what has been spent against each in its
+// current period
+export function useBudgets() {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [statuses, setStatuses] = useState<BudgetStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { showError } = useToast();
+
+  const supabase = getSupabaseBrowserClient();
+
+  // Resolves to the fresh statuses so callers can react to them straight away
+  const refreshBudgets = useCallback(async (): Promise<BudgetStatus[]> => {
+    try {
+      const { data, error } = await supabase
+        .from('budgets')
+        .select('*')
+        .order('category', { ascending: true });
+
+      if (error) throw error;
+
+      const budgetRows: Budget[] = data ?? [];
+      let expenses: BudgetedExpense[] = [];
+
+      if (budgetRows.length > 0) {
+        // One query covering the longest period in use
+        const ranges = budgetRows.map(budget => budgetPeriodRange(budget.period));
+        const startDate = ranges.map(range => range.startDate).sort()[0];
+        const endDate = ranges.map(range => range.endDate).sort().reverse()[0];
+
+        // Budgets are in rupees, so foreign entries count at their rupee
+        // value. A year of spending can run past one response, so it is
+        // read in chunks.
+        expenses = await fetchAllRows((from, to) => supabase
+          .from('expenses')
+          .select('date, amount:base_amount, category, property_id')
+          .gte('date', startDate)
+          .lte('date', endDate)
+          .order('id')
+          .range(from, to));
+      }
+
+      const fresh = budgetStatuses(budgetRows, expenses);
+      setBudgets(budgetRows);
+      setStatuses(fresh);
+      return fresh;
+    } catch (error) {
+      showError('Could not load budgets.', error, () => refreshBudgets(), 'fetch-budgets');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, showError]);
+
+  useEffect(() => {
+    refreshBudgets();
+  }, [refreshBudgets]);
+
+  return { budgets, statuses, isLoading, refreshBudgets };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Category, CategoryType } from '@/types/database.types';
+import { useToast } from '@/contexts/ToastContext';
+
+// Categories of one type, including archived ones so that older rows still
+// show their name. Forms should only offer the active ones.
+export function useCategories(type: CategoryType) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { showError } = useToast();
+
+  const supabase = getSupabaseBrowserClient();
+
+  const refreshCategories = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('type', type)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setCategories(data ?? []);
+    } catch (error) {
+      showError('Could not load categories.', error, () => refreshCategories(), `fetch-categories-${type}`);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, type, showError]);
+
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories]);
+
+  const activeCategories = useMemo(
+    () => categories.filter(category => !category.archived),
+    [categories]
+  );
+
+  const getCategoryName = useCallback(
+    (code: string) => categories.find(category => category.code === code)?.name ?? code,
+    [categories]
+  );
+
+  return { categories, activeCategories, isLoading, refreshCategories, getCategoryName };
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { ExchangeRate } from '@/types/database.types';
+import { useToast } from '@/contexts/ToastContext';
+import { findRate } from '@/utils/currency';
+
+// Stored exchange rates, newest first, for filling in the rate of new entries
+export function useExchangeRates() {
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const { showError } = useToast();
+
+  const supabase = getSupabaseBrowserClient();
+
+  const refreshRates = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .select('*')
+        .order('rate_date', { ascending: false });
+
+      if (error) throw error;
+
+      setRates(data ?? []);
+    } catch (error) {
+      showError('Could not load exchange rates.', error, () => refreshRates(), 'fetch-exchange-rates');
+    }
+  }, [supabase, showError]);
+
+  useEffect(() => {
+    refreshRates();
+  }, [refreshRates]);
+
+  const rateFor = useCallback(
+    (currency: string, date: string) => findRate(rates, currency, date)?.rate ?? null,
+    [rates]
+  );
+
+  return { rates, refreshRates, rateFor };
+}
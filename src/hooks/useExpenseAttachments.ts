@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { ExpenseAttachment } from '@/types/database.types';
+import { attachmentUrl, validateAttachment } from '@/utils/attachments';
+
+// Receipts attached to the user's expenses. Files go through
+// /api/attachments so the storage backend stays on the server.
+export function useExpenseAttachments() {
+  const [attachments, setAttachments] = useState<ExpenseAttachment[]>([]);
+
+  const supabase = getSupabaseBrowserClient();
+
+  const refreshAttachments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('expense_attachments')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setAttachments(data ?? []);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+    }
+  }, [supabase]);
+
+  useEffect(() => {
+    refreshAttachments();
+  }, [refreshAttachments]);
+
+  const attachmentsFor = useCallback(
+    (expenseId: string) => attachments.filter(attachment => attachment.expense_id === expenseId),
+    [attachments]
+  );
+
+  // Resolves to an error message, or null once every file is stored
+  const uploadAttachments = useCallback(async (expenseId: string, files: File[]) => {
+    const invalid = files.map(validateAttachment).find(Boolean);
+    if (invalid) return invalid;
+
+    const body = new FormData();
+    body.append('expenseId', expenseId);
+    files.forEach(file => body.append('files', file));
+
+    try {
+      const response = await fetch('/api/attachments', { method: 'POST', body });
+      const result = await response.json();
+
+      // A partial failure still returns the files stored before it
+      if (result.attachments) {
+        setAttachments(current => [...current, ...result.attachments]);
+      }
+      if (!response.ok) {
+        throw new Error(result.error ?? `Upload failed with status ${response.status}`);
+      }
+      return null;
+    } catch (error) {
+      console.error('Error uploading attachments:', error);
+      return error instanceof Error ? error.message : 'Failed to upload attachments';
+    }
+  }, []);
+
+  // Rejects when the server refuses or fails, so callers can stop and say so
+  const deleteAttachment = useCallback(async (attachment: ExpenseAttachment) => {
+    const response = await fetch(attachmentUrl(attachment), { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error ?? `Delete failed with status ${response.status}`);
+    }
+    setAttachments(current => current.filter(a => a.id !== attachment.id));
+  }, []);
+
+  // Deleting an expense cascades to its attachment rows but not to the
+  // stored files, so those are removed first. If any of them fails the
+  // expense must be kept, or its files would be left with nothing pointing
+  // at them.
+  const deleteAttachmentsFor = useCallback(
+    (expenseId: string) => Promise.all(attachmentsFor(expenseId).map(deleteAttachment)),
+    [attachmentsFor, deleteAttachment]
+  );
+
+  return { attachmentsFor, uploadAttachments, deleteAttachment, deleteAttachmentsFor };
+}
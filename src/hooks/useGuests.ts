@@ -0,0 +1,57 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getSupabaseBrowserClient } from '@/utils/supabaseBrowser';
+import type { Guest } from '@/types/database.types';
+import { useToast } from '@/contexts/ToastContext';
+
+// The guest directory, sorted by name
+export function useGuests() {
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { showError } = useToast();
+
+  const supabase = getSupabaseBrowserClient();
+
+  const refreshGuests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('guests')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setGuests(data ?? []);
+    } catch (error) {
+      showError('Could not load guests.', error, () => refreshGuests(), 'fetch-guests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [supabase, showError]);
+
+  useEffect(() => {
+    refreshGuests();
+  }, [refreshGuests]);
+
+  // Adds a guest and returns it, so a form can link to it straight away
+  const createGuest = useCallback(async (fields: Omit<Guest, 'id' | 'created_at'>) => {
+    const { data, error } = await supabase
+      .from('guests')
+      .insert([fields])
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    setGuests(current => [...current, data].sort((a, b) => a.name.localeCompare(b.name)));
+    return data as Guest;
+  }, [supabase]);
+
+  const getGuest = useCallback(
+    (id: string | null) => guests.find(guest => guest.id === id) ?? null,
+    [guests]
+  );
+
+  return { guests, isLoading, refreshGuests, createGuest, getGuest };
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  defaultAscending,
+  defaultLedgerFilters,
+  ledgerFilterParams,
+  parseLedgerFilters,
+  type LedgerFilters,
+  type LedgerSortField
+} from '@/utils/ledgerFilters';
+
+// Ledger table filters read from and written to the query string
+export function useLedgerFilters() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const queryString = searchParams.toString();
+
+  const filters = useMemo(() => parseLedgerFilters(new URLSearchParams(queryString)), [queryString]);
+
+  const navigate = useCallback((next: LedgerFilters) => {
+    const query = ledgerFilterParams(queryString, next).toString();
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  }, [router, pathname, queryString]);
+
+  // Any change other than the page goes back to the first page
+  const updateFilters = useCallback((changes: Partial<LedgerFilters>) => {
+    navigate({ ...filters, page: 1, ...changes });
+  }, [navigate, filters]);
+
+  // Clicking the sorted column again reverses it
+  const sortBy = useCallback((field: LedgerSortField) => {
+    updateFilters({
+      sort: field,
+      ascending: field === filters.sort ? !filters.ascending : defaultAscending(field)
+    });
+  }, [updateFilters, filters.sort, filters.ascending]);
+
+  const clearFilters = useCallback(() => {
+    navigate({ ...defaultLedgerFilters, sort: filters.sort, ascending: filters.ascending });
+  }, [navigate, filters.sort, filters.ascending]);
+
+  return { filters, updateFilters, sortBy, clearFilters };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export const UNDO_WINDOW_MS = 5000;
+
+// Holds back a delete for a short undo window. The item is only removed from
+// the database once the window has passed, when another delete is scheduled,
+// or when the page unmounts.
+export function useUndoableDelete<T>(
+  commitDelete: (item: T) => Promise<void>,
+  delayMs: number = UNDO_WINDOW_MS
+) {
+  const [pendingItem, setPendingItem] = useState<T | null>(null);
+  const pendingRef = useRef<T | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const commitRef = useRef(commitDelete);
+
+  useEffect(() => {
+    commitRef.current = commitDelete;
+  }, [commitDelete]);
+
+  const takePending = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const item = pendingRef.current;
+    pendingRef.current = null;
+    setPendingItem(null);
+    return item;
+  }, []);
+
+  const flush = useCallback(() => {
+    const item = takePending();
+    if (item !== null) {
+      commitRef.current(item);
+    }
+  }, [takePending]);
+
+  const scheduleDelete = useCallback((item: T) => {
+    flush();
+    pendingRef.current = item;
+    setPendingItem(item);
+    timerRef.current = setTimeout(flush, delayMs);
+  }, [flush, delayMs]);
+
+  // Returns the item whose delete was cancelled, if any
+  const undo = useCallback(() => takePending(), [takePending]);
+
+  useEffect(() => flush, [flush]);
+
+  return { pendingItem, scheduleDelete, undo };
+}
@@ -1,6 +1,8 @@
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import type { Database } from '@/types/database.types';
+import { activeMembership, canAccessRoute, fetchMemberships, homeRoute } from '@/utils/roles';
 
 export async function middleware(request: NextRequest) {
   const requestHeaders = new Headers(request.headers);
@@ -10,7 +12,7 @@ export async function middleware(request: NextRequest) {
     },
   });
 
-  const supabase = createServerClient(
+  const supabase = createServerClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
     {
@@ -39,7 +41,7 @@ export async function middleware(request: NextRequest) {
   const { data: { session } } = await supabase.auth.getSession();
 
   // Protected routes
-  const protectedRoutes = ['/dashboard', '/income', '/expenses'];
+  const protectedRoutes = ['/dashboard', '/income', '/expenses', '/bookings', '/guests', '/properties', '/settings', '/reports', '/audit'];
   const isProtectedRoute = protectedRoutes.some(route => 
     request.nextUrl.pathname.startsWith(route)
   );
@@ -55,9 +57,43 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/login', request.url));
   }
 
-  if (isAuthRoute && session) {
-    // Redirect to dashboard if accessing auth routes with session
-    return NextResponse.redirect(new URL('/dashboard', request.url));
+  // Pages and APIs that some roles may not use, besides the protected pages
+  const { pathname } = request.nextUrl;
+  const isRoleRoute = isProtectedRoute || pathname === '/'
+    || pathname.startsWith('/api/summary') || pathname.startsWith('/api/invitations')
+    || pathname.startsWith('/api/attachments');
+
+  if (session && (isAuthRoute || isRoleRoute)) {
+    const role = await fetchMemberships(supabase, session.user.id)
+      .then(memberships => activeMembership(memberships)?.role ?? null)
+      .catch(error => {
+        console.error('Error looking up workspace role:', error);
+        return null;
+      });
+
+    // Without a known role nothing limited by role is allowed
+    if (!role) {
+      if (isAuthRoute) return res;
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Could not check your role' }, { status: 503 });
+      }
+      return new NextResponse('Could not check your role. Reload the page to try again.', {
+        status: 503,
+        headers: { 'Content-Type': 'text/plain; charset=utf-8' }
+      });
+    }
+
+    if (isAuthRoute) {
+      // Redirect to the role's start page if accessing auth routes with session
+      return NextResponse.redirect(new URL(homeRoute(role), request.url));
+    }
+
+    if (!canAccessRoute(role, pathname)) {
+      if (pathname.startsWith('/api/')) {
+        return NextResponse.json({ error: 'Your role does not allow this' }, { status: 403 });
+      }
+      return NextResponse.redirect(new URL(homeRoute(role), request.url));
+    }
   }
 
   return res;
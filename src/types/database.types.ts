@@ -1,34 +1,397 @@
+import type { LedgerSummary } from '@/types/summary.types';
+
+export interface Property {
+  id: string;
+  created_at: string;
+  // Rows belong to a workspace; user_id is whoever recorded them
+  workspace_id: string;
+  user_id: string;
+  name: string;
+  location: string | null;
+}
+
 export interface Income {
   id: string;
   created_at: string;
+  workspace_id: string;
+  user_id: string;
+  property_id: string;
   date: string;
   amount: number;
   description: string;
   category: string;
+  // Set on rows created from a recurring schedule
+  schedule_id: string | null;
+  // Optional tax details; amount is gross, including gst_amount
+  gst_rate: number | null;
+  gst_amount: number | null;
+  tds_amount: number | null;
+  gstin: string | null;
+  // ISO 4217 code of amount; exchange_rate is rupees per unit on the entry date
+  currency: string;
+  exchange_rate: number;
+  // amount in rupees, computed by the database
+  base_amount: number;
+  guest_id: string | null;
+  // Set for accommodation income; check_out is computed by the database
+  check_in: string | null;
+  nights: number | null;
+  check_out: string | null;
 }
 
 export interface Expense {
   id: string;
   created_at: string;
+  workspace_id: string;
+  user_id: string;
+  property_id: string;
   date: string;
   amount: number;
   description: string;
   category: string;
+  // Set on rows created from a recurring schedule
+  schedule_id: string | null;
+  // Optional tax details; amount is gross, including gst_amount
+  gst_rate: number | null;
+  gst_amount: number | null;
+  tds_amount: number | null;
+  gstin: string | null;
+  // ISO 4217 code of amount; exchange_rate is rupees per unit on the entry date
+  currency: string;
+  exchange_rate: number;
+  // amount in rupees, computed by the database
+  base_amount: number;
+}
+
+// Columns that may be left out when inserting income or expenses. Entries
+// saved offline bring their own id, so replaying them cannot insert twice.
+type OptionalLedgerField = 'id' | 'schedule_id' | 'gst_rate' | 'gst_amount' | 'tds_amount' | 'gstin' | 'currency' | 'exchange_rate';
+type OptionalIncomeField = OptionalLedgerField | 'guest_id' | 'check_in' | 'nights';
+
+export interface Guest {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  // Employer or client for corporate stays
+  company: string | null;
+  notes: string | null;
+}
+
+export type Role = 'OWNER' | 'MANAGER' | 'CLEANER' | 'ACCOUNTANT';
+
+// Owns the ledgers; its members work in them with a role
+export interface Workspace {
+  id: string;
+  created_at: string;
+  name: string;
+  created_by: string | null;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  role: Role;
+  // The workspace the user is currently working in
+  is_active: boolean;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  email: string;
+  role: Exclude<Role, 'OWNER'>;
+  token_hash: string;
+  invited_by: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  accepted_by: string | null;
+}
+
+export type CategoryType = 'income' | 'expense';
+
+export interface Category {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  type: CategoryType;
+  // Stored in the category column of income and expense rows
+  code: string;
+  name: string;
+  color: string;
+  archived: boolean;
+}
+
+export type BookingStatus = 'PENDING' | 'CONFIRMED' | 'CANCELLED';
+
+export interface Booking {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  property_id: string;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  nightly_rate: number;
+  status: BookingStatus;
+  income_id: string | null;
+}
+
+export type LedgerTable = 'income' | 'expenses';
+
+export type RecurrenceInterval = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export interface RecurringSchedule {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  property_id: string;
+  ledger: LedgerTable;
+  amount: number;
+  description: string;
+  category: string;
+  interval: RecurrenceInterval;
+  start_date: string;
+  end_date: string | null;
+  // Latest occurrence already turned into a row
+  last_generated_date: string | null;
+}
+
+// Column mapping saved after a CSV import, keyed by the file's header row
+export interface ImportMapping {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  ledger: LedgerTable;
+  header_signature: string;
+  mapping: Record<string, string>;
+}
+
+export type BudgetPeriod = 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export interface Budget {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  // Null for a budget covering all properties
+  property_id: string | null;
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+}
+
+export interface ExchangeRate {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  currency: string;
+  rate_date: string;
+  // Rupees per unit of currency
+  rate: number;
 }
 
+export interface ExpenseAttachment {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  user_id: string;
+  expense_id: string;
+  file_name: string;
+  content_type: string;
+  size: number;
+  // Key of the file in the storage backend
+  storage_path: string;
+}
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// One change to an income or expense row, written by a database trigger
+export interface AuditEntry {
+  id: string;
+  created_at: string;
+  workspace_id: string;
+  // Null for changes made by server jobs
+  actor_id: string | null;
+  table_name: LedgerTable;
+  record_id: string;
+  action: AuditAction;
+  // The row before and after the change; old_data is null for inserts and
+  // new_data for deletes
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+}
+
+// The row interfaces as plain object types. supabase-js only types queries
+// for tables whose rows are assignable to Record<string, unknown>, which
+// interfaces are not.
+type Columns<T> = { [K in keyof T]: T[K] };
+
+// Shaped like the output of `supabase gen types`, so that the clients typed
+// with it check every table, column and function name
 export interface Database {
   public: {
     Tables: {
+      properties: {
+        Row: Columns<Property>;
+        Insert: Omit<Property, 'id' | 'created_at'>;
+        Update: Partial<Omit<Property, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
       income: {
-        Row: Income;
-        Insert: Omit<Income, 'id' | 'created_at'>;
-        Update: Partial<Omit<Income, 'id' | 'created_at'>>;
+        Row: Columns<Income>;
+        Insert: Omit<Income, 'id' | 'created_at' | 'base_amount' | 'check_out' | OptionalIncomeField> & Partial<Pick<Income, OptionalIncomeField>>;
+        Update: Partial<Omit<Income, 'id' | 'created_at' | 'base_amount' | 'check_out'>>;
+        Relationships: [];
       };
       expenses: {
-        Row: Expense;
-        Insert: Omit<Expense, 'id' | 'created_at'>;
-        Update: Partial<Omit<Expense, 'id' | 'created_at'>>;
+        Row: Columns<Expense>;
+        Insert: Omit<Expense, 'id' | 'created_at' | 'base_amount' | OptionalLedgerField> & Partial<Pick<Expense, OptionalLedgerField>>;
+        Update: Partial<Omit<Expense, 'id' | 'created_at' | 'base_amount'>>;
+        Relationships: [];
+      };
+      workspaces: {
+        Row: Columns<Workspace>;
+        Insert: Omit<Workspace, 'id' | 'created_at'>;
+        Update: Partial<Pick<Workspace, 'name'>>;
+        Relationships: [];
       };
+      workspace_members: {
+        Row: Columns<WorkspaceMember>;
+        Insert: never;
+        Update: Partial<Pick<WorkspaceMember, 'role'>>;
+        Relationships: [];
+      };
+      workspace_invitations: {
+        Row: Columns<WorkspaceInvitation>;
+        Insert: Omit<WorkspaceInvitation, 'id' | 'created_at' | 'invited_by' | 'expires_at' | 'accepted_at' | 'accepted_by'>;
+        Update: never;
+        Relationships: [];
+      };
+      guests: {
+        Row: Columns<Guest>;
+        Insert: Omit<Guest, 'id' | 'created_at'>;
+        Update: Partial<Omit<Guest, 'id' | 'created_at' | 'workspace_id' | 'user_id'>>;
+        Relationships: [];
+      };
+      bookings: {
+        Row: Columns<Booking>;
+        Insert: Omit<Booking, 'id' | 'created_at'>;
+        Update: Partial<Omit<Booking, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      categories: {
+        Row: Columns<Category>;
+        Insert: Omit<Category, 'id' | 'created_at'>;
+        Update: Partial<Omit<Category, 'id' | 'created_at' | 'workspace_id' | 'user_id' | 'type' | 'code'>>;
+        Relationships: [];
+      };
+      recurring_schedules: {
+        Row: Columns<RecurringSchedule>;
+        Insert: Omit<RecurringSchedule, 'id' | 'created_at' | 'last_generated_date'>;
+        Update: Partial<Omit<RecurringSchedule, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      import_mappings: {
+        Row: Columns<ImportMapping>;
+        Insert: Omit<ImportMapping, 'id' | 'created_at'>;
+        Update: Partial<Omit<ImportMapping, 'id' | 'created_at'>>;
+        Relationships: [];
+      };
+      budgets: {
+        Row: Columns<Budget>;
+        Insert: Omit<Budget, 'id' | 'created_at'>;
+        Update: Partial<Pick<Budget, 'amount'>>;
+        Relationships: [];
+      };
+      exchange_rates: {
+        Row: Columns<ExchangeRate>;
+        Insert: Omit<ExchangeRate, 'id' | 'created_at'>;
+        Update: Partial<Pick<ExchangeRate, 'rate'>>;
+        Relationships: [];
+      };
+      audit_log: {
+        Row: Columns<AuditEntry>;
+        Insert: never;
+        Update: never;
+        Relationships: [];
+      };
+      expense_attachments: {
+        Row: Columns<ExpenseAttachment>;
+        Insert: Omit<ExpenseAttachment, 'id' | 'created_at'>;
+        Update: never;
+        Relationships: [];
+      };
+    };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      ledger_summary: {
+        Args: { start_date?: string | null; end_date?: string | null; target_property_id?: string | null };
+        Returns: Pick<LedgerSummary, 'totalIncome' | 'totalExpenses' | 'monthlyData' | 'propertyBreakdown' | 'categoryBreakdown'>;
+      };
+      ledger_total: {
+        Args: {
+          ledger: LedgerTable;
+          target_property_id?: string | null;
+          search?: string | null;
+          target_category?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          start_date?: string | null;
+          end_date?: string | null;
+        };
+        Returns: number;
+      };
+      // Emails of the active workspace's members, and of everyone in its history
+      workspace_member_emails: {
+        Args: Record<string, never>;
+        Returns: { user_id: string; email: string }[];
+      };
+      audit_actor_emails: {
+        Args: Record<string, never>;
+        Returns: { user_id: string; email: string }[];
+      };
+      invitation_details: {
+        Args: { invite_token: string };
+        Returns: {
+          workspace_name: string;
+          email: string;
+          role: Exclude<Role, 'OWNER'>;
+          status: 'PENDING' | 'ACCEPTED' | 'EXPIRED';
+        }[];
+      };
+      // Both return the id of the workspace joined
+      accept_invitation: {
+        Args: { invite_token: string };
+        Returns: string;
+      };
+      join_workspace: {
+        Args: { invite_token: string; joining_user_id: string };
+        Returns: string;
+      };
+      switch_workspace: {
+        Args: { target_workspace_id: string };
+        Returns: undefined;
+      };
+    };
+    Enums: {
+      [_ in never]: never;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
     };
   };
-} 
\ No newline at end of file
+}
\ No newline at end of file
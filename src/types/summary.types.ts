@@ -0,0 +1,50 @@
+export interface Transaction {
+  id: string;
+  date: string;
+  type: 'INCOME' | 'EXPENSE';
+  amount: number;
+  description: string;
+}
+
+export interface MonthlyTotal {
+  month: string;
+  income: number;
+  expenses: number;
+}
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+}
+
+export interface PropertyTotal {
+  propertyId: string;
+  income: number;
+  expenses: number;
+}
+
+// Accommodation figures for the range. Rates are fractions (0.5 is 50%);
+// ADR and RevPAR are in rupees.
+export interface OccupancyKpis {
+  nightsAvailable: number;
+  nightsSold: number;
+  roomRevenue: number;
+  occupancyRate: number;
+  adr: number;
+  revpar: number;
+}
+
+// Response of GET /api/summary
+export interface LedgerSummary {
+  totalIncome: number;
+  totalExpenses: number;
+  netProfit: number;
+  recentTransactions: Transaction[];
+  monthlyData: MonthlyTotal[];
+  propertyBreakdown: PropertyTotal[];
+  categoryBreakdown: {
+    income: CategoryTotal[];
+    expenses: CategoryTotal[];
+  };
+  occupancy: OccupancyKpis;
+}
@@ -0,0 +1,36 @@
+import type { ExpenseAttachment } from '@/types/database.types';
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+export const isImageAttachment = (attachment: Pick<ExpenseAttachment, 'content_type'>) =>
+  attachment.content_type.startsWith('image/');
+
+// Reason a file can't be attached, or null when it is fine
+export const validateAttachment = (file: { name: string; type: string; size: number }) => {
+  if (!ACCEPTED_ATTACHMENT_TYPES.includes(file.type)) {
+    return `${file.name}: only photos and PDFs can be attached`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+// <workspace>/<expense>/<random>-<name>; the leading workspace folder is
+// what the storage policies check
+export const attachmentKey = (workspaceId: string, expenseId: string, fileName: string) => {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').slice(-100);
+  return `${workspaceId}/${expenseId}/${crypto.randomUUID()}-${safeName}`;
+};
+
+export const attachmentUrl = (attachment: Pick<ExpenseAttachment, 'id'>) => `/api/attachments/${attachment.id}`;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+};
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuditAction, AuditEntry, Database, LedgerTable } from '@/types/database.types';
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Changed',
+  DELETE: 'Deleted'
+};
+
+export const auditTableLabels: Record<LedgerTable, string> = {
+  income: 'Income',
+  expenses: 'Expense'
+};
+
+// Bookkeeping columns, and ones the database computes from the others
+const hiddenFields = new Set([
+  'id', 'created_at', 'workspace_id', 'user_id', 'base_amount', 'check_out', 'description_search'
+]);
+
+const fieldLabels: Record<string, string> = {
+  property_id: 'Property',
+  guest_id: 'Guest',
+  schedule_id: 'Recurring schedule',
+  gst_rate: 'GST rate',
+  gst_amount: 'GST',
+  tds_amount: 'TDS',
+  gstin: 'GSTIN',
+  exchange_rate: 'Exchange rate',
+  check_in: 'Check-in'
+};
+
+export const auditFieldLabel = (field: string) =>
+  fieldLabels[field] ?? field.charAt(0).toUpperCase() + field.slice(1).replace(/_/g, ' ');
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// The fields that differ between the snapshots. For inserts and deletes
+// that is every field that has a value.
+export const auditChanges = (entry: Pick<AuditEntry, 'old_data' | 'new_data'>): AuditChange[] => {
+  const before = entry.old_data ?? {};
+  const after = entry.new_data ?? {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields]
+    .filter(field => !hiddenFields.has(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+// The entry's date and description, to tell rows apart in a mixed list
+export const auditSubject = (entry: Pick<AuditEntry, 'old_data' | 'new_data'>) => {
+  const data = entry.new_data ?? entry.old_data ?? {};
+  return [data.date, data.description].filter(Boolean).join(' ');
+};
+
+// Keyed by user id; covers people who have since left the workspace
+export const fetchAuditActors = async (supabase: SupabaseClient<Database>): Promise<Record<string, string>> => {
+  const { data, error } = await supabase.rpc('audit_actor_emails');
+  if (error) throw error;
+  return Object.fromEntries(
+    (data ?? []).map(row => [row.user_id, row.email])
+  );
+};
+
+export const auditActorName = (actors: Record<string, string>, actorId: string | null) =>
+  actorId ? actors[actorId] ?? 'Unknown user' : 'Automatic';
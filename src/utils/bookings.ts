@@ -0,0 +1,83 @@
+import type { Booking } from '@/types/database.types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Parse a YYYY-MM-DD string as a UTC midnight timestamp so that day
+// arithmetic is not affected by the browser's timezone
+const toUtcTime = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export const formatDateKey = (year: number, month: number, day: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+// Number of nights between check-in and check-out (check-out day is not a night)
+export const countNights = (checkIn: string, checkOut: string) =>
+  Math.max(0, Math.round((toUtcTime(checkOut) - toUtcTime(checkIn)) / MS_PER_DAY));
+
+export const bookingTotal = (booking: Pick<Booking, 'check_in' | 'check_out' | 'nightly_rate'>) =>
+  Number((countNights(booking.check_in, booking.check_out) * booking.nightly_rate).toFixed(2));
+
+// Two stays overlap when one starts before the other ends. A guest checking
+// in on the day another checks out is not a conflict.
+export const bookingsOverlap = (
+  a: Pick<Booking, 'check_in' | 'check_out'>,
+  b: Pick<Booking, 'check_in' | 'check_out'>
+) => a.check_in < b.check_out && b.check_in < a.check_out;
+
+export const findOverlappingBooking = (
+  bookings: Booking[],
+  candidate: Pick<Booking, 'property_id' | 'check_in' | 'check_out'> & { id?: string }
+) =>
+  bookings.find(booking =>
+    booking.status !== 'CANCELLED' &&
+    booking.id !== candidate.id &&
+    booking.property_id === candidate.property_id &&
+    bookingsOverlap(booking, candidate)
+  );
+
+// Bookings occupying the night of the given date
+export const bookingsForDate = (bookings: Booking[], date: string) =>
+  bookings.filter(booking =>
+    booking.status !== 'CANCELLED' &&
+    booking.check_in <= date &&
+    date < booking.check_out
+  );
+
+// Weeks of the month as rows of day numbers, padded with null so that every
+// row starts on Monday
+export const getMonthGrid = (year: number, month: number) => {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const firstWeekday = (new Date(Date.UTC(year, month, 1)).getUTCDay() + 6) % 7;
+
+  const cells: (number | null)[] = [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1)
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  const weeks: (number | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+  return weeks;
+};
+
+// The income row recorded when a booking is confirmed. It takes the
+// booking's id, so confirming again after a failed attempt finds the row
+// already there instead of counting the stay twice.
+export const incomeFromBooking = (booking: Booking) => ({
+  id: booking.id,
+  workspace_id: booking.workspace_id,
+  user_id: booking.user_id,
+  property_id: booking.property_id,
+  date: booking.check_in,
+  amount: bookingTotal(booking),
+  description: `Booking: ${booking.guest_name} (${booking.check_in} to ${booking.check_out})`,
+  category: 'RENTAL',
+  check_in: booking.check_in,
+  nights: countNights(booking.check_in, booking.check_out)
+});
@@ -0,0 +1,66 @@
+import type { Budget, BudgetPeriod, Expense } from '@/types/database.types';
+import { addDays, addMonths, getDateRangePreset, type DateRangePreset } from '@/utils/dates';
+
+export type BudgetedExpense = Pick<Expense, 'date' | 'amount' | 'category' | 'property_id'>;
+
+export interface BudgetStatus {
+  budget: Budget;
+  startDate: string;
+  endDate: string;
+  spent: number;
+  remaining: number;
+  // Share of the budget used so far; above 1 means overspent
+  usage: number;
+}
+
+export const budgetPeriodLabels: Record<BudgetPeriod, string> = {
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly'
+};
+
+const budgetPeriodPresets: Record<BudgetPeriod, { preset: DateRangePreset; months: number }> = {
+  MONTHLY: { preset: 'thisMonth', months: 1 },
+  QUARTERLY: { preset: 'thisQuarter', months: 3 },
+  YEARLY: { preset: 'thisYear', months: 12 }
+};
+
+// The current month, quarter or year in full. The start comes from the
+// dashboard presets; the end runs to the last day of the period so that
+// entries dated later in the period still count.
+export const budgetPeriodRange = (period: BudgetPeriod) => {
+  const { preset, months } = budgetPeriodPresets[period];
+  const { startDate } = getDateRangePreset(preset);
+  return { startDate, endDate: addDays(addMonths(startDate, months), -1) };
+};
+
+export const budgetApplies = (budget: Budget, expense: BudgetedExpense) =>
+  budget.category === expense.category &&
+  (budget.property_id === null || budget.property_id === expense.property_id);
+
+export const budgetStatuses = (budgets: Budget[], expenses: BudgetedExpense[]): BudgetStatus[] =>
+  budgets.map(budget => {
+    const { startDate, endDate } = budgetPeriodRange(budget.period);
+    const spent = expenses
+      .filter(expense => expense.date >= startDate && expense.date <= endDate && budgetApplies(budget, expense))
+      .reduce((sum, expense) => sum + expense.amount, 0);
+
+    return {
+      budget,
+      startDate,
+      endDate,
+      spent,
+      remaining: budget.amount - spent,
+      usage: spent / budget.amount
+    };
+  });
+
+// Budgets that the given expense took from within to over the limit
+export const budgetsPushedOver = (statuses: BudgetStatus[], expense: BudgetedExpense) =>
+  statuses.filter(status =>
+    budgetApplies(status.budget, expense) &&
+    expense.date >= status.startDate &&
+    expense.date <= status.endDate &&
+    status.spent > status.budget.amount &&
+    status.spent - expense.amount <= status.budget.amount
+  );
@@ -0,0 +1,168 @@
+import { today } from '@/utils/dates';
+import { validateLedgerEntry } from '@/utils/validation';
+
+export const importFields = ['date', 'amount', 'description', 'category'] as const;
+
+export type ImportField = typeof importFields[number];
+
+// Header of the CSV column used for each field, or '' when not mapped
+export type ColumnMapping = Record<ImportField, string>;
+
+export interface ImportedEntry {
+  date: string;
+  amount: number;
+  description: string;
+  category: string;
+}
+
+export interface ImportPreviewRow {
+  // Line number in the file, counting the header as line 1
+  line: number;
+  entry: ImportedEntry | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+const fieldKeywords: Record<ImportField, string[]> = {
+  date: ['date', 'txn date', 'transaction date', 'value date', 'payout date'],
+  amount: ['amount', 'debit', 'withdrawal', 'credit', 'deposit', 'payout'],
+  description: ['description', 'narration', 'particulars', 'details', 'remarks', 'reference'],
+  category: ['category', 'type']
+};
+
+const normaliseHeader = (header: string) => header.trim().toLowerCase();
+
+// Identifies a file layout so a saved mapping can be found again next month
+export const headerSignature = (headers: string[]) =>
+  headers.map(normaliseHeader).join(',');
+
+// Pick the first column whose header looks like each field
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { date: '', amount: '', description: '', category: '' };
+  const used = new Set<string>();
+
+  importFields.forEach(field => {
+    const match = headers.find(header =>
+      !used.has(header) &&
+      fieldKeywords[field].some(keyword => normaliseHeader(header).includes(keyword))
+    );
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+};
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// Accepts ISO dates and the day-first formats Indian banks export
+// (DD/MM/YYYY, DD-MM-YYYY, DD.MM.YYYY and two-digit years)
+export const parseImportDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (dayFirst) {
+    day = Number(dayFirst[1]);
+    month = Number(dayFirst[2]);
+    year = Number(dayFirst[3]);
+    if (dayFirst[3].length === 2) {
+      year += 2000;
+    }
+  } else {
+    return null;
+  }
+
+  if (!isValidDate(year, month, day)) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Strips currency symbols and thousands separators. Bank statements show
+// money going out as negative, "(1,200.00)" or "1,200.00 Dr", so the sign is
+// dropped: the ledger the file is imported into decides the direction.
+export const parseImportAmount = (value: string): number | null => {
+  const cleaned = value
+    .replace(/rs\.?|inr|₹|dr|cr/gi, '')
+    .replace(/[,\s()]/g, '')
+    .replace(/^-/, '');
+
+  if (cleaned === '' || !/^\d+(\.\d+)?$/.test(cleaned)) {
+    return null;
+  }
+  return Number(Number(cleaned).toFixed(2));
+};
+
+export const duplicateKey = (entry: Pick<ImportedEntry, 'date' | 'amount' | 'description'>) =>
+  `${entry.date}|${entry.amount.toFixed(2)}|${entry.description.trim().toLowerCase()}`;
+
+export const buildImportPreview = (
+  headers: string[],
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: {
+    categories: string[];
+    defaultCategory: string;
+    existing: Pick<ImportedEntry, 'date' | 'amount' | 'description'>[];
+  }
+): ImportPreviewRow[] => {
+  const seen = new Set(options.existing.map(duplicateKey));
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field] ? headers.indexOf(mapping[field]) : -1;
+    return index >= 0 ? (row[index] ?? '').trim() : '';
+  };
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+
+    const date = parseImportDate(cell(row, 'date'));
+    if (!date) {
+      errors.push(`Invalid date "${cell(row, 'date')}"`);
+    }
+
+    const amount = parseImportAmount(cell(row, 'amount'));
+    if (amount === null) {
+      errors.push(`Invalid amount "${cell(row, 'amount')}"`);
+    }
+
+    const description = cell(row, 'description');
+
+    const rawCategory = cell(row, 'category').toUpperCase();
+    const category = rawCategory || options.defaultCategory;
+    if (!options.categories.includes(category)) {
+      errors.push(`Unknown category "${rawCategory}"`);
+    }
+
+    // The same rules as the entry form, for the cells that could be read
+    const ruleErrors = validateLedgerEntry(
+      { date: date ?? '', amount: amount ?? NaN, description, category },
+      { today: today() }
+    );
+    if (date && ruleErrors.date) errors.push(ruleErrors.date);
+    if (amount !== null && ruleErrors.amount) errors.push(ruleErrors.amount);
+    if (ruleErrors.description) errors.push(ruleErrors.description);
+
+    if (errors.length > 0 || !date || amount === null) {
+      return { line: index + 2, entry: null, errors, duplicate: false };
+    }
+
+    const entry = { date, amount, description, category };
+    const key = duplicateKey(entry);
+    const duplicate = seen.has(key);
+    seen.add(key);
+
+    return { line: index + 2, entry, errors, duplicate };
+  });
+};
@@ -0,0 +1,72 @@
+import type { ExchangeRate } from '@/types/database.types';
+import { formatCurrency } from '@/utils/formatters';
+import { parseCsv } from '@/utils/csv';
+import { parseImportDate } from '@/utils/csvImport';
+
+// Totals, budgets and reports are all kept in this currency
+export const BASE_CURRENCY = 'INR';
+
+// Offered in the forms; rates can be stored for any ISO 4217 code
+export const CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'AED', 'AUD', 'CAD', 'CHF', 'SGD', 'JPY'];
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+// Rupee amounts keep the "Rs." label used across the app
+export const formatMoney = (amount: number, currency: string) =>
+  currency === BASE_CURRENCY ? `Rs. ${formatCurrency(amount)}` : `${currency} ${formatCurrency(amount)}`;
+
+export const toBaseAmount = (amount: number, exchangeRate: number) =>
+  Math.round(amount * exchangeRate * 100) / 100;
+
+// Most recent rate on or before the date, since weekends and holidays have
+// no rate of their own
+export const findRate = (rates: ExchangeRate[], currency: string, date: string) =>
+  rates
+    .filter(rate => rate.currency === currency && rate.rate_date <= date)
+    .reduce<ExchangeRate | null>((latest, rate) => (!latest || rate.rate_date > latest.rate_date ? rate : latest), null);
+
+export interface ParsedRate {
+  currency: string;
+  rate_date: string;
+  rate: number;
+}
+
+// Reads a rates file with date, currency and rate columns in any order,
+// identified by the header row
+export const parseRatesCsv = (text: string) => {
+  const [header = [], ...body] = parseCsv(text).filter(row => row.some(cell => cell.trim() !== ''));
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  // An exact header wins over one that merely contains the name
+  const findColumn = (name: string) =>
+    columns.includes(name) ? columns.indexOf(name) : columns.findIndex(column => column.includes(name));
+  const dateColumn = findColumn('date');
+  const currencyColumn = findColumn('currency');
+  const rateColumn = findColumn('rate');
+
+  if (dateColumn < 0 || currencyColumn < 0 || rateColumn < 0) {
+    return { rates: [] as ParsedRate[], errors: ['The file needs date, currency and rate columns'] };
+  }
+
+  // Keyed by currency and date; a later line for the same day wins
+  const rates = new Map<string, ParsedRate>();
+  const errors: string[] = [];
+
+  body.forEach((row, i) => {
+    const line = i + 2;
+    const date = parseImportDate(row[dateColumn] ?? '');
+    const currency = (row[currencyColumn] ?? '').trim().toUpperCase();
+    const rate = parseFloat((row[rateColumn] ?? '').replace(/,/g, ''));
+
+    if (!date) {
+      errors.push(`Line ${line}: unrecognised date`);
+    } else if (!CURRENCY_PATTERN.test(currency) || currency === BASE_CURRENCY) {
+      errors.push(`Line ${line}: ${currency || 'missing'} is not a foreign currency code`);
+    } else if (!(rate > 0)) {
+      errors.push(`Line ${line}: rate must be a positive number`);
+    } else {
+      rates.set(`${currency}|${date}`, { currency, rate_date: date, rate });
+    }
+  });
+
+  return { rates: Array.from(rates.values()), errors };
+};
@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  financialQuarterRange,
+  financialYearLabel,
+  financialYearMonths,
+  financialYearOf,
+  financialYearRange,
+  getDateRangePreset,
+  previousPeriod,
+  samePeriodLastYear,
+  today
+} from '@/utils/dates';
+
+// The tests run on Indian time (see vitest.config.ts), so these are moments
+// on the users' own clock
+const at = (dateTime: string) => new Date(`${dateTime}+05:30`);
+
+describe('today', () => {
+  it('gives the local date while the UTC date is still yesterday', () => {
+    const now = at('2026-10-18T01:30:00');
+    expect(now.toISOString().split('T')[0]).toBe('2026-10-17');
+    expect(today(now)).toBe('2026-10-18');
+  });
+
+  it('changes date at local midnight', () => {
+    expect(today(at('2026-10-17T23:59:59'))).toBe('2026-10-17');
+    expect(today(at('2026-10-18T00:00:00'))).toBe('2026-10-18');
+    expect(today(at('2026-10-18T05:30:00'))).toBe('2026-10-18');
+  });
+});
+
+describe('samePeriodLastYear', () => {
+  it('moves a partial range back a year', () => {
+    expect(samePeriodLastYear({ startDate: '2026-10-01', endDate: '2026-10-18' }))
+      .toEqual({ startDate: '2025-10-01', endDate: '2025-10-18' });
+  });
+
+  it('compares a leap February with the whole of the previous February', () => {
+    expect(samePeriodLastYear({ startDate: '2024-02-01', endDate: '2024-02-29' }))
+      .toEqual({ startDate: '2023-02-01', endDate: '2023-02-28' });
+  });
+
+  it('compares February with the whole of a leap February', () => {
+    expect(samePeriodLastYear({ startDate: '2025-02-01', endDate: '2025-02-28' }))
+      .toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+  });
+
+  it('keeps a range ending on the last day of a month at the month end', () => {
+    expect(samePeriodLastYear({ startDate: '2026-04-01', endDate: '2026-09-30' }))
+      .toEqual({ startDate: '2025-04-01', endDate: '2025-09-30' });
+  });
+
+  it('moves 29 February to 28 February', () => {
+    expect(samePeriodLastYear({ startDate: '2024-02-29', endDate: '2024-03-10' }))
+      .toEqual({ startDate: '2023-02-28', endDate: '2023-03-10' });
+  });
+
+  it('does not treat 28 February of a leap year as the month end', () => {
+    expect(samePeriodLastYear({ startDate: '2024-02-01', endDate: '2024-02-28' }))
+      .toEqual({ startDate: '2023-02-01', endDate: '2023-02-28' });
+  });
+});
+
+describe('previousPeriod', () => {
+  it('steps a whole month back to the previous month', () => {
+    expect(previousPeriod({ startDate: '2026-03-01', endDate: '2026-03-31' }))
+      .toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+  });
+
+  it('steps a leap February back to January', () => {
+    expect(previousPeriod({ startDate: '2024-02-01', endDate: '2024-02-29' }))
+      .toEqual({ startDate: '2024-01-01', endDate: '2024-01-31' });
+  });
+
+  it('steps a quarter back to the previous quarter', () => {
+    expect(previousPeriod({ startDate: '2026-04-01', endDate: '2026-06-30' }))
+      .toEqual({ startDate: '2026-01-01', endDate: '2026-03-31' });
+  });
+
+  it('steps a financial year back to the previous one', () => {
+    expect(previousPeriod({ startDate: '2026-04-01', endDate: '2027-03-31' }))
+      .toEqual({ startDate: '2025-04-01', endDate: '2026-03-31' });
+  });
+
+  it('takes the same number of days before a partial range', () => {
+    expect(previousPeriod({ startDate: '2026-10-01', endDate: '2026-10-18' }))
+      .toEqual({ startDate: '2026-09-13', endDate: '2026-09-30' });
+  });
+
+  it('counts days across a month end', () => {
+    expect(previousPeriod({ startDate: '2026-03-10', endDate: '2026-03-19' }))
+      .toEqual({ startDate: '2026-02-28', endDate: '2026-03-09' });
+  });
+
+  it('steps a single day back to the day before', () => {
+    expect(previousPeriod({ startDate: '2026-10-18', endDate: '2026-10-18' }))
+      .toEqual({ startDate: '2026-10-17', endDate: '2026-10-17' });
+  });
+});
+
+describe('financial years', () => {
+  it('puts 31 March in the year that started the April before', () => {
+    expect(financialYearOf('2026-03-31')).toBe(2025);
+    expect(financialYearOf('2026-01-01')).toBe(2025);
+  });
+
+  it('starts a new year on 1 April', () => {
+    expect(financialYearOf('2026-04-01')).toBe(2026);
+    expect(financialYearOf('2026-12-31')).toBe(2026);
+  });
+
+  it('runs from 1 April to 31 March', () => {
+    expect(financialYearRange(2025)).toEqual({ startDate: '2025-04-01', endDate: '2026-03-31' });
+  });
+
+  it('is labelled by both years', () => {
+    expect(financialYearLabel(2026)).toBe('FY 2026-27');
+    expect(financialYearLabel(2099)).toBe('FY 2099-00');
+  });
+
+  it('lists its months from April to March', () => {
+    const months = financialYearMonths(2026);
+    expect(months).toHaveLength(12);
+    expect(months[0]).toBe('2026-04');
+    expect(months[11]).toBe('2027-03');
+  });
+});
+
+describe('financialQuarterRange', () => {
+  it('starts Q1 in April', () => {
+    expect(financialQuarterRange(2026, 1)).toEqual({ startDate: '2026-04-01', endDate: '2026-06-30' });
+  });
+
+  it('covers July to September and October to December', () => {
+    expect(financialQuarterRange(2026, 2)).toEqual({ startDate: '2026-07-01', endDate: '2026-09-30' });
+    expect(financialQuarterRange(2026, 3)).toEqual({ startDate: '2026-10-01', endDate: '2026-12-31' });
+  });
+
+  it('puts Q4 in the next calendar year', () => {
+    expect(financialQuarterRange(2026, 4)).toEqual({ startDate: '2027-01-01', endDate: '2027-03-31' });
+  });
+});
+
+describe('getDateRangePreset', () => {
+  const now = at('2026-10-18T12:00:00');
+
+  it.each([
+    ['thisMonth', '2026-10-01', '2026-10-18'],
+    ['lastMonth', '2026-09-01', '2026-09-30'],
+    ['last3Months', '2026-07-18', '2026-10-18'],
+    ['thisQuarter', '2026-10-01', '2026-10-18'],
+    ['lastQuarter', '2026-07-01', '2026-09-30'],
+    ['thisYear', '2026-01-01', '2026-10-18'],
+    ['thisFinancialYear', '2026-04-01', '2026-10-18'],
+    ['lastFinancialYear', '2025-04-01', '2026-03-31']
+  ] as const)('%s runs from %s to %s', (preset, startDate, endDate) => {
+    expect(getDateRangePreset(preset, now)).toEqual({ startDate, endDate });
+  });
+
+  it('ends last month on its last day', () => {
+    expect(getDateRangePreset('lastMonth', at('2026-03-31T12:00:00')))
+      .toEqual({ startDate: '2026-02-01', endDate: '2026-02-28' });
+    expect(getDateRangePreset('lastMonth', at('2024-03-15T12:00:00')))
+      .toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+  });
+
+  it('reaches back into the previous year in January', () => {
+    const january = at('2027-01-15T12:00:00');
+    expect(getDateRangePreset('lastMonth', january)).toEqual({ startDate: '2026-12-01', endDate: '2026-12-31' });
+    expect(getDateRangePreset('lastQuarter', january)).toEqual({ startDate: '2026-10-01', endDate: '2026-12-31' });
+  });
+
+  it('starts the last 3 months on the last day of a shorter month', () => {
+    expect(getDateRangePreset('last3Months', at('2026-05-31T12:00:00')))
+      .toEqual({ startDate: '2026-02-28', endDate: '2026-05-31' });
+  });
+
+  it('switches financial year on 1 April', () => {
+    const lastDay = at('2026-03-31T12:00:00');
+    expect(getDateRangePreset('thisFinancialYear', lastDay)).toEqual({ startDate: '2025-04-01', endDate: '2026-03-31' });
+    expect(getDateRangePreset('lastFinancialYear', lastDay)).toEqual({ startDate: '2024-04-01', endDate: '2025-03-31' });
+
+    const firstDay = at('2026-04-01T12:00:00');
+    expect(getDateRangePreset('thisFinancialYear', firstDay)).toEqual({ startDate: '2026-04-01', endDate: '2026-04-01' });
+    expect(getDateRangePreset('lastFinancialYear', firstDay)).toEqual({ startDate: '2025-04-01', endDate: '2026-03-31' });
+  });
+
+  it('starts the new financial year just after midnight, while UTC is still in March', () => {
+    expect(getDateRangePreset('thisFinancialYear', at('2026-04-01T00:30:00')))
+      .toEqual({ startDate: '2026-04-01', endDate: '2026-04-01' });
+  });
+});
@@ -0,0 +1,148 @@
+// Calendar dates are handled as YYYY-MM-DD strings. Arithmetic goes through
+// UTC so that the browser's timezone can never shift the day.
+
+export const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+export const daysInMonth = (year: number, monthIndex: number) =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+export const addDays = (date: string, days: number) => {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+};
+
+// Adds calendar months, keeping the day of month where possible and using
+// the last day of shorter months (31 Jan + 1 month = 28 or 29 Feb)
+export const addMonths = (date: string, months: number, dayOfMonth?: number) => {
+  const start = parseDate(date);
+  const target = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+  const day = Math.min(
+    dayOfMonth ?? start.getUTCDate(),
+    daysInMonth(target.getUTCFullYear(), target.getUTCMonth())
+  );
+  target.setUTCDate(day);
+  return formatDate(target);
+};
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+}
+
+// Today's date on the user's own calendar. toISOString would give the UTC
+// date, which in India is still yesterday until 05:30.
+export const today = (now: Date = new Date()) =>
+  [now.getFullYear(), now.getMonth() + 1, now.getDate()]
+    .map((part, i) => String(part).padStart(i === 0 ? 4 : 2, '0'))
+    .join('-');
+
+const startOfMonth = (date: string) => `${date.slice(0, 7)}-01`;
+
+const endOfMonth = (date: string) => addDays(addMonths(startOfMonth(date), 1), -1);
+
+// Calendar quarters: Jan-Mar, Apr-Jun, Jul-Sep, Oct-Dec
+const startOfQuarter = (date: string) => {
+  const month = parseDate(date).getUTCMonth();
+  return addMonths(startOfMonth(date), -(month % 3));
+};
+
+const daysBetween = (startDate: string, endDate: string) =>
+  Math.round((parseDate(endDate).getTime() - parseDate(startDate).getTime()) / 86400000);
+
+// Indian financial years run April to March and are named by their first
+// year, so 2026 is FY 2026-27
+export const financialYearOf = (date: string) => {
+  const parsed = parseDate(date);
+  return parsed.getUTCMonth() >= 3 ? parsed.getUTCFullYear() : parsed.getUTCFullYear() - 1;
+};
+
+export const financialYearRange = (startYear: number): DateRange => ({
+  startDate: `${startYear}-04-01`,
+  endDate: `${startYear + 1}-03-31`
+});
+
+export const financialYearLabel = (startYear: number) =>
+  `FY ${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+
+// April first, as the months of a financial year appear in returns
+export const financialYearMonths = (startYear: number) =>
+  Array.from({ length: 12 }, (_, i) => addMonths(`${startYear}-04-01`, i).slice(0, 7));
+
+// Q1 is April to June, Q4 January to March
+export const financialQuarterRange = (startYear: number, quarter: 1 | 2 | 3 | 4): DateRange => {
+  const startDate = addMonths(`${startYear}-04-01`, (quarter - 1) * 3);
+  return { startDate, endDate: addDays(addMonths(startDate, 3), -1) };
+};
+
+export type DateRangePreset =
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'last3Months'
+  | 'thisQuarter'
+  | 'lastQuarter'
+  | 'thisYear'
+  | 'thisFinancialYear'
+  | 'lastFinancialYear';
+
+// Dashboard quick ranges. Periods still in progress end today; finished
+// ones cover the whole period.
+export const getDateRangePreset = (preset: DateRangePreset, now: Date = new Date()): DateRange => {
+  const endDate = today(now);
+
+  switch (preset) {
+    case 'thisMonth':
+      return { startDate: startOfMonth(endDate), endDate };
+    case 'lastMonth': {
+      const startDate = addMonths(startOfMonth(endDate), -1);
+      return { startDate, endDate: endOfMonth(startDate) };
+    }
+    case 'last3Months':
+      return { startDate: addMonths(endDate, -3), endDate };
+    case 'thisQuarter':
+      return { startDate: startOfQuarter(endDate), endDate };
+    case 'lastQuarter': {
+      const startDate = addMonths(startOfQuarter(endDate), -3);
+      return { startDate, endDate: addDays(addMonths(startDate, 3), -1) };
+    }
+    case 'thisYear':
+      return { startDate: `${endDate.slice(0, 4)}-01-01`, endDate };
+    case 'thisFinancialYear':
+      return { startDate: financialYearRange(financialYearOf(endDate)).startDate, endDate };
+    case 'lastFinancialYear':
+      return financialYearRange(financialYearOf(endDate) - 1);
+  }
+};
+
+// The same dates a year earlier. A range ending on the last day of a month
+// ends on the last day of that month again, so all of February compares with
+// all of February in leap years too.
+export const samePeriodLastYear = (range: DateRange): DateRange => ({
+  startDate: addMonths(range.startDate, -12),
+  endDate: range.endDate === endOfMonth(range.endDate)
+    ? endOfMonth(addMonths(startOfMonth(range.endDate), -12))
+    : addMonths(range.endDate, -12)
+});
+
+// The period of equal length just before the range. Ranges made of whole
+// months step back by that many months, so a quarter compares with the
+// previous quarter rather than with the previous 91 days.
+export const previousPeriod = (range: DateRange): DateRange => {
+  const isWholeMonths = range.startDate === startOfMonth(range.startDate) && range.endDate === endOfMonth(range.endDate);
+
+  if (isWholeMonths) {
+    const start = parseDate(range.startDate);
+    const end = parseDate(range.endDate);
+    const months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth() + 1;
+    const startDate = addMonths(range.startDate, -months);
+    return { startDate, endDate: addDays(range.startDate, -1) };
+  }
+
+  const endDate = addDays(range.startDate, -1);
+  return { startDate: addDays(endDate, -daysBetween(range.startDate, range.endDate)), endDate };
+};
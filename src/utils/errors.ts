@@ -0,0 +1,11 @@
+// Failures worth retrying later, as opposed to the server refusing the
+// request. supabase-js reports an unreachable server as an error object with
+// an empty code; fetch itself throws a TypeError.
+export const isConnectionError = (error: unknown) => {
+  if (error instanceof TypeError) return true;
+  // Thrown by the app itself, such as a failed API route
+  if (error instanceof Error) return false;
+  const { code } = (error ?? {}) as { code?: string };
+  // PGRST301 is an expired session, which refreshes once back online
+  return !code || code === 'PGRST301';
+};
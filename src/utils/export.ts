@@ -0,0 +1,162 @@
+import { buildXlsx, type Cell, type Sheet } from '@/utils/xlsx';
+import { formatCurrency } from '@/utils/formatters';
+
+export type { Cell, Sheet };
+
+// Text starting with = + - @, a tab or a carriage return is read as a
+// formula when a CSV is opened in a spreadsheet, so a description like
+// "=HYPERLINK(...)" would run. A leading apostrophe keeps it as text. XLSX
+// cells are written as inline strings, which are never evaluated.
+const escapeFormula = (value: string) =>
+  /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsvCell = (value: Cell) => {
+  const text = typeof value === 'string' ? escapeFormula(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: Cell[][]) =>
+  rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Several sheets go into one CSV file as sections headed by the sheet name
+export const exportCsv = (filename: string, sheets: Sheet[]) => {
+  const content = sheets.length === 1
+    ? toCsv(sheets[0].rows)
+    : sheets.map(sheet => toCsv([[sheet.name], ...sheet.rows])).join('\r\n\r\n');
+  // The byte order mark makes Excel read the file as UTF-8
+  downloadBlob(`${filename}.csv`, new Blob(['\uFEFF', content], { type: 'text/csv;charset=utf-8' }));
+};
+
+export const exportXlsx = (filename: string, sheets: Sheet[]) => {
+  downloadBlob(`${filename}.xlsx`, buildXlsx(sheets));
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Opens the report in a new window and brings up the print dialog, from
+// which it can be saved as a PDF. Callers that load data first pass in a
+// window opened during the click, as browsers block pop-ups opened later.
+export const printReport = (
+  title: string,
+  sheets: Sheet[],
+  printWindow: Window | null = window.open('', '_blank')
+) => {
+  const tables = sheets.map(sheet => {
+    const [header = [], ...body] = sheet.rows;
+    const cell = (value: Cell, tag: 'td' | 'th') => typeof value === 'number'
+      ? `<${tag} class="number">${formatCurrency(value)}</${tag}>`
+      : `<${tag}>${escapeHtml(value)}</${tag}>`;
+    return `<h2>${escapeHtml(sheet.name)}</h2>
+      <table>
+        <thead><tr>${header.map(value => `<th>${escapeHtml(String(value))}</th>`).join('')}</tr></thead>
+        <tbody>${body.map(row => `<tr>${row.map(value => cell(value, 'td')).join('')}</tr>`).join('')}</tbody>
+      </table>`;
+  }).join('');
+
+  if (!printWindow) {
+    throw new Error('The print window was blocked by the browser');
+  }
+
+  printWindow.document.write(`<!DOCTYPE html>
+    <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>
+          body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem; }
+          h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+          h2 { font-size: 1.1rem; margin-top: 1.5rem; }
+          table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+          th, td { border-bottom: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: left; }
+          th { background: #f9fafb; }
+          .number { text-align: right; white-space: nowrap; }
+          .generated { color: #6b7280; font-size: 0.8rem; }
+        </style>
+      </head>
+      <body>
+        <h1>${escapeHtml(title)}</h1>
+        <p class="generated">Generated ${escapeHtml(new Date().toLocaleString('en-IN'))}</p>
+        ${tables}
+      </body>
+    </html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+interface LedgerEntry {
+  date: string;
+  description: string;
+  category: string;
+  property_id: string;
+  amount: number;
+  currency: string;
+  exchange_rate: number;
+  base_amount: number;
+  gst_amount: number | null;
+  tds_amount: number | null;
+  gstin: string | null;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+// An income or expense list as a sheet, ending with its total. The total is
+// in rupees since entries may be in different currencies.
+export const ledgerSheet = (
+  name: string,
+  entries: LedgerEntry[],
+  getPropertyName: (propertyId: string) => string
+): Sheet => ({
+  name,
+  rows: [
+    ['Date', 'Description', 'Category', 'Property', 'Amount', 'Currency', 'Exchange Rate', 'Amount (Rs.)', 'GST', 'TDS', 'GSTIN'],
+    ...entries.map(entry => [
+      entry.date,
+      entry.description,
+      entry.category,
+      getPropertyName(entry.property_id),
+      entry.amount,
+      entry.currency,
+      entry.exchange_rate,
+      entry.base_amount,
+      entry.gst_amount ?? '',
+      entry.tds_amount ?? '',
+      entry.gstin ?? ''
+    ]),
+    [
+      'Total',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      sum(entries.map(entry => entry.base_amount)),
+      '',
+      '',
+      ''
+    ]
+  ]
+});
+
+// File name for an export, e.g. income-main-chalet-2026-10-18
+export const exportFilename = (...parts: string[]) =>
+  [...parts, new Date().toISOString().split('T')[0]]
+    .map(part => part.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-|-$/g, ''))
+    .filter(Boolean)
+    .join('-');
@@ -3,4 +3,7 @@ export const formatCurrency = (amount: number): string => {
     maximumFractionDigits: 2,
     minimumFractionDigits: 2
   });
-}; 
\ No newline at end of file
+};
+
+// A fraction such as 0.456 as "45.6%"
+export const formatPercent = (fraction: number): string => `${(fraction * 100).toFixed(1)}%`;
@@ -0,0 +1,40 @@
+import type { Guest } from '@/types/database.types';
+
+// Name with the company for corporate guests, as shown in lists and pickers
+export const guestLabel = (guest: Pick<Guest, 'name' | 'company'>) =>
+  guest.company ? `${guest.name} (${guest.company})` : guest.name;
+
+// Guests whose name, company, email or phone contains every word of the query
+export const searchGuests = (guests: Guest[], query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return guests;
+
+  return guests.filter(guest => {
+    const haystack = [guest.name, guest.company, guest.email, guest.phone]
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+export const emptyGuestForm = { name: '', email: '', phone: '', company: '', notes: '' };
+
+export type GuestFormValues = typeof emptyGuestForm;
+
+export const guestFormValues = (guest: Guest): GuestFormValues => ({
+  name: guest.name,
+  email: guest.email ?? '',
+  phone: guest.phone ?? '',
+  company: guest.company ?? '',
+  notes: guest.notes ?? ''
+});
+
+// Optional text fields are stored as null rather than empty strings
+export const guestFields = (fields: GuestFormValues) => ({
+  name: fields.name.trim(),
+  email: fields.email.trim() || null,
+  phone: fields.phone.trim() || null,
+  company: fields.company.trim() || null,
+  notes: fields.notes.trim() || null
+});
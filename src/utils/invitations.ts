@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Role } from '@/types/database.types';
+import type { MailMessage } from '@/utils/mail';
+import { roleDescriptions, roleLabels } from '@/utils/roles';
+
+export type InvitationRole = Exclude<Role, 'OWNER'>;
+
+export const INVITATION_ROLES: InvitationRole[] = ['MANAGER', 'CLEANER', 'ACCOUNTANT'];
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'EXPIRED';
+
+// What an invitation link is for, as returned by invitation_details()
+export interface InvitationDetails {
+  workspace_name: string;
+  email: string;
+  role: InvitationRole;
+  status: InvitationStatus;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// The token only ever appears in the emailed link; the database keeps its
+// SHA-256 hash, which is what accept_invitation() looks up
+export const createInviteToken = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashInviteToken = async (token: string) =>
+  toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))));
+
+// "a manager", "an accountant"
+export const roleWithArticle = (role: InvitationRole) =>
+  `${role === 'ACCOUNTANT' ? 'an' : 'a'} ${roleLabels[role].toLowerCase()}`;
+
+export const inviteLink = (origin: string, token: string) => `${origin}/invite/${token}`;
+
+// Where links in emails point: NEXT_PUBLIC_SITE_URL, not the Host header of
+// the request, which whoever sends it controls. Only development falls back
+// to the request's own origin.
+export const siteOrigin = (requestOrigin: string) => {
+  const configured = process.env.NEXT_PUBLIC_SITE_URL;
+  if (configured) return configured.replace(/\/+$/, '');
+  if (process.env.NODE_ENV === 'development') return requestOrigin;
+  throw new Error('NEXT_PUBLIC_SITE_URL is not set');
+};
+
+export const invitationEmail = (
+  to: string,
+  workspaceName: string,
+  role: InvitationRole,
+  invitedBy: string,
+  link: string
+): MailMessage => ({
+  to,
+  subject: `You're invited to ${workspaceName} on Chalet Manager`,
+  text: [
+    `${invitedBy} has invited you to join ${workspaceName} on Chalet Manager as ${roleWithArticle(role)}.`,
+    `${roleLabels[role]}: ${roleDescriptions[role]}.`,
+    `Accept the invitation here: ${link}`,
+    'The link works for 14 days. If you did not expect this email you can ignore it.'
+  ].join('\n\n')
+});
+
+export const fetchInvitation = async (supabase: SupabaseClient<Database>, token: string): Promise<InvitationDetails | null> => {
+  const { data, error } = await supabase.rpc('invitation_details', { invite_token: token });
+  if (error) throw error;
+  return data?.[0] ?? null;
+};
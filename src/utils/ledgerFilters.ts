@@ -0,0 +1,177 @@
+import type { LedgerTable } from '@/types/database.types';
+
+export const LEDGER_PAGE_SIZE = 25;
+
+export type LedgerSortField = 'date' | 'amount' | 'description' | 'category';
+
+// What the income and expense tables show, kept in the query string so a
+// filtered view can be bookmarked. Text fields are '' when unset.
+export interface LedgerFilters {
+  search: string;
+  category: string;
+  // Rupees, compared against base_amount so every currency is comparable
+  minAmount: string;
+  maxAmount: string;
+  startDate: string;
+  endDate: string;
+  sort: LedgerSortField;
+  ascending: boolean;
+  // 1-based
+  page: number;
+}
+
+export const defaultLedgerFilters: LedgerFilters = {
+  search: '',
+  category: '',
+  minAmount: '',
+  maxAmount: '',
+  startDate: '',
+  endDate: '',
+  sort: 'date',
+  ascending: false,
+  page: 1
+};
+
+const textParams = {
+  search: 'q',
+  category: 'category',
+  minAmount: 'min',
+  maxAmount: 'max',
+  startDate: 'from',
+  endDate: 'to'
+} as const;
+
+type TextFilter = keyof typeof textParams;
+
+const sortFields: LedgerSortField[] = ['date', 'amount', 'description', 'category'];
+
+// Newest and largest first; text columns A to Z
+export const defaultAscending = (field: LedgerSortField) =>
+  field === 'description' || field === 'category';
+
+export const parseLedgerFilters = (params: { get: (name: string) => string | null }): LedgerFilters => {
+  const sortParam = params.get('sort') as LedgerSortField | null;
+  const sort = sortParam && sortFields.includes(sortParam) ? sortParam : defaultLedgerFilters.sort;
+  const direction = params.get('dir');
+  const page = parseInt(params.get('page') ?? '', 10);
+
+  const text = Object.fromEntries(
+    Object.entries(textParams).map(([field, param]) => [field, params.get(param) ?? ''])
+  ) as Record<TextFilter, string>;
+
+  return {
+    ...text,
+    sort,
+    ascending: direction ? direction === 'asc' : defaultAscending(sort),
+    page: page > 0 ? page : 1
+  };
+};
+
+// Writes the filters over the existing query string, leaving other
+// parameters such as the selected property alone. Defaults are left out to
+// keep links short.
+export const ledgerFilterParams = (current: string, filters: LedgerFilters) => {
+  const params = new URLSearchParams(current);
+
+  for (const [field, param] of Object.entries(textParams) as [TextFilter, string][]) {
+    const value = filters[field].trim();
+    if (value) {
+      params.set(param, value);
+    } else {
+      params.delete(param);
+    }
+  }
+
+  if (filters.sort === defaultLedgerFilters.sort) {
+    params.delete('sort');
+  } else {
+    params.set('sort', filters.sort);
+  }
+  if (filters.ascending === defaultAscending(filters.sort)) {
+    params.delete('dir');
+  } else {
+    params.set('dir', filters.ascending ? 'asc' : 'desc');
+  }
+  if (filters.page > 1) {
+    params.set('page', String(filters.page));
+  } else {
+    params.delete('page');
+  }
+
+  return params;
+};
+
+export const hasActiveFilters = (filters: LedgerFilters) =>
+  (Object.keys(textParams) as TextFilter[]).some(field => filters[field].trim() !== '');
+
+const amountOrNull = (value: string) => {
+  const amount = parseFloat(value);
+  return Number.isNaN(amount) ? null : amount;
+};
+
+// The subset of the PostgREST query builder the filters need
+interface FilterableQuery<Q> {
+  eq(column: string, value: string): Q;
+  gte(column: string, value: string | number): Q;
+  lte(column: string, value: string | number): Q;
+  textSearch(column: string, query: string, options: { type: 'websearch'; config: string }): Q;
+}
+
+export const applyLedgerFilters = <Q extends FilterableQuery<Q>>(query: Q, filters: LedgerFilters): Q => {
+  let filtered = query;
+  const search = filters.search.trim();
+  const minAmount = amountOrNull(filters.minAmount);
+  const maxAmount = amountOrNull(filters.maxAmount);
+
+  if (search) filtered = filtered.textSearch('description_search', search, { type: 'websearch', config: 'english' });
+  if (filters.category) filtered = filtered.eq('category', filters.category);
+  if (minAmount !== null) filtered = filtered.gte('base_amount', minAmount);
+  if (maxAmount !== null) filtered = filtered.lte('base_amount', maxAmount);
+  if (filters.startDate) filtered = filtered.gte('date', filters.startDate);
+  if (filters.endDate) filtered = filtered.lte('date', filters.endDate);
+
+  return filtered;
+};
+
+const sortColumns: Record<LedgerSortField, string> = {
+  date: 'date',
+  amount: 'base_amount',
+  description: 'description',
+  category: 'category'
+};
+
+export const ledgerSortColumn = (filters: LedgerFilters) => sortColumns[filters.sort];
+
+// Inclusive row offsets of the current page, as .range() takes them
+export const ledgerPageRange = (page: number): [number, number] => {
+  const from = (page - 1) * LEDGER_PAGE_SIZE;
+  return [from, from + LEDGER_PAGE_SIZE - 1];
+};
+
+// Arguments for the ledger_total function, matching applyLedgerFilters
+export const ledgerTotalArgs = (ledger: LedgerTable, propertyId: string | null, filters: LedgerFilters) => ({
+  ledger,
+  target_property_id: propertyId,
+  search: filters.search.trim() || null,
+  target_category: filters.category || null,
+  min_amount: amountOrNull(filters.minAmount),
+  max_amount: amountOrNull(filters.maxAmount),
+  start_date: filters.startDate || null,
+  end_date: filters.endDate || null
+});
+
+// PostgREST returns at most 1000 rows per request, so exports read every
+// matching row in chunks
+const CHUNK_SIZE = 1000;
+
+export const fetchAllRows = async <T>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+) => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += CHUNK_SIZE) {
+    const { data, error } = await fetchRange(from, from + CHUNK_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < CHUNK_SIZE) return rows;
+  }
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import type { Booking } from '@/types/database.types';
+import { incomeFromBooking } from '@/utils/bookings';
+import { defaultLedgerFilters, LEDGER_PAGE_SIZE, type LedgerFilters } from '@/utils/ledgerFilters';
+import { createMemoryLedgerRepository, type LedgerInsert } from '@/utils/ledgerRepository';
+
+const WORKSPACE = 'workspace-1';
+const USER = 'user-1';
+const CHALET = 'property-1';
+const COTTAGE = 'property-2';
+
+const expense = (values: Partial<LedgerInsert<'expenses'>> = {}): LedgerInsert<'expenses'> => ({
+  workspace_id: WORKSPACE,
+  user_id: USER,
+  property_id: CHALET,
+  date: '2026-10-01',
+  amount: 100,
+  description: 'Firewood',
+  category: 'SUPPLIES',
+  ...values
+});
+
+const query = (filters: Partial<LedgerFilters> = {}, propertyId: string | null = null) => ({
+  propertyId,
+  filters: { ...defaultLedgerFilters, ...filters }
+});
+
+describe('createMemoryLedgerRepository', () => {
+  it('fills in the columns the database would', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    const [created] = await repository.create([expense({ amount: 50, currency: 'EUR', exchange_rate: 90.5 })]);
+
+    expect(created.id).toEqual(expect.any(String));
+    expect(created.gst_amount).toBeNull();
+    expect(created.base_amount).toBe(4525);
+  });
+
+  it('computes check-out for accommodation income', async () => {
+    const repository = createMemoryLedgerRepository('income');
+    const [created] = await repository.create([{
+      workspace_id: WORKSPACE,
+      user_id: USER,
+      property_id: CHALET,
+      date: '2026-12-30',
+      amount: 9000,
+      description: 'New year stay',
+      category: 'RENTAL',
+      check_in: '2026-12-30',
+      nights: 3
+    }]);
+
+    expect(created.check_out).toBe('2027-01-02');
+    expect(created.currency).toBe('INR');
+  });
+
+  it('filters by property, category, amount, dates and search words', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    await repository.create([
+      expense({ description: 'Firewood for the stove', date: '2026-09-30' }),
+      expense({ description: 'Stove repair', category: 'MAINTENANCE', amount: 2500 }),
+      expense({ description: 'Firewood', property_id: COTTAGE }),
+      expense({ description: 'Dry firewood, stacked', date: '2026-10-05', amount: 300 })
+    ]);
+
+    const descriptions = async (filters: Partial<LedgerFilters>, propertyId: string | null = null) =>
+      (await repository.listAll(query(filters, propertyId))).map(row => row.description);
+
+    expect(await descriptions({}, COTTAGE)).toEqual(['Firewood']);
+    expect(await descriptions({ category: 'MAINTENANCE' })).toEqual(['Stove repair']);
+    expect(await descriptions({ minAmount: '200', maxAmount: '1000' })).toEqual(['Dry firewood, stacked']);
+    expect(await descriptions({ startDate: '2026-10-01', endDate: '2026-10-04' }, CHALET)).toEqual(['Stove repair']);
+    expect(await descriptions({ search: 'firewood stove' })).toEqual(['Firewood for the stove']);
+  });
+
+  it('sorts newest first by default and by the chosen column otherwise', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    await repository.create([
+      expense({ description: 'Bedding', date: '2026-10-02', amount: 800 }),
+      expense({ description: 'Candles', date: '2026-10-03', amount: 120 }),
+      expense({ description: 'Axe', date: '2026-10-01', amount: 1500 })
+    ]);
+
+    const order = async (filters: Partial<LedgerFilters>) =>
+      (await repository.listAll(query(filters))).map(row => row.description);
+
+    expect(await order({})).toEqual(['Candles', 'Bedding', 'Axe']);
+    expect(await order({ sort: 'amount', ascending: true })).toEqual(['Candles', 'Bedding', 'Axe']);
+    expect(await order({ sort: 'description', ascending: true })).toEqual(['Axe', 'Bedding', 'Candles']);
+  });
+
+  it('pages the list and counts every match', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    await repository.create(Array.from({ length: LEDGER_PAGE_SIZE + 5 }, (_, i) =>
+      expense({ date: `2026-10-${String((i % 28) + 1).padStart(2, '0')}` })
+    ));
+
+    const first = await repository.list(query());
+    const second = await repository.list(query({ page: 2 }));
+
+    expect(first.count).toBe(LEDGER_PAGE_SIZE + 5);
+    expect(first.rows).toHaveLength(LEDGER_PAGE_SIZE);
+    expect(second.rows).toHaveLength(5);
+    expect(second.rows.some(row => first.rows.includes(row))).toBe(false);
+  });
+
+  it('totals the matching entries in rupees', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    await repository.create([
+      expense({ amount: 100.1 }),
+      expense({ amount: 200.2 }),
+      expense({ amount: 10, currency: 'USD', exchange_rate: 83.25 }),
+      expense({ amount: 999, property_id: COTTAGE })
+    ]);
+
+    expect(await repository.summarise(query({}, CHALET))).toBe(1132.8);
+  });
+
+  it('updates an entry and recomputes its rupee amount', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    const [created] = await repository.create([expense()]);
+
+    const updated = await repository.update(created.id, { amount: 40, exchange_rate: 2 });
+
+    expect(updated.base_amount).toBe(80);
+    expect((await repository.listAll(query()))[0]).toEqual(updated);
+    await expect(repository.update('missing', { amount: 1 })).rejects.toThrow();
+  });
+
+  it('removes an entry', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    const [created] = await repository.create([expense()]);
+
+    await repository.remove(created.id);
+
+    expect(await repository.listAll(query())).toEqual([]);
+  });
+
+  it('refuses a second entry with the same id', async () => {
+    const repository = createMemoryLedgerRepository('expenses');
+    await repository.create([expense({ id: 'entry-1' })]);
+
+    await expect(repository.create([expense({ id: 'entry-1' })])).rejects.toThrow();
+  });
+
+  it('records a confirmed booking once however often it is retried', async () => {
+    const booking: Booking = {
+      id: 'booking-1',
+      created_at: '2026-10-01T00:00:00Z',
+      workspace_id: WORKSPACE,
+      user_id: USER,
+      property_id: CHALET,
+      guest_name: 'Asha',
+      check_in: '2026-11-01',
+      check_out: '2026-11-04',
+      nightly_rate: 5000,
+      status: 'PENDING',
+      income_id: null
+    };
+    const repository = createMemoryLedgerRepository('income');
+
+    const first = await repository.createIfMissing([incomeFromBooking(booking)]);
+    const retry = await repository.createIfMissing([incomeFromBooking(booking)]);
+
+    expect(first).toHaveLength(1);
+    expect(retry).toEqual([]);
+    expect(await repository.listAll(query())).toEqual([
+      expect.objectContaining({ id: booking.id, base_amount: 15000, check_out: '2026-11-04' })
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, LedgerTable } from '@/types/database.types';
+import { BASE_CURRENCY } from '@/utils/currency';
+import { addDays } from '@/utils/dates';
+import {
+  applyLedgerFilters,
+  fetchAllRows,
+  ledgerPageRange,
+  ledgerSortColumn,
+  ledgerTotalArgs,
+  type LedgerFilters
+} from '@/utils/ledgerFilters';
+
+type Tables = Database['public']['Tables'];
+
+export type LedgerRow<L extends LedgerTable> = Tables[L]['Row'];
+export type LedgerInsert<L extends LedgerTable> = Tables[L]['Insert'];
+export type LedgerUpdate<L extends LedgerTable> = Tables[L]['Update'];
+
+// Which entries a list covers: one property or all of them, narrowed by the
+// filters from the URL
+export interface LedgerQuery {
+  propertyId: string | null;
+  filters: LedgerFilters;
+}
+
+export interface LedgerPage<T> {
+  // The current page, in the chosen order
+  rows: T[];
+  // Every matching entry, across all pages
+  count: number;
+}
+
+// Reads and writes one ledger table. Pages only talk to this interface, so
+// they can run against the in-memory version without Supabase.
+export interface LedgerRepository<L extends LedgerTable> {
+  ledger: L;
+  list(query: LedgerQuery): Promise<LedgerPage<LedgerRow<L>>>;
+  // Every matching entry, for exports
+  listAll(query: LedgerQuery): Promise<LedgerRow<L>[]>;
+  create(rows: LedgerInsert<L>[]): Promise<LedgerRow<L>[]>;
+  // Skips rows whose id is already taken, so a retried insert never saves
+  // twice. Returns the rows it inserted.
+  createIfMissing(rows: LedgerInsert<L>[]): Promise<LedgerRow<L>[]>;
+  update(id: string, changes: LedgerUpdate<L>): Promise<LedgerRow<L>>;
+  remove(id: string): Promise<void>;
+  // Rupee total of every matching entry
+  summarise(query: LedgerQuery): Promise<number>;
+}
+
+// The tables through PostgREST, acting as the signed-in user so row-level
+// security applies
+export const createSupabaseLedgerRepository = <L extends LedgerTable>(
+  supabase: SupabaseClient<Database>,
+  ledger: L
+): LedgerRepository<L> => {
+  // PostgREST's types cannot follow a table name that is a type parameter,
+  // so queries are typed against the columns of either ledger
+  const table = () => supabase.from<LedgerTable, Tables[LedgerTable]>(ledger);
+
+  const matching = ({ propertyId, filters }: LedgerQuery, options?: { count: 'exact' }) => {
+    let query = table().select('*', options);
+    if (propertyId) query = query.eq('property_id', propertyId);
+
+    return applyLedgerFilters(query, filters)
+      .order(ledgerSortColumn(filters), { ascending: filters.ascending })
+      .order('id');
+  };
+
+  return {
+    ledger,
+    async list(query) {
+      const { data, error, count } = await matching(query, { count: 'exact' })
+        .range(...ledgerPageRange(query.filters.page));
+      if (error) throw error;
+      return { rows: data ?? [], count: count ?? 0 };
+    },
+    listAll(query) {
+      return fetchAllRows<LedgerRow<L>>((from, to) => matching(query).range(from, to));
+    },
+    async create(rows) {
+      const { data, error } = await table().insert(rows).select();
+      if (error) throw error;
+      return data ?? [];
+    },
+    async createIfMissing(rows) {
+      const { data, error } = await table()
+        .upsert(rows, { onConflict: 'id', ignoreDuplicates: true })
+        .select();
+      if (error) throw error;
+      return data ?? [];
+    },
+    async update(id, changes) {
+      const { data, error } = await table().update(changes).eq('id', id).select().single();
+      if (error) throw error;
+      return data;
+    },
+    async remove(id) {
+      const { error } = await table().delete().eq('id', id);
+      if (error) throw error;
+    },
+    async summarise({ propertyId, filters }) {
+      const { data, error } = await supabase.rpc('ledger_total', ledgerTotalArgs(ledger, propertyId, filters));
+      if (error) throw error;
+      return Number(data);
+    }
+  };
+};
+
+// Columns the database fills in when an insert leaves them out
+const insertDefaults: Record<LedgerTable, Record<string, unknown>> = {
+  income: {
+    schedule_id: null,
+    gst_rate: null,
+    gst_amount: null,
+    tds_amount: null,
+    gstin: null,
+    currency: BASE_CURRENCY,
+    exchange_rate: 1,
+    guest_id: null,
+    check_in: null,
+    nights: null
+  },
+  expenses: {
+    schedule_id: null,
+    gst_rate: null,
+    gst_amount: null,
+    tds_amount: null,
+    gstin: null,
+    currency: BASE_CURRENCY,
+    exchange_rate: 1
+  }
+};
+
+// The generated columns, as the database computes them
+const withComputedColumns = (row: Record<string, unknown>) => ({
+  ...row,
+  base_amount: Math.round(Number(row.amount) * Number(row.exchange_rate) * 100) / 100,
+  ...('nights' in row && {
+    check_out: row.check_in && row.nights ? addDays(String(row.check_in), Number(row.nights)) : null
+  })
+});
+
+// Stands in for full-text search: every word of the query must appear in
+// the description
+const matchesSearch = (description: string, search: string) => {
+  const words = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = description.toLowerCase();
+  return words.every(word => text.includes(word));
+};
+
+const matchesQuery = (row: LedgerRow<LedgerTable>, { propertyId, filters }: LedgerQuery) => {
+  const minAmount = parseFloat(filters.minAmount);
+  const maxAmount = parseFloat(filters.maxAmount);
+
+  return (!propertyId || row.property_id === propertyId) &&
+    (!filters.search.trim() || matchesSearch(row.description, filters.search)) &&
+    (!filters.category || row.category === filters.category) &&
+    (Number.isNaN(minAmount) || row.base_amount >= minAmount) &&
+    (Number.isNaN(maxAmount) || row.base_amount <= maxAmount) &&
+    (!filters.startDate || row.date >= filters.startDate) &&
+    (!filters.endDate || row.date <= filters.endDate);
+};
+
+const compareBy = (filters: LedgerFilters) => {
+  const column = ledgerSortColumn(filters) as keyof LedgerRow<LedgerTable>;
+  const direction = filters.ascending ? 1 : -1;
+
+  return (a: LedgerRow<LedgerTable>, b: LedgerRow<LedgerTable>) => {
+    const left = a[column] ?? '';
+    const right = b[column] ?? '';
+    const order = typeof left === 'number' && typeof right === 'number'
+      ? left - right
+      : String(left).localeCompare(String(right));
+    return order * direction || a.id.localeCompare(b.id);
+  };
+};
+
+// Rows held in an array, for tests and for working without Supabase. Row
+// security is not modelled: every row is visible.
+export const createMemoryLedgerRepository = <L extends LedgerTable>(
+  ledger: L,
+  initialRows: LedgerRow<L>[] = []
+): LedgerRepository<L> => {
+  let rows = [...initialRows];
+
+  const matching = (query: LedgerQuery) =>
+    rows.filter(row => matchesQuery(row, query)).sort(compareBy(query.filters));
+
+  const insert = (newRows: LedgerInsert<L>[]) => {
+    const created = newRows.map(row => withComputedColumns({
+      ...insertDefaults[ledger],
+      id: crypto.randomUUID(),
+      ...row,
+      created_at: new Date().toISOString()
+    }) as LedgerRow<L>);
+    rows = [...rows, ...created];
+    return created;
+  };
+
+  return {
+    ledger,
+    async list(query) {
+      const all = matching(query);
+      const [from, to] = ledgerPageRange(query.filters.page);
+      return { rows: all.slice(from, to + 1), count: all.length };
+    },
+    async listAll(query) {
+      return matching(query);
+    },
+    async create(newRows) {
+      if (newRows.some(row => row.id && rows.some(existing => existing.id === row.id))) {
+        throw new Error(`Duplicate ${ledger} id`);
+      }
+      return insert(newRows);
+    },
+    async createIfMissing(newRows) {
+      return insert(newRows.filter(row => !row.id || !rows.some(existing => existing.id === row.id)));
+    },
+    async update(id, changes) {
+      const existing = rows.find(row => row.id === id);
+      if (!existing) throw new Error(`No ${ledger} entry ${id}`);
+
+      const updated = withComputedColumns({ ...existing, ...changes }) as LedgerRow<L>;
+      rows = rows.map(row => (row.id === id ? updated : row));
+      return updated;
+    },
+    async remove(id) {
+      rows = rows.filter(row => row.id !== id);
+    },
+    async summarise(query) {
+      const total = matching(query).reduce((sum, row) => sum + row.base_amount, 0);
+      return Math.round(total * 100) / 100;
+    }
+  };
+};
@@ -0,0 +1,81 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// How outgoing email is sent. Route handlers only talk to this interface, so
+// the transport can be swapped without touching them.
+export interface MailAdapter {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints each message to the server log
+export const createConsoleMail = (): MailAdapter => ({
+  async send(message) {
+    console.info(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+  }
+});
+
+// One text file per message under a directory on this machine, for
+// development and tests
+export const createFileMail = (rootDir: string): MailAdapter => ({
+  async send(message) {
+    const root = path.resolve(rootDir);
+    const safeTo = message.to.replace(/[^A-Za-z0-9._@-]+/g, '_');
+    await mkdir(root, { recursive: true });
+    await writeFile(
+      path.join(root, `${Date.now()}-${safeTo}.txt`),
+      `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+    );
+  }
+});
+
+// Resend's HTTP API, for deployments
+export const createResendMail = (apiKey: string, from: string): MailAdapter => ({
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.text })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail to ${message.to} failed with status ${response.status}`);
+    }
+  }
+});
+
+// MAIL_TRANSPORT=file writes messages to MAIL_DIR (default .mail),
+// MAIL_TRANSPORT=resend sends them with RESEND_API_KEY from MAIL_FROM and
+// MAIL_TRANSPORT=console prints them. Left unset, messages are printed in
+// development only; elsewhere nothing would ever arrive, so it is an error.
+export const getMailAdapter = (): MailAdapter => {
+  const transport = process.env.MAIL_TRANSPORT;
+
+  switch (transport) {
+    case 'file':
+      return createFileMail(process.env.MAIL_DIR || '.mail');
+    case 'resend': {
+      const apiKey = process.env.RESEND_API_KEY;
+      const from = process.env.MAIL_FROM;
+      if (!apiKey) throw new Error('RESEND_API_KEY is not set');
+      if (!from) throw new Error('MAIL_FROM is not set');
+      return createResendMail(apiKey, from);
+    }
+    case 'console':
+      return createConsoleMail();
+    case undefined:
+    case '':
+      if (process.env.NODE_ENV === 'development') return createConsoleMail();
+      throw new Error('MAIL_TRANSPORT is not set');
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+};
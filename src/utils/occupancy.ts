@@ -0,0 +1,61 @@
+import type { Income } from '@/types/database.types';
+import type { OccupancyKpis } from '@/types/summary.types';
+import { countNights } from '@/utils/bookings';
+import { addDays, type DateRange } from '@/utils/dates';
+
+export type Stay = Pick<Income, 'base_amount'> & { check_in: string; nights: number };
+
+const later = (a: string, b: string) => (a > b ? a : b);
+const earlier = (a: string, b: string) => (a < b ? a : b);
+
+// Nights of a stay that fall inside the range, where each date of the range
+// is the night starting on it
+const nightsWithin = (stay: Stay, range: DateRange) =>
+  countNights(
+    later(stay.check_in, range.startDate),
+    earlier(addDays(stay.check_in, stay.nights), addDays(range.endDate, 1))
+  );
+
+// Occupancy, ADR (average daily rate) and RevPAR (revenue per available
+// night) over the range. A stay running past either end of the range only
+// counts the nights and the share of its revenue inside it.
+export const occupancyKpis = (stays: Stay[], range: DateRange, propertyCount: number): OccupancyKpis => {
+  const nightsAvailable = countNights(range.startDate, addDays(range.endDate, 1)) * propertyCount;
+  let nightsSold = 0;
+  let roomRevenue = 0;
+
+  for (const stay of stays) {
+    const nights = nightsWithin(stay, range);
+    if (nights > 0) {
+      nightsSold += nights;
+      roomRevenue += (stay.base_amount * nights) / stay.nights;
+    }
+  }
+
+  return {
+    nightsAvailable,
+    nightsSold,
+    roomRevenue: Math.round(roomRevenue * 100) / 100,
+    occupancyRate: nightsAvailable > 0 ? nightsSold / nightsAvailable : 0,
+    adr: nightsSold > 0 ? roomRevenue / nightsSold : 0,
+    revpar: nightsAvailable > 0 ? roomRevenue / nightsAvailable : 0
+  };
+};
+
+// check_in and nights for an income insert or update. Without a number of
+// nights the entry is not a stay.
+export const stayColumns = (checkIn: string, nights: string) => {
+  const count = parseInt(nights, 10);
+  return count > 0
+    ? { check_in: checkIn, nights: count }
+    : { check_in: null, nights: null };
+};
+
+export const emptyOccupancy: OccupancyKpis = {
+  nightsAvailable: 0,
+  nightsSold: 0,
+  roomRevenue: 0,
+  occupancyRate: 0,
+  adr: 0,
+  revpar: 0
+};
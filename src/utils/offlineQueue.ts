@@ -0,0 +1,72 @@
+import type { LedgerTable } from '@/types/database.types';
+import type { LedgerInsert } from '@/utils/ledgerRepository';
+
+const DB_NAME = 'chalet-manager';
+const DB_VERSION = 1;
+const STORE = 'pendingEntries';
+
+// Supabase reads kept by the service worker for offline use; must match
+// DATA_CACHE_NAME in public/sw.js
+export const OFFLINE_DATA_CACHE = 'chalet-manager-data-v1';
+
+// An income or expense entry saved on this device while it could not reach
+// the server. The row carries an id made on the device, so however often it
+// is replayed it is only ever inserted once.
+export interface QueuedEntry {
+  id: string;
+  ledger: LedgerTable;
+  row: LedgerInsert<LedgerTable> & { id: string };
+  queuedAt: string;
+  // Why the server turned the entry down. Such entries are not replayed
+  // again until the user retries them.
+  conflict: string | null;
+}
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE, { keyPath: 'id' });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = action(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Oldest first, so entries reach the server in the order they were made
+export const listQueuedEntries = async () => {
+  const entries = await withStore<QueuedEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const saveQueuedEntry = (entry: QueuedEntry) =>
+  withStore('readwrite', store => store.put(entry));
+
+export const removeQueuedEntry = (id: string) =>
+  withStore('readwrite', store => store.delete(id));
+
+// What to tell the user about an entry the server refused
+export const conflictMessage = (error: unknown) => {
+  const { code, message } = (error ?? {}) as { code?: string; message?: string };
+  switch (code) {
+    case '23503':
+      return 'The property or guest no longer exists.';
+    case '42501':
+      return 'You are no longer allowed to add entries to this workspace.';
+    default:
+      return message || 'The server rejected this entry.';
+  }
+};
@@ -0,0 +1,62 @@
+import type { RecurrenceInterval, RecurringSchedule } from '@/types/database.types';
+import { addDays, addMonths, parseDate } from '@/utils/dates';
+
+export const intervalLabels: Record<RecurrenceInterval, string> = {
+  WEEKLY: 'Weekly',
+  MONTHLY: 'Monthly',
+  QUARTERLY: 'Quarterly',
+  YEARLY: 'Yearly'
+};
+
+const intervalMonths: Record<Exclude<RecurrenceInterval, 'WEEKLY'>, number> = {
+  MONTHLY: 1,
+  QUARTERLY: 3,
+  YEARLY: 12
+};
+
+// The nth occurrence of a schedule, counting the start date as 0. Monthly
+// schedules starting on the 31st fall on the last day of shorter months.
+const occurrence = (
+  schedule: Pick<RecurringSchedule, 'interval' | 'start_date'>,
+  index: number
+) => {
+  if (schedule.interval === 'WEEKLY') {
+    return addDays(schedule.start_date, index * 7);
+  }
+  return addMonths(
+    schedule.start_date,
+    index * intervalMonths[schedule.interval],
+    parseDate(schedule.start_date).getUTCDate()
+  );
+};
+
+// Occurrence dates falling within [from, to], both inclusive
+export const occurrencesBetween = (
+  schedule: Pick<RecurringSchedule, 'interval' | 'start_date' | 'end_date'>,
+  from: string,
+  to: string
+) => {
+  const last = schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  const dates: string[] = [];
+
+  for (let i = 0; ; i++) {
+    const date = occurrence(schedule, i);
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+};
+
+// Occurrences that are due up to and including today but have not been
+// turned into rows yet
+export const dueOccurrences = (schedule: RecurringSchedule, today: string) =>
+  occurrencesBetween(
+    schedule,
+    schedule.last_generated_date ? addDays(schedule.last_generated_date, 1) : schedule.start_date,
+    today
+  );
+
+// Occurrences not yet turned into rows, up to the given number of days ahead
+export const upcomingOccurrences = (schedule: RecurringSchedule, today: string, days: number) =>
+  dueOccurrences(schedule, addDays(today, days));
@@ -0,0 +1,106 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Role } from '@/types/database.types';
+
+export const ROLES: Role[] = ['OWNER', 'MANAGER', 'CLEANER', 'ACCOUNTANT'];
+
+export const roleLabels: Record<Role, string> = {
+  OWNER: 'Owner',
+  MANAGER: 'Manager',
+  CLEANER: 'Cleaner',
+  ACCOUNTANT: 'Accountant'
+};
+
+export const roleDescriptions: Record<Role, string> = {
+  OWNER: 'Everything, including properties, settings and the team',
+  MANAGER: 'Records and edits income, expenses, bookings and guests',
+  CLEANER: 'Logs cleaning expenses only',
+  ACCOUNTANT: 'Reads everything and exports, but cannot change anything'
+};
+
+// The only expense category a cleaner may log
+export const CLEANER_CATEGORY = 'CLEANING';
+
+// Which roles may open each section, longest prefix first. The database
+// policies enforce the same rules on the data itself.
+const routeRoles: [string, Role[]][] = [
+  ['/settings', ['OWNER']],
+  ['/api/invitations', ['OWNER']],
+  ['/properties', ['OWNER']],
+  ['/expenses', ['OWNER', 'MANAGER', 'CLEANER', 'ACCOUNTANT']],
+  ['/dashboard', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/income', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/bookings', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/guests', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/reports', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/audit', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/api/summary', ['OWNER', 'MANAGER', 'ACCOUNTANT']],
+  ['/api/attachments', ['OWNER', 'MANAGER', 'CLEANER', 'ACCOUNTANT']],
+  ['/', ['OWNER', 'MANAGER', 'ACCOUNTANT']]
+];
+
+export const canAccessRoute = (role: Role, pathname: string) => {
+  const match = routeRoles.find(([prefix]) =>
+    prefix === '/' ? pathname === '/' : pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return !match || match[1].includes(role);
+};
+
+// Where a role lands after signing in or when sent away from a page
+export const homeRoute = (role: Role) => (role === 'CLEANER' ? '/expenses' : '/dashboard');
+
+export type Permission = 'editLedgers' | 'addExpenses' | 'manageSettings' | 'viewAudit';
+
+const permissionRoles: Record<Permission, Role[]> = {
+  // Income, expenses, bookings, guests and recurring schedules
+  editLedgers: ['OWNER', 'MANAGER'],
+  addExpenses: ['OWNER', 'MANAGER', 'CLEANER'],
+  manageSettings: ['OWNER'],
+  viewAudit: ['OWNER', 'MANAGER', 'ACCOUNTANT']
+};
+
+// No role yet means access is still loading, so nothing is allowed
+export const hasPermission = (role: Role | null, permission: Permission) =>
+  role !== null && permissionRoles[permission].includes(role);
+
+// A workspace the user belongs to and their role in it
+export interface Membership {
+  workspaceId: string;
+  workspaceName: string;
+  role: Role;
+  isActive: boolean;
+}
+
+export const fetchMemberships = async (supabase: SupabaseClient<Database>, userId: string): Promise<Membership[]> => {
+  // Workspaces are only visible to their members, so this lists the user's
+  const [
+    { data: memberData, error: memberError },
+    { data: workspaceData, error: workspaceError }
+  ] = await Promise.all([
+    supabase
+      .from('workspace_members')
+      .select('workspace_id, role, is_active')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true }),
+    supabase.from('workspaces').select('id, name')
+  ]);
+
+  if (memberError) throw memberError;
+  if (workspaceError) throw workspaceError;
+
+  const names = new Map((workspaceData ?? []).map(workspace => [workspace.id, workspace.name]));
+
+  return (memberData ?? []).map(row => ({
+    workspaceId: row.workspace_id,
+    workspaceName: names.get(row.workspace_id) ?? '',
+    role: row.role,
+    isActive: row.is_active
+  }));
+};
+
+// The workspace the user works in: the one they last switched to, else
+// their own. Matches active_workspace() in the database, which is what
+// row-level security goes by.
+export const activeMembership = (memberships: Membership[]) =>
+  memberships.find(membership => membership.isActive)
+    ?? memberships.find(membership => membership.role === 'OWNER')
+    ?? memberships[0]
+    ?? null;
@@ -33,20 +33,29 @@ const expenseDescriptions = [
   'Electrical Work'
 ];
 
-export const generateSampleIncome = (count: number = 5) => {
+const randomItem = <T>(items: T[]) => items[Math.floor(Math.random() * items.length)];
+
+// categories are the codes of the workspace's active categories
+export const generateSampleIncome = (workspaceId: string, userId: string, propertyId: string, categories: string[], count: number = 5) => {
   return Array.from({ length: count }, () => ({
+    workspace_id: workspaceId,
+    user_id: userId,
+    property_id: propertyId,
     date: randomDate(),
     amount: randomAmount(50000, 200000),
-    description: incomeDescriptions[Math.floor(Math.random() * incomeDescriptions.length)],
-    category: ['RENTAL', 'SERVICES', 'OTHER'][Math.floor(Math.random() * 3)]
+    description: randomItem(incomeDescriptions),
+    category: randomItem(categories)
   }));
 };
 
-export const generateSampleExpenses = (count: number = 5) => {
+export const generateSampleExpenses = (workspaceId: string, userId: string, propertyId: string, categories: string[], count: number = 5) => {
   return Array.from({ length: count }, () => ({
+    workspace_id: workspaceId,
+    user_id: userId,
+    property_id: propertyId,
     date: randomDate(),
     amount: randomAmount(10000, 80000),
-    description: expenseDescriptions[Math.floor(Math.random() * expenseDescriptions.length)],
-    category: ['MAINTENANCE', 'UTILITIES', 'SUPPLIES', 'CLEANING', 'INSURANCE', 'OTHER'][Math.floor(Math.random() * 6)]
+    description: randomItem(expenseDescriptions),
+    category: randomItem(categories)
   }));
 }; 
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+
+// Where attachment files are kept. Route handlers only talk to this interface,
+// so the backend can be swapped without touching them.
+export interface StorageAdapter {
+  upload(key: string, body: Uint8Array, contentType: string): Promise<void>;
+  download(key: string): Promise<Uint8Array>;
+  remove(key: string): Promise<void>;
+}
+
+export const RECEIPTS_BUCKET = 'receipts';
+
+// Supabase Storage, acting as the signed-in user so the bucket policies apply
+export const createSupabaseStorage = (supabase: SupabaseClient<Database>, bucket = RECEIPTS_BUCKET): StorageAdapter => ({
+  async upload(key, body, contentType) {
+    const { error } = await supabase.storage.from(bucket).upload(key, body, { contentType });
+    if (error) throw error;
+  },
+  async download(key) {
+    const { data, error } = await supabase.storage.from(bucket).download(key);
+    if (error) throw error;
+    return new Uint8Array(await data.arrayBuffer());
+  },
+  async remove(key) {
+    const { error } = await supabase.storage.from(bucket).remove([key]);
+    if (error) throw error;
+  }
+});
+
+// Plain files under a directory on this machine, for development and tests
+export const createLocalStorage = (rootDir: string): StorageAdapter => {
+  const root = path.resolve(rootDir);
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async upload(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+    async download(key) {
+      return new Uint8Array(await readFile(resolve(key)));
+    },
+    async remove(key) {
+      await rm(resolve(key), { force: true });
+    }
+  };
+};
+
+// STORAGE_BACKEND=local keeps files in LOCAL_STORAGE_DIR (default .storage);
+// anything else uses Supabase Storage.
+export const getStorageAdapter = (supabase: SupabaseClient<Database>): StorageAdapter =>
+  process.env.STORAGE_BACKEND === 'local'
+    ? createLocalStorage(process.env.LOCAL_STORAGE_DIR || '.storage')
+    : createSupabaseStorage(supabase);
@@ -0,0 +1,20 @@
+import type { LedgerSummary } from '@/types/summary.types';
+
+// Client for GET /api/summary
+export const fetchLedgerSummary = async (params: {
+  startDate?: string;
+  endDate?: string;
+  propertyId?: string | null;
+}): Promise<LedgerSummary> => {
+  const query = new URLSearchParams();
+  if (params.startDate) query.set('startDate', params.startDate);
+  if (params.endDate) query.set('endDate', params.endDate);
+  if (params.propertyId) query.set('property', params.propertyId);
+
+  const response = await fetch(`/api/summary?${query.toString()}`);
+  if (!response.ok) {
+    const { error } = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error || `Summary request failed with status ${response.status}`);
+  }
+  return response.json();
+};
@@ -0,0 +1,16 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+
+// Service-role client for server jobs that run without a signed-in user.
+// It bypasses row-level security, so it must never reach the browser.
+export const createSupabaseAdminClient = () =>
+  createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
@@ -0,0 +1,15 @@
+import { createBrowserClient } from '@supabase/ssr';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+
+let browserClient: SupabaseClient<Database> | null = null;
+
+// Supabase client for client components, acting as the signed-in user. One
+// client is shared by the whole tab rather than created on every render.
+export const getSupabaseBrowserClient = () => {
+  browserClient ??= createBrowserClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+  );
+  return browserClient;
+};
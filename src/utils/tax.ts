@@ -0,0 +1,97 @@
+import type { Expense, Income } from '@/types/database.types';
+import { financialYearMonths } from '@/utils/dates';
+
+type TaxedEntry = Pick<Income | Expense, 'date' | 'amount' | 'gst_amount' | 'tds_amount' | 'exchange_rate' | 'base_amount'>;
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// GST contained in a GST-inclusive amount: 1180 at 18% holds 180 of tax
+export const gstFromGross = (gross: number, rate: number) => round2((gross * rate) / (100 + rate));
+
+// Amount before GST
+export const netAmount = (entry: Pick<TaxedEntry, 'amount' | 'gst_amount'>) =>
+  round2(entry.amount - (entry.gst_amount ?? 0));
+
+// Tax inputs as typed into a form
+export interface TaxFieldValues {
+  gst_rate: string;
+  gst_amount: string;
+  tds_amount: string;
+  gstin: string;
+}
+
+export const emptyTaxFields: TaxFieldValues = { gst_rate: '', gst_amount: '', tds_amount: '', gstin: '' };
+
+// Form values to tax columns. Blank fields are stored as null; a GST rate
+// without an amount gets the amount worked out from the gross.
+export const taxColumns = (amount: number, fields: TaxFieldValues) => {
+  const gstRate = fields.gst_rate === '' ? null : parseFloat(fields.gst_rate);
+  const gstAmount = fields.gst_amount !== ''
+    ? parseFloat(fields.gst_amount)
+    : gstRate !== null ? gstFromGross(amount, gstRate) : null;
+
+  return {
+    gst_rate: gstRate,
+    gst_amount: gstAmount,
+    tds_amount: fields.tds_amount === '' ? null : parseFloat(fields.tds_amount),
+    gstin: fields.gstin.trim().toUpperCase() || null
+  };
+};
+
+export interface TaxTotals {
+  grossIncome: number;
+  netIncome: number;
+  outputTax: number;
+  // TDS that customers withheld from payments to us
+  tdsReceivable: number;
+  grossExpenses: number;
+  netExpenses: number;
+  inputTaxCredit: number;
+  // TDS we withheld from vendors and owe to the government
+  tdsPayable: number;
+}
+
+const emptyTaxTotals = (): TaxTotals => ({
+  grossIncome: 0,
+  netIncome: 0,
+  outputTax: 0,
+  tdsReceivable: 0,
+  grossExpenses: 0,
+  netExpenses: 0,
+  inputTaxCredit: 0,
+  tdsPayable: 0
+});
+
+// Tax on foreign-currency entries is converted at the entry's stored rate
+const inRupees = (entry: TaxedEntry, value: number | null) => round2((value ?? 0) * entry.exchange_rate);
+
+const addTotals = (totals: TaxTotals, income: TaxedEntry[], expenses: TaxedEntry[]) => {
+  income.forEach(entry => {
+    totals.grossIncome += entry.base_amount;
+    totals.netIncome += entry.base_amount - inRupees(entry, entry.gst_amount);
+    totals.outputTax += inRupees(entry, entry.gst_amount);
+    totals.tdsReceivable += inRupees(entry, entry.tds_amount);
+  });
+  expenses.forEach(entry => {
+    totals.grossExpenses += entry.base_amount;
+    totals.netExpenses += entry.base_amount - inRupees(entry, entry.gst_amount);
+    totals.inputTaxCredit += inRupees(entry, entry.gst_amount);
+    totals.tdsPayable += inRupees(entry, entry.tds_amount);
+  });
+  return totals;
+};
+
+// Totals for the whole year and for each of its months
+export const taxSummary = (startYear: number, income: TaxedEntry[], expenses: TaxedEntry[]) => {
+  const inMonth = (month: string) => (entry: TaxedEntry) => entry.date.startsWith(month);
+
+  return {
+    totals: addTotals(emptyTaxTotals(), income, expenses),
+    months: financialYearMonths(startYear).map(month => ({
+      month,
+      ...addTotals(emptyTaxTotals(), income.filter(inMonth(month)), expenses.filter(inMonth(month)))
+    }))
+  };
+};
@@ -0,0 +1,122 @@
+import { addDays, parseDate, type DateRange } from '@/utils/dates';
+
+// Validation rules shared by the forms, the API routes and the CSV import.
+// The database enforces the ledger rules too, in validate_ledger_entry; keep
+// the limits here in step with that migration.
+
+export const MAX_DESCRIPTION_LENGTH = 200;
+// Entries may be dated ahead, for advance payments, but not further than this
+export const MAX_FUTURE_DAYS = 365;
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>;
+
+// A rule returns the message for an invalid value, or null. It sees the
+// other values too, for rules that compare fields.
+type Rule<T, K extends keyof T, C> = (value: T[K], values: T, context: C) => string | null;
+
+export type Schema<T, C = void> = { [K in keyof T]?: Rule<T, K, C> };
+
+export const validate = <T, C>(schema: Schema<T, C>, values: T, context: C): FieldErrors<T> => {
+  const errors: FieldErrors<T> = {};
+  for (const field of Object.keys(schema) as (keyof T)[]) {
+    const message = schema[field]?.(values[field], values, context);
+    if (message) errors[field] = message;
+  }
+  return errors;
+};
+
+export const hasErrors = <T>(errors: FieldErrors<T>) => Object.keys(errors).length > 0;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidDate = (date: string) => {
+  if (!DATE_PATTERN.test(date)) return false;
+  const [year, month, day] = date.split('-').map(Number);
+  const parsed = parseDate(date);
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day;
+};
+
+export interface LedgerEntryValues {
+  date: string;
+  amount: number;
+  description: string;
+  category: string;
+  // Rupees per unit of a foreign currency
+  exchange_rate?: number;
+}
+
+export interface LedgerEntryContext {
+  today: string;
+  // Category codes the entry may use; left out where the database checks them
+  categories?: string[];
+}
+
+export const ledgerEntrySchema: Schema<LedgerEntryValues, LedgerEntryContext> = {
+  date: (date, _values, { today }) => {
+    if (!isValidDate(date)) return 'Enter a valid date';
+    if (date > addDays(today, MAX_FUTURE_DAYS)) return `Date cannot be more than ${MAX_FUTURE_DAYS} days ahead`;
+    return null;
+  },
+  amount: amount => (Number.isFinite(amount) && amount > 0 ? null : 'Amount must be greater than zero'),
+  description: description => {
+    if (!description.trim()) return 'Description is required';
+    if (description.length > MAX_DESCRIPTION_LENGTH) return `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`;
+    return null;
+  },
+  category: (category, _values, { categories }) =>
+    !categories || categories.includes(category) ? null : 'Choose a valid category',
+  exchange_rate: rate =>
+    rate === undefined || (Number.isFinite(rate) && rate > 0) ? null : 'Exchange rate must be greater than zero'
+};
+
+export const validateLedgerEntry = (values: LedgerEntryValues, context: LedgerEntryContext) =>
+  validate(ledgerEntrySchema, values, context);
+
+export const dateRangeSchema: Schema<DateRange> = {
+  startDate: date => (isValidDate(date) ? null : 'Enter a valid start date'),
+  endDate: (date, { startDate }) => {
+    if (!isValidDate(date)) return 'Enter a valid end date';
+    if (date < startDate) return 'End date cannot be before start date';
+    return null;
+  }
+};
+
+export interface BookingValues {
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  nightly_rate: number;
+}
+
+// The bookings table checks the dates too, in bookings_dates_check
+export const bookingSchema: Schema<BookingValues> = {
+  guest_name: name => (name.trim() ? null : 'Guest name is required'),
+  check_in: date => (isValidDate(date) ? null : 'Enter a valid check-in date'),
+  check_out: (date, { check_in }) => {
+    if (!isValidDate(date)) return 'Enter a valid check-out date';
+    if (date <= check_in) return 'Check-out must be after check-in';
+    return null;
+  },
+  nightly_rate: rate => (Number.isFinite(rate) && rate >= 0 ? null : 'Nightly rate cannot be negative')
+};
+
+// Table constraints whose violations belong to a form field
+const constraintFields: Record<string, { field: string; message: string }> = {
+  bookings_dates_check: { field: 'check_out', message: 'Check-out must be after check-in' },
+  // Another session may have booked the same dates since the page loaded
+  bookings_no_overlap: { field: 'check_in', message: 'These dates overlap with another booking' }
+};
+
+// validate_ledger_entry raises check_violation with the field as its hint,
+// so a rejected save can point at the field like the form's own checks.
+// Violations of the constraints above are placed the same way.
+export const serverFieldErrors = <T = LedgerEntryValues>(error: unknown): FieldErrors<T> | null => {
+  const { code, hint, message } = (error ?? {}) as { code?: string; hint?: string; message?: string };
+  if (code === '23514' && hint && message && hint in ledgerEntrySchema) {
+    return { [hint]: message } as FieldErrors<T>;
+  }
+
+  const constraint = message?.match(/constraint "([^"]+)"/)?.[1];
+  const target = constraint && Object.hasOwn(constraintFields, constraint) ? constraintFields[constraint] : null;
+  return target ? ({ [target.field]: target.message } as FieldErrors<T>) : null;
+};
@@ -0,0 +1,41 @@
+-- The income and expense tables as the app started with them. They were
+-- first created by hand, so existing databases already have them; a fresh
+-- database needs them before anything below refers to them.
+create table if not exists public.income (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  date date not null,
+  amount numeric(12, 2) not null,
+  description text not null,
+  category text not null
+);
+
+create table if not exists public.expenses (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  date date not null,
+  amount numeric(12, 2) not null,
+  description text not null,
+  category text not null
+);
+
+-- Reservations for the chalet. A confirmed booking is linked to the income
+-- row recorded for it.
+create table if not exists public.bookings (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  guest_name text not null,
+  check_in date not null,
+  check_out date not null,
+  nightly_rate numeric(12, 2) not null check (nightly_rate >= 0),
+  status text not null default 'PENDING'
+    check (status in ('PENDING', 'CONFIRMED', 'CANCELLED')),
+  income_id uuid references public.income (id) on delete set null,
+  constraint bookings_dates_check check (check_out > check_in),
+  -- Refuse double bookings. Check-out day is free for the next guest.
+  constraint bookings_no_overlap exclude using gist (
+    daterange(check_in, check_out, '[)') with &&
+  ) where (status <> 'CANCELLED')
+);
+
+create index if not exists bookings_check_in_idx on public.bookings (check_in);
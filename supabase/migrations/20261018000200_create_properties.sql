@@ -0,0 +1,45 @@
+-- Each chalet is a property; income, expenses and bookings belong to one.
+create table if not exists public.properties (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null,
+  location text
+);
+
+alter table public.income add column if not exists property_id uuid references public.properties (id);
+alter table public.expenses add column if not exists property_id uuid references public.properties (id);
+alter table public.bookings add column if not exists property_id uuid references public.properties (id);
+
+-- Existing rows were recorded for a single chalet; move them to a default
+-- property so that property_id can be required.
+do $$
+declare
+  default_property_id uuid;
+begin
+  if exists (select 1 from public.income where property_id is null)
+    or exists (select 1 from public.expenses where property_id is null)
+    or exists (select 1 from public.bookings where property_id is null) then
+    insert into public.properties (name) values ('Main Chalet')
+    returning id into default_property_id;
+
+    update public.income set property_id = default_property_id where property_id is null;
+    update public.expenses set property_id = default_property_id where property_id is null;
+    update public.bookings set property_id = default_property_id where property_id is null;
+  end if;
+end $$;
+
+alter table public.income alter column property_id set not null;
+alter table public.expenses alter column property_id set not null;
+alter table public.bookings alter column property_id set not null;
+
+create index if not exists income_property_id_date_idx on public.income (property_id, date);
+create index if not exists expenses_property_id_date_idx on public.expenses (property_id, date);
+
+-- Double bookings are only a conflict within the same property
+create extension if not exists btree_gist;
+
+alter table public.bookings drop constraint if exists bookings_no_overlap;
+alter table public.bookings add constraint bookings_no_overlap exclude using gist (
+  property_id with =,
+  daterange(check_in, check_out, '[)') with &&
+) where (status <> 'CANCELLED');
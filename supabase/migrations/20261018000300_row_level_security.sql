@@ -0,0 +1,97 @@
+-- Every row belongs to the account that created it. Row-level security
+-- makes sure a signed-in user only ever sees and changes their own rows.
+alter table public.properties add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.income add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.expenses add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+alter table public.bookings add column if not exists user_id uuid references auth.users (id) on delete cascade default auth.uid();
+
+-- Rows recorded before accounts were separated belong to the first account
+-- that signed up, which is the only one that could have created them.
+do $$
+declare
+  first_user_id uuid;
+begin
+  select id into first_user_id from auth.users order by created_at asc limit 1;
+
+  if first_user_id is not null then
+    update public.properties set user_id = first_user_id where user_id is null;
+    update public.income set user_id = first_user_id where user_id is null;
+    update public.expenses set user_id = first_user_id where user_id is null;
+    update public.bookings set user_id = first_user_id where user_id is null;
+  end if;
+end $$;
+
+alter table public.properties alter column user_id set not null;
+alter table public.income alter column user_id set not null;
+alter table public.expenses alter column user_id set not null;
+alter table public.bookings alter column user_id set not null;
+
+create index if not exists properties_user_id_idx on public.properties (user_id);
+create index if not exists income_user_id_idx on public.income (user_id);
+create index if not exists expenses_user_id_idx on public.expenses (user_id);
+create index if not exists bookings_user_id_idx on public.bookings (user_id);
+
+alter table public.properties enable row level security;
+alter table public.income enable row level security;
+alter table public.expenses enable row level security;
+alter table public.bookings enable row level security;
+
+-- Properties
+create policy "Users can read their own properties" on public.properties
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own properties" on public.properties
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users can update their own properties" on public.properties
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own properties" on public.properties
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Ledger rows and bookings may only point at a property the user owns
+create or replace function public.owns_property(target_property_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.properties
+    where id = target_property_id and user_id = auth.uid()
+  );
+$$;
+
+-- Income
+create policy "Users can read their own income" on public.income
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own income" on public.income
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can update their own income" on public.income
+  for update to authenticated using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can delete their own income" on public.income
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Expenses
+create policy "Users can read their own expenses" on public.expenses
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own expenses" on public.expenses
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can update their own expenses" on public.expenses
+  for update to authenticated using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can delete their own expenses" on public.expenses
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Bookings
+create policy "Users can read their own bookings" on public.bookings
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own bookings" on public.bookings
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can update their own bookings" on public.bookings
+  for update to authenticated using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can delete their own bookings" on public.bookings
+  for delete to authenticated using (user_id = auth.uid());
@@ -0,0 +1,21 @@
+-- CSV column mappings remembered per user, ledger and file layout
+create table if not exists public.import_mappings (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  ledger text not null check (ledger in ('income', 'expenses')),
+  header_signature text not null,
+  mapping jsonb not null,
+  constraint import_mappings_unique unique (user_id, ledger, header_signature)
+);
+
+alter table public.import_mappings enable row level security;
+
+create policy "Users can read their own import mappings" on public.import_mappings
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own import mappings" on public.import_mappings
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users can update their own import mappings" on public.import_mappings
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own import mappings" on public.import_mappings
+  for delete to authenticated using (user_id = auth.uid());
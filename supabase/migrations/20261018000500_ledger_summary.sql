@@ -0,0 +1,91 @@
+-- Totals, monthly buckets and category/property splits for a date range,
+-- computed in the database instead of in the browser. Runs as the caller so
+-- row-level security still limits it to their own rows. Null arguments mean
+-- no limit on that side.
+create or replace function public.ledger_summary(
+  start_date date default null,
+  end_date date default null,
+  target_property_id uuid default null
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with entries as (
+    select 'income' as kind, i.date, i.amount, i.category, i.property_id
+    from public.income i
+    where (start_date is null or i.date >= start_date)
+      and (end_date is null or i.date <= end_date)
+      and (target_property_id is null or i.property_id = target_property_id)
+    union all
+    select 'expense' as kind, e.date, e.amount, e.category, e.property_id
+    from public.expenses e
+    where (start_date is null or e.date >= start_date)
+      and (end_date is null or e.date <= end_date)
+      and (target_property_id is null or e.property_id = target_property_id)
+  ),
+  -- Every month of the range, so that months without entries show as zero
+  months as (
+    select to_char(month_start, 'YYYY-MM') as month
+    from generate_series(
+      date_trunc('month', coalesce(start_date, (select min(date) from entries))),
+      coalesce(end_date, (select max(date) from entries)),
+      interval '1 month'
+    ) as month_start
+  ),
+  monthly as (
+    select
+      m.month,
+      coalesce(sum(en.amount) filter (where en.kind = 'income'), 0) as income,
+      coalesce(sum(en.amount) filter (where en.kind = 'expense'), 0) as expenses
+    from months m
+    left join entries en on to_char(en.date, 'YYYY-MM') = m.month
+    group by m.month
+  ),
+  categories as (
+    select kind, category, sum(amount) as amount
+    from entries
+    group by kind, category
+  ),
+  properties as (
+    select
+      property_id,
+      coalesce(sum(amount) filter (where kind = 'income'), 0) as income,
+      coalesce(sum(amount) filter (where kind = 'expense'), 0) as expenses
+    from entries
+    group by property_id
+  )
+  select jsonb_build_object(
+    'totalIncome', (select coalesce(sum(amount), 0) from entries where kind = 'income'),
+    'totalExpenses', (select coalesce(sum(amount), 0) from entries where kind = 'expense'),
+    'monthlyData', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'month', month, 'income', income, 'expenses', expenses
+      ) order by month), '[]'::jsonb)
+      from monthly
+    ),
+    'categoryBreakdown', jsonb_build_object(
+      'income', (
+        select coalesce(jsonb_agg(jsonb_build_object('category', category, 'amount', amount)), '[]'::jsonb)
+        from categories where kind = 'income'
+      ),
+      'expenses', (
+        select coalesce(jsonb_agg(jsonb_build_object('category', category, 'amount', amount)), '[]'::jsonb)
+        from categories where kind = 'expense'
+      )
+    ),
+    'propertyBreakdown', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'propertyId', property_id, 'income', income, 'expenses', expenses
+      )), '[]'::jsonb)
+      from properties
+    )
+  );
+$$;
+
+grant execute on function public.ledger_summary(date, date, uuid) to authenticated;
+
+create index if not exists income_date_idx on public.income (date);
+create index if not exists expenses_date_idx on public.expenses (date);
@@ -0,0 +1,77 @@
+-- Income and expense categories, managed per user instead of hard-coded in
+-- the forms. Rows keep referring to a category by its code.
+create table if not exists public.categories (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  type text not null check (type in ('income', 'expense')),
+  code text not null check (code ~ '^[A-Z0-9_]+$'),
+  name text not null,
+  color text not null default '#9CA3AF' check (color ~ '^#[0-9A-Fa-f]{6}$'),
+  archived boolean not null default false,
+  constraint categories_unique_code unique (user_id, type, code)
+);
+
+alter table public.categories enable row level security;
+
+create policy "Users can read their own categories" on public.categories
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own categories" on public.categories
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users can update their own categories" on public.categories
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+-- The income form saved SERVICE while the sample generator used SERVICES
+update public.income set category = 'SERVICES' where category = 'SERVICE';
+
+create or replace function public.seed_default_categories(target_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.categories (user_id, type, code, name, color)
+  values
+    (target_user_id, 'income', 'RENTAL', 'Rental', '#6366F1'),
+    (target_user_id, 'income', 'SERVICES', 'Services', '#34D399'),
+    (target_user_id, 'income', 'OTHER', 'Other', '#9CA3AF'),
+    (target_user_id, 'expense', 'MAINTENANCE', 'Maintenance', '#F87171'),
+    (target_user_id, 'expense', 'UTILITIES', 'Utilities', '#FBBF24'),
+    (target_user_id, 'expense', 'SUPPLIES', 'Supplies', '#60A5FA'),
+    (target_user_id, 'expense', 'CLEANING', 'Cleaning', '#A78BFA'),
+    (target_user_id, 'expense', 'INSURANCE', 'Insurance', '#F472B6'),
+    (target_user_id, 'expense', 'OTHER', 'Other', '#9CA3AF')
+  on conflict (user_id, type, code) do nothing;
+$$;
+
+revoke execute on function public.seed_default_categories(uuid) from public, anon, authenticated;
+
+-- Existing accounts get the defaults plus any other category already used
+-- in their rows
+select public.seed_default_categories(id) from auth.users;
+
+insert into public.categories (user_id, type, code, name)
+select distinct user_id, 'income', category, initcap(replace(category, '_', ' '))
+from public.income
+union
+select distinct user_id, 'expense', category, initcap(replace(category, '_', ' '))
+from public.expenses
+on conflict (user_id, type, code) do nothing;
+
+-- New accounts start with the defaults
+create or replace function public.handle_new_user_categories()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  perform public.seed_default_categories(new.id);
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_categories on auth.users;
+create trigger on_auth_user_created_categories
+  after insert on auth.users
+  for each row execute function public.handle_new_user_categories();
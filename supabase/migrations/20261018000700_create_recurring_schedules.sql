@@ -0,0 +1,38 @@
+-- Templates for income and expenses that come back at a fixed interval
+create table if not exists public.recurring_schedules (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  property_id uuid not null references public.properties (id) on delete cascade,
+  ledger text not null check (ledger in ('income', 'expenses')),
+  amount numeric(12, 2) not null check (amount > 0),
+  description text not null,
+  category text not null,
+  interval text not null check (interval in ('WEEKLY', 'MONTHLY', 'QUARTERLY', 'YEARLY')),
+  start_date date not null,
+  end_date date,
+  last_generated_date date,
+  constraint recurring_schedules_dates_check check (end_date is null or end_date >= start_date)
+);
+
+alter table public.recurring_schedules enable row level security;
+
+create policy "Users can read their own schedules" on public.recurring_schedules
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own schedules" on public.recurring_schedules
+  for insert to authenticated
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can update their own schedules" on public.recurring_schedules
+  for update to authenticated using (user_id = auth.uid())
+  with check (user_id = auth.uid() and public.owns_property(property_id));
+create policy "Users can delete their own schedules" on public.recurring_schedules
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Rows generated from a schedule point back at it. One row per schedule and
+-- date keeps the generator idempotent; manual rows have no schedule and are
+-- not affected because nulls never conflict.
+alter table public.income add column if not exists schedule_id uuid references public.recurring_schedules (id) on delete set null;
+alter table public.expenses add column if not exists schedule_id uuid references public.recurring_schedules (id) on delete set null;
+
+alter table public.income add constraint income_schedule_date_unique unique (schedule_id, date);
+alter table public.expenses add constraint expenses_schedule_date_unique unique (schedule_id, date);
@@ -0,0 +1,43 @@
+-- Receipts and invoices attached to expense entries. The file itself lives in
+-- the storage backend under storage_path; this table holds its metadata.
+create table if not exists public.expense_attachments (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  expense_id uuid not null references public.expenses (id) on delete cascade,
+  file_name text not null,
+  content_type text not null,
+  size integer not null check (size > 0),
+  storage_path text not null unique
+);
+
+create index if not exists expense_attachments_expense_id_idx on public.expense_attachments (expense_id);
+
+alter table public.expense_attachments enable row level security;
+
+create policy "Users can read their own attachments" on public.expense_attachments
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can attach files to their own expenses" on public.expense_attachments
+  for insert to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.expenses e where e.id = expense_id and e.user_id = auth.uid())
+  );
+create policy "Users can delete their own attachments" on public.expense_attachments
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Private bucket for the Supabase storage backend. Objects are stored under
+-- <user id>/<expense id>/..., so the first folder decides who may touch them.
+insert into storage.buckets (id, name, public)
+values ('receipts', 'receipts', false)
+on conflict (id) do nothing;
+
+create policy "Users can read their own receipts" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'receipts' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Users can upload their own receipts" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'receipts' and (storage.foldername(name))[1] = auth.uid()::text);
+create policy "Users can delete their own receipts" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'receipts' and (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,25 @@
+-- Spending limits per expense category. A budget without a property covers
+-- the category across all of the user's properties.
+create table if not exists public.budgets (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  property_id uuid references public.properties (id) on delete cascade,
+  category text not null,
+  period text not null check (period in ('MONTHLY', 'QUARTERLY', 'YEARLY')),
+  amount numeric(12, 2) not null check (amount > 0),
+  constraint budgets_scope_unique unique nulls not distinct (user_id, property_id, category, period)
+);
+
+alter table public.budgets enable row level security;
+
+create policy "Users can read their own budgets" on public.budgets
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own budgets" on public.budgets
+  for insert to authenticated
+  with check (user_id = auth.uid() and (property_id is null or public.owns_property(property_id)));
+create policy "Users can update their own budgets" on public.budgets
+  for update to authenticated using (user_id = auth.uid())
+  with check (user_id = auth.uid() and (property_id is null or public.owns_property(property_id)));
+create policy "Users can delete their own budgets" on public.budgets
+  for delete to authenticated using (user_id = auth.uid());
@@ -0,0 +1,14 @@
+-- Optional GST and TDS details on income and expenses. amount stays the gross
+-- figure including GST; the net amount is amount - gst_amount. gstin is the
+-- other party's registration: the customer on income, the vendor on expenses.
+alter table public.income
+  add column if not exists gst_rate numeric(5, 2) check (gst_rate >= 0 and gst_rate <= 100),
+  add column if not exists gst_amount numeric(12, 2) check (gst_amount >= 0),
+  add column if not exists tds_amount numeric(12, 2) check (tds_amount >= 0),
+  add column if not exists gstin text check (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
+
+alter table public.expenses
+  add column if not exists gst_rate numeric(5, 2) check (gst_rate >= 0 and gst_rate <= 100),
+  add column if not exists gst_amount numeric(12, 2) check (gst_amount >= 0),
+  add column if not exists tds_amount numeric(12, 2) check (tds_amount >= 0),
+  add column if not exists gstin text check (gstin ~ '^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$');
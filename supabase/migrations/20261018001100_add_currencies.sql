@@ -0,0 +1,122 @@
+-- Entries can be recorded in a foreign currency. exchange_rate is the number
+-- of rupees per unit on the transaction date, stored with the row so later
+-- rate changes never alter past totals. base_amount is the rupee value that
+-- all totals are built from.
+alter table public.income
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists exchange_rate numeric(14, 6) not null default 1 check (exchange_rate > 0),
+  add column if not exists base_amount numeric(12, 2) generated always as (round(amount * exchange_rate, 2)) stored,
+  add constraint income_base_currency_rate_check check (currency <> 'INR' or exchange_rate = 1);
+
+alter table public.expenses
+  add column if not exists currency text not null default 'INR' check (currency ~ '^[A-Z]{3}$'),
+  add column if not exists exchange_rate numeric(14, 6) not null default 1 check (exchange_rate > 0),
+  add column if not exists base_amount numeric(12, 2) generated always as (round(amount * exchange_rate, 2)) stored,
+  add constraint expenses_base_currency_rate_check check (currency <> 'INR' or exchange_rate = 1);
+
+-- Rates entered by hand or imported from a file, used to fill in the rate
+-- of new entries. One rate per currency and day.
+create table if not exists public.exchange_rates (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  currency text not null check (currency ~ '^[A-Z]{3}$' and currency <> 'INR'),
+  rate_date date not null,
+  rate numeric(14, 6) not null check (rate > 0),
+  constraint exchange_rates_currency_date_unique unique (user_id, currency, rate_date)
+);
+
+alter table public.exchange_rates enable row level security;
+
+create policy "Users can read their own exchange rates" on public.exchange_rates
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own exchange rates" on public.exchange_rates
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users can update their own exchange rates" on public.exchange_rates
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own exchange rates" on public.exchange_rates
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Summaries add up rupee values rather than amounts in mixed currencies
+create or replace function public.ledger_summary(
+  start_date date default null,
+  end_date date default null,
+  target_property_id uuid default null
+)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with entries as (
+    select 'income' as kind, i.date, i.base_amount as amount, i.category, i.property_id
+    from public.income i
+    where (start_date is null or i.date >= start_date)
+      and (end_date is null or i.date <= end_date)
+      and (target_property_id is null or i.property_id = target_property_id)
+    union all
+    select 'expense' as kind, e.date, e.base_amount as amount, e.category, e.property_id
+    from public.expenses e
+    where (start_date is null or e.date >= start_date)
+      and (end_date is null or e.date <= end_date)
+      and (target_property_id is null or e.property_id = target_property_id)
+  ),
+  -- Every month of the range, so that months without entries show as zero
+  months as (
+    select to_char(month_start, 'YYYY-MM') as month
+    from generate_series(
+      date_trunc('month', coalesce(start_date, (select min(date) from entries))),
+      coalesce(end_date, (select max(date) from entries)),
+      interval '1 month'
+    ) as month_start
+  ),
+  monthly as (
+    select
+      m.month,
+      coalesce(sum(en.amount) filter (where en.kind = 'income'), 0) as income,
+      coalesce(sum(en.amount) filter (where en.kind = 'expense'), 0) as expenses
+    from months m
+    left join entries en on to_char(en.date, 'YYYY-MM') = m.month
+    group by m.month
+  ),
+  categories as (
+    select kind, category, sum(amount) as amount
+    from entries
+    group by kind, category
+  ),
+  properties as (
+    select
+      property_id,
+      coalesce(sum(amount) filter (where kind = 'income'), 0) as income,
+      coalesce(sum(amount) filter (where kind = 'expense'), 0) as expenses
+    from entries
+    group by property_id
+  )
+  select jsonb_build_object(
+    'totalIncome', (select coalesce(sum(amount), 0) from entries where kind = 'income'),
+    'totalExpenses', (select coalesce(sum(amount), 0) from entries where kind = 'expense'),
+    'monthlyData', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'month', month, 'income', income, 'expenses', expenses
+      ) order by month), '[]'::jsonb)
+      from monthly
+    ),
+    'categoryBreakdown', jsonb_build_object(
+      'income', (
+        select coalesce(jsonb_agg(jsonb_build_object('category', category, 'amount', amount)), '[]'::jsonb)
+        from categories where kind = 'income'
+      ),
+      'expenses', (
+        select coalesce(jsonb_agg(jsonb_build_object('category', category, 'amount', amount)), '[]'::jsonb)
+        from categories where kind = 'expense'
+      )
+    ),
+    'propertyBreakdown', (
+      select coalesce(jsonb_agg(jsonb_build_object(
+        'propertyId', property_id, 'income', income, 'expenses', expenses
+      )), '[]'::jsonb)
+      from properties
+    )
+  );
+$$;
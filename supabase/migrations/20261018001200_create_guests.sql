@@ -0,0 +1,60 @@
+-- Guests and corporate clients, so repeat stays can be traced to one person
+-- or company instead of free text in income descriptions
+create table if not exists public.guests (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  name text not null check (length(trim(name)) > 0),
+  email text,
+  phone text,
+  company text,
+  notes text
+);
+
+create index if not exists guests_user_name_idx on public.guests (user_id, lower(name));
+
+alter table public.guests enable row level security;
+
+create policy "Users can read their own guests" on public.guests
+  for select to authenticated using (user_id = auth.uid());
+create policy "Users can create their own guests" on public.guests
+  for insert to authenticated with check (user_id = auth.uid());
+create policy "Users can update their own guests" on public.guests
+  for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy "Users can delete their own guests" on public.guests
+  for delete to authenticated using (user_id = auth.uid());
+
+-- Deleting a guest keeps their income, just without the link
+alter table public.income add column if not exists guest_id uuid references public.guests (id) on delete set null;
+
+create index if not exists income_guest_id_idx on public.income (guest_id);
+
+create or replace function public.owns_guest(target_guest_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.guests
+    where id = target_guest_id and user_id = auth.uid()
+  );
+$$;
+
+-- Income may only point at the user's own guests
+drop policy if exists "Users can create their own income" on public.income;
+drop policy if exists "Users can update their own income" on public.income;
+
+create policy "Users can create their own income" on public.income
+  for insert to authenticated
+  with check (
+    user_id = auth.uid() and public.owns_property(property_id)
+    and (guest_id is null or public.owns_guest(guest_id))
+  );
+create policy "Users can update their own income" on public.income
+  for update to authenticated using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid() and public.owns_property(property_id)
+    and (guest_id is null or public.owns_guest(guest_id))
+  );
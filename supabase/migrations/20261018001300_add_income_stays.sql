@@ -0,0 +1,20 @@
+-- Nights sold, for occupancy, ADR and RevPAR. Only accommodation income has
+-- a stay; other income such as tours or cleaning fees leaves both empty.
+alter table public.income
+  add column if not exists check_in date,
+  add column if not exists nights integer check (nights > 0);
+
+alter table public.income add constraint income_stay_check
+  check ((check_in is null) = (nights is null));
+
+-- Morning the guest leaves; the night before it is the last one sold
+alter table public.income
+  add column if not exists check_out date generated always as (check_in + nights) stored;
+
+create index if not exists income_stay_idx on public.income (check_in, check_out) where check_in is not null;
+
+-- Income already recorded from confirmed bookings gets the booking's stay
+update public.income i
+set check_in = b.check_in, nights = b.check_out - b.check_in
+from public.bookings b
+where b.income_id = i.id and i.check_in is null;
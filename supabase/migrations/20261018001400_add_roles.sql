@@ -0,0 +1,310 @@
+-- Staff roles. Every account's owner sees and changes everything in their
+-- books; other users can be added to an account as a manager, cleaner or
+-- accountant. Rows keep user_id as the account they belong to, so a manager
+-- recording income for an owner stores the owner's id.
+create table if not exists public.account_members (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  owner_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('MANAGER', 'CLEANER', 'ACCOUNTANT')),
+  constraint account_members_not_owner check (owner_id <> user_id),
+  -- A member works in one set of books besides their own
+  constraint account_members_one_account unique (user_id)
+);
+
+create index if not exists account_members_owner_id_idx on public.account_members (owner_id);
+
+alter table public.account_members enable row level security;
+
+create policy "Owners and members can read memberships" on public.account_members
+  for select to authenticated using (owner_id = auth.uid() or user_id = auth.uid());
+create policy "Owners can change member roles" on public.account_members
+  for update to authenticated using (owner_id = auth.uid()) with check (owner_id = auth.uid());
+create policy "Owners can remove members" on public.account_members
+  for delete to authenticated using (owner_id = auth.uid());
+
+-- Adding goes through this function because other users' ids can only be
+-- looked up by email on the server
+create or replace function public.add_account_member(member_email text, member_role text)
+returns public.account_members
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  member_id uuid;
+  result public.account_members;
+begin
+  select id into member_id from auth.users where lower(email) = lower(trim(member_email));
+
+  if member_id is null then
+    raise exception 'No account uses %', member_email using errcode = 'P0002';
+  end if;
+
+  insert into public.account_members (owner_id, user_id, role)
+  values (auth.uid(), member_id, member_role)
+  returning * into result;
+
+  return result;
+end;
+$$;
+
+revoke execute on function public.add_account_member(text, text) from public, anon;
+grant execute on function public.add_account_member(text, text) to authenticated;
+
+-- Emails of the owner's members, for the team screen
+create or replace function public.account_member_emails()
+returns table (user_id uuid, email text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select m.user_id, u.email::text
+  from public.account_members m
+  join auth.users u on u.id = m.user_id
+  where m.owner_id = auth.uid();
+$$;
+
+revoke execute on function public.account_member_emails() from public, anon;
+grant execute on function public.account_member_emails() to authenticated;
+
+-- The signed-in user's role in an account, or null without access
+create or replace function public.account_role(account_id uuid)
+returns text
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select case
+    when account_id = auth.uid() then 'OWNER'
+    else (
+      select role from public.account_members
+      where owner_id = account_id and user_id = auth.uid()
+    )
+  end;
+$$;
+
+create or replace function public.has_role(account_id uuid, variadic roles text[])
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select coalesce(public.account_role(account_id) = any (roles), false);
+$$;
+
+-- Rows may only point at properties and guests of the same account
+create or replace function public.property_in_account(target_property_id uuid, account_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.properties
+    where id = target_property_id and user_id = account_id
+  );
+$$;
+
+create or replace function public.guest_in_account(target_guest_id uuid, account_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.guests
+    where id = target_guest_id and user_id = account_id
+  );
+$$;
+
+-- Replace the owner-only policies with role-aware ones
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in (
+      'properties', 'income', 'expenses', 'bookings', 'categories', 'import_mappings',
+      'recurring_schedules', 'expense_attachments', 'budgets', 'exchange_rates', 'guests'
+    )
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end $$;
+
+-- Properties: everyone in the account sees them, only the owner changes them
+create policy "Members can read properties" on public.properties
+  for select to authenticated using (public.account_role(user_id) is not null);
+create policy "Owners can create properties" on public.properties
+  for insert to authenticated with check (public.has_role(user_id, 'OWNER'));
+create policy "Owners can update properties" on public.properties
+  for update to authenticated using (public.has_role(user_id, 'OWNER'))
+  with check (public.has_role(user_id, 'OWNER'));
+create policy "Owners can delete properties" on public.properties
+  for delete to authenticated using (public.has_role(user_id, 'OWNER'));
+
+-- Income: recorded by owners and managers, read by accountants too
+create policy "Members can read income" on public.income
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create income" on public.income
+  for insert to authenticated
+  with check (
+    public.has_role(user_id, 'OWNER', 'MANAGER')
+    and public.property_in_account(property_id, user_id)
+    and (guest_id is null or public.guest_in_account(guest_id, user_id))
+  );
+create policy "Managers can update income" on public.income
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (
+    public.has_role(user_id, 'OWNER', 'MANAGER')
+    and public.property_in_account(property_id, user_id)
+    and (guest_id is null or public.guest_in_account(guest_id, user_id))
+  );
+create policy "Managers can delete income" on public.income
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Expenses: cleaners only see and log cleaning expenses
+create policy "Members can read expenses" on public.expenses
+  for select to authenticated
+  using (
+    public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT')
+    or (public.has_role(user_id, 'CLEANER') and category = 'CLEANING')
+  );
+create policy "Managers and cleaners can create expenses" on public.expenses
+  for insert to authenticated
+  with check (
+    (
+      public.has_role(user_id, 'OWNER', 'MANAGER')
+      or (public.has_role(user_id, 'CLEANER') and category = 'CLEANING')
+    )
+    and public.property_in_account(property_id, user_id)
+  );
+create policy "Managers can update expenses" on public.expenses
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER') and public.property_in_account(property_id, user_id));
+create policy "Managers can delete expenses" on public.expenses
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Bookings
+create policy "Members can read bookings" on public.bookings
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create bookings" on public.bookings
+  for insert to authenticated
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER') and public.property_in_account(property_id, user_id));
+create policy "Managers can update bookings" on public.bookings
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER') and public.property_in_account(property_id, user_id));
+create policy "Managers can delete bookings" on public.bookings
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Categories: every role needs the names, only the owner edits them
+create policy "Members can read categories" on public.categories
+  for select to authenticated using (public.account_role(user_id) is not null);
+create policy "Owners can create categories" on public.categories
+  for insert to authenticated with check (public.has_role(user_id, 'OWNER'));
+create policy "Owners can update categories" on public.categories
+  for update to authenticated using (public.has_role(user_id, 'OWNER'))
+  with check (public.has_role(user_id, 'OWNER'));
+
+-- Import mappings go with the right to import rows
+create policy "Managers can read import mappings" on public.import_mappings
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+create policy "Managers can create import mappings" on public.import_mappings
+  for insert to authenticated with check (public.has_role(user_id, 'OWNER', 'MANAGER'));
+create policy "Managers can update import mappings" on public.import_mappings
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER'));
+create policy "Managers can delete import mappings" on public.import_mappings
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Recurring schedules
+create policy "Members can read schedules" on public.recurring_schedules
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create schedules" on public.recurring_schedules
+  for insert to authenticated
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER') and public.property_in_account(property_id, user_id));
+create policy "Managers can update schedules" on public.recurring_schedules
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER') and public.property_in_account(property_id, user_id));
+create policy "Managers can delete schedules" on public.recurring_schedules
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Attachments follow the expense they belong to, which the expense
+-- policies above already limit by role
+create policy "Members can read attachments" on public.expense_attachments
+  for select to authenticated
+  using (exists (select 1 from public.expenses e where e.id = expense_id));
+create policy "Members can attach receipts" on public.expense_attachments
+  for insert to authenticated
+  with check (
+    public.has_role(user_id, 'OWNER', 'MANAGER', 'CLEANER')
+    and exists (
+      select 1 from public.expenses e
+      where e.id = expense_id and e.user_id = expense_attachments.user_id
+    )
+  );
+create policy "Managers can delete attachments" on public.expense_attachments
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Budgets are shown to managers for overspend warnings
+create policy "Members can read budgets" on public.budgets
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Owners can create budgets" on public.budgets
+  for insert to authenticated
+  with check (public.has_role(user_id, 'OWNER') and (property_id is null or public.property_in_account(property_id, user_id)));
+create policy "Owners can update budgets" on public.budgets
+  for update to authenticated using (public.has_role(user_id, 'OWNER'))
+  with check (public.has_role(user_id, 'OWNER') and (property_id is null or public.property_in_account(property_id, user_id)));
+create policy "Owners can delete budgets" on public.budgets
+  for delete to authenticated using (public.has_role(user_id, 'OWNER'));
+
+-- Exchange rates fill in the rate on every entry form
+create policy "Members can read exchange rates" on public.exchange_rates
+  for select to authenticated using (public.account_role(user_id) is not null);
+create policy "Owners can create exchange rates" on public.exchange_rates
+  for insert to authenticated with check (public.has_role(user_id, 'OWNER'));
+create policy "Owners can update exchange rates" on public.exchange_rates
+  for update to authenticated using (public.has_role(user_id, 'OWNER'))
+  with check (public.has_role(user_id, 'OWNER'));
+create policy "Owners can delete exchange rates" on public.exchange_rates
+  for delete to authenticated using (public.has_role(user_id, 'OWNER'));
+
+-- Guests
+create policy "Members can read guests" on public.guests
+  for select to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create guests" on public.guests
+  for insert to authenticated with check (public.has_role(user_id, 'OWNER', 'MANAGER'));
+create policy "Managers can update guests" on public.guests
+  for update to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(user_id, 'OWNER', 'MANAGER'));
+create policy "Managers can delete guests" on public.guests
+  for delete to authenticated using (public.has_role(user_id, 'OWNER', 'MANAGER'));
+
+-- Receipt files sit under the account id, like the rows
+drop policy if exists "Users can read their own receipts" on storage.objects;
+drop policy if exists "Users can upload their own receipts" on storage.objects;
+drop policy if exists "Users can delete their own receipts" on storage.objects;
+
+create policy "Members can read receipts" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'receipts' and public.account_role(((storage.foldername(name))[1])::uuid) is not null);
+create policy "Members can upload receipts" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'receipts'
+    and public.has_role(((storage.foldername(name))[1])::uuid, 'OWNER', 'MANAGER', 'CLEANER')
+  );
+create policy "Managers can delete receipts" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'receipts'
+    and public.has_role(((storage.foldername(name))[1])::uuid, 'OWNER', 'MANAGER')
+  );
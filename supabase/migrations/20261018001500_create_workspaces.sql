@@ -0,0 +1,604 @@
+-- Workspaces own the ledgers. Every user gets a workspace of their own at
+-- signup and can be invited into others by email. Rows keep user_id as the
+-- person who recorded them; workspace_id decides who may see them.
+create table if not exists public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null check (length(trim(name)) > 0),
+  created_by uuid references auth.users (id) on delete set null default auth.uid()
+);
+
+create table if not exists public.workspace_members (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('OWNER', 'MANAGER', 'CLEANER', 'ACCOUNTANT')),
+  -- The workspace the user is currently working in
+  is_active boolean not null default false,
+  constraint workspace_members_unique unique (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+create unique index if not exists workspace_members_one_active_idx
+  on public.workspace_members (user_id) where is_active;
+
+-- Pending invitations. Only a hash of the token is stored; the token itself
+-- is only ever in the emailed link.
+create table if not exists public.workspace_invitations (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  email text not null,
+  role text not null check (role in ('MANAGER', 'CLEANER', 'ACCOUNTANT')),
+  token_hash text not null unique,
+  invited_by uuid references auth.users (id) on delete set null default auth.uid(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users (id) on delete set null
+);
+
+create index if not exists workspace_invitations_workspace_id_idx on public.workspace_invitations (workspace_id);
+
+-- Existing users keep their books: each account becomes a workspace with the
+-- same id, so receipt paths stored under the account id stay valid
+insert into public.workspaces (id, name, created_by)
+select id, split_part(email, '@', 1) || '''s chalets', id
+from auth.users
+on conflict (id) do nothing;
+
+insert into public.workspace_members (workspace_id, user_id, role, is_active)
+select u.id, u.id, 'OWNER', not exists (select 1 from public.account_members m where m.user_id = u.id)
+from auth.users u
+on conflict (workspace_id, user_id) do nothing;
+
+insert into public.workspace_members (workspace_id, user_id, role, is_active)
+select owner_id, user_id, role, true
+from public.account_members
+on conflict (workspace_id, user_id) do nothing;
+
+-- Add workspace_id to every table, filled from the account id in user_id
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'properties', 'income', 'expenses', 'bookings', 'categories', 'import_mappings',
+    'recurring_schedules', 'expense_attachments', 'budgets', 'exchange_rates', 'guests'
+  ]
+  loop
+    execute format(
+      'alter table public.%I add column if not exists workspace_id uuid references public.workspaces (id) on delete cascade',
+      table_name
+    );
+    execute format('update public.%I set workspace_id = user_id where workspace_id is null', table_name);
+    execute format('alter table public.%I alter column workspace_id set not null', table_name);
+    execute format('create index if not exists %I on public.%I (workspace_id)', table_name || '_workspace_id_idx', table_name);
+  end loop;
+end $$;
+
+-- Codes, mappings, budgets and rates are now unique per workspace
+alter table public.categories drop constraint if exists categories_unique_code;
+alter table public.categories add constraint categories_unique_code unique (workspace_id, type, code);
+alter table public.import_mappings drop constraint if exists import_mappings_unique;
+alter table public.import_mappings add constraint import_mappings_unique unique (workspace_id, ledger, header_signature);
+alter table public.budgets drop constraint if exists budgets_scope_unique;
+alter table public.budgets add constraint budgets_scope_unique unique nulls not distinct (workspace_id, property_id, category, period);
+alter table public.exchange_rates drop constraint if exists exchange_rates_currency_date_unique;
+alter table public.exchange_rates add constraint exchange_rates_currency_date_unique unique (workspace_id, currency, rate_date);
+
+-- The workspace the signed-in user works in: the one they last switched to,
+-- else their own. Security definer because the membership policies below
+-- call it.
+create or replace function public.active_workspace()
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select workspace_id from public.workspace_members
+  where user_id = auth.uid()
+  order by is_active desc, (role = 'OWNER') desc, created_at asc
+  limit 1;
+$$;
+
+-- The signed-in user's role in a workspace, or null without access. Only
+-- the active workspace counts, so every query sees one workspace's books
+-- without filtering on workspace_id itself.
+create or replace function public.workspace_role(target_workspace_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select role from public.workspace_members
+  where workspace_id = target_workspace_id
+    and user_id = auth.uid()
+    and target_workspace_id = public.active_workspace();
+$$;
+
+-- Replace the account policies before their helpers go away
+do $$
+declare
+  policy record;
+begin
+  for policy in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in (
+      'properties', 'income', 'expenses', 'bookings', 'categories', 'import_mappings',
+      'recurring_schedules', 'expense_attachments', 'budgets', 'exchange_rates', 'guests'
+    )
+  loop
+    execute format('drop policy %I on public.%I', policy.policyname, policy.tablename);
+  end loop;
+end $$;
+
+drop policy if exists "Members can read receipts" on storage.objects;
+drop policy if exists "Members can upload receipts" on storage.objects;
+drop policy if exists "Managers can delete receipts" on storage.objects;
+
+drop function if exists public.has_role(uuid, variadic text[]);
+drop function if exists public.account_role(uuid);
+drop function if exists public.property_in_account(uuid, uuid);
+drop function if exists public.guest_in_account(uuid, uuid);
+drop function if exists public.add_account_member(text, text);
+drop function if exists public.account_member_emails();
+drop table if exists public.account_members;
+
+create or replace function public.has_role(target_workspace_id uuid, variadic roles text[])
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select coalesce(public.workspace_role(target_workspace_id) = any (roles), false);
+$$;
+
+-- Rows may only point at properties and guests of the same workspace
+create or replace function public.property_in_workspace(target_property_id uuid, target_workspace_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.properties
+    where id = target_property_id and workspace_id = target_workspace_id
+  );
+$$;
+
+create or replace function public.guest_in_workspace(target_guest_id uuid, target_workspace_id uuid)
+returns boolean
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.guests
+    where id = target_guest_id and workspace_id = target_workspace_id
+  );
+$$;
+
+-- New rows go to the active workspace unless the caller says otherwise
+do $$
+declare
+  table_name text;
+begin
+  foreach table_name in array array[
+    'properties', 'income', 'expenses', 'bookings', 'categories', 'import_mappings',
+    'recurring_schedules', 'expense_attachments', 'budgets', 'exchange_rates', 'guests'
+  ]
+  loop
+    execute format('alter table public.%I alter column workspace_id set default public.active_workspace()', table_name);
+  end loop;
+end $$;
+
+-- Workspaces: members see theirs, the owner renames it
+alter table public.workspaces enable row level security;
+
+create policy "Members can read their workspaces" on public.workspaces
+  for select to authenticated
+  using (exists (
+    select 1 from public.workspace_members m
+    where m.workspace_id = workspaces.id and m.user_id = auth.uid()
+  ));
+create policy "Owners can rename workspaces" on public.workspaces
+  for update to authenticated using (public.has_role(id, 'OWNER')) with check (public.has_role(id, 'OWNER'));
+
+-- Memberships: users see their own, plus everyone in the active workspace.
+-- Owners change the other members' roles and remove them; members may
+-- leave. Joining and switching go through the functions below.
+alter table public.workspace_members enable row level security;
+
+create policy "Members can read memberships" on public.workspace_members
+  for select to authenticated
+  using (user_id = auth.uid() or public.workspace_role(workspace_id) is not null);
+create policy "Owners can change member roles" on public.workspace_members
+  for update to authenticated
+  using (public.has_role(workspace_id, 'OWNER') and role <> 'OWNER')
+  with check (role <> 'OWNER');
+create policy "Owners can remove members and members can leave" on public.workspace_members
+  for delete to authenticated
+  using (
+    role <> 'OWNER'
+    and (user_id = auth.uid() or public.has_role(workspace_id, 'OWNER'))
+  );
+
+revoke update on public.workspace_members from authenticated;
+grant update (role) on public.workspace_members to authenticated;
+
+-- Invitations are managed by the workspace owner
+alter table public.workspace_invitations enable row level security;
+
+create policy "Owners can read invitations" on public.workspace_invitations
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can invite" on public.workspace_invitations
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can revoke invitations" on public.workspace_invitations
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER'));
+
+-- Properties: everyone in the workspace sees them, only the owner changes them
+create policy "Members can read properties" on public.properties
+  for select to authenticated using (public.workspace_role(workspace_id) is not null);
+create policy "Owners can create properties" on public.properties
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can update properties" on public.properties
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER'))
+  with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can delete properties" on public.properties
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER'));
+
+-- Income: recorded by owners and managers, read by accountants too
+create policy "Members can read income" on public.income
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create income" on public.income
+  for insert to authenticated
+  with check (
+    public.has_role(workspace_id, 'OWNER', 'MANAGER')
+    and public.property_in_workspace(property_id, workspace_id)
+    and (guest_id is null or public.guest_in_workspace(guest_id, workspace_id))
+  );
+create policy "Managers can update income" on public.income
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (
+    public.has_role(workspace_id, 'OWNER', 'MANAGER')
+    and public.property_in_workspace(property_id, workspace_id)
+    and (guest_id is null or public.guest_in_workspace(guest_id, workspace_id))
+  );
+create policy "Managers can delete income" on public.income
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Expenses: cleaners only see and log cleaning expenses
+create policy "Members can read expenses" on public.expenses
+  for select to authenticated
+  using (
+    public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT')
+    or (public.has_role(workspace_id, 'CLEANER') and category = 'CLEANING')
+  );
+create policy "Managers and cleaners can create expenses" on public.expenses
+  for insert to authenticated
+  with check (
+    (
+      public.has_role(workspace_id, 'OWNER', 'MANAGER')
+      or (public.has_role(workspace_id, 'CLEANER') and category = 'CLEANING')
+    )
+    and public.property_in_workspace(property_id, workspace_id)
+  );
+create policy "Managers can update expenses" on public.expenses
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER') and public.property_in_workspace(property_id, workspace_id));
+create policy "Managers can delete expenses" on public.expenses
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Bookings
+create policy "Members can read bookings" on public.bookings
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create bookings" on public.bookings
+  for insert to authenticated
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER') and public.property_in_workspace(property_id, workspace_id));
+create policy "Managers can update bookings" on public.bookings
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER') and public.property_in_workspace(property_id, workspace_id));
+create policy "Managers can delete bookings" on public.bookings
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Categories: every role needs the names, only the owner edits them
+create policy "Members can read categories" on public.categories
+  for select to authenticated using (public.workspace_role(workspace_id) is not null);
+create policy "Owners can create categories" on public.categories
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can update categories" on public.categories
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER'))
+  with check (public.has_role(workspace_id, 'OWNER'));
+
+-- Import mappings go with the right to import rows
+create policy "Managers can read import mappings" on public.import_mappings
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+create policy "Managers can create import mappings" on public.import_mappings
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+create policy "Managers can update import mappings" on public.import_mappings
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+create policy "Managers can delete import mappings" on public.import_mappings
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Recurring schedules
+create policy "Members can read schedules" on public.recurring_schedules
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create schedules" on public.recurring_schedules
+  for insert to authenticated
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER') and public.property_in_workspace(property_id, workspace_id));
+create policy "Managers can update schedules" on public.recurring_schedules
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER') and public.property_in_workspace(property_id, workspace_id));
+create policy "Managers can delete schedules" on public.recurring_schedules
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Attachments follow the expense they belong to, which the expense
+-- policies above already limit by role
+create policy "Members can read attachments" on public.expense_attachments
+  for select to authenticated
+  using (exists (select 1 from public.expenses e where e.id = expense_id));
+create policy "Members can attach receipts" on public.expense_attachments
+  for insert to authenticated
+  with check (
+    public.has_role(workspace_id, 'OWNER', 'MANAGER', 'CLEANER')
+    and exists (
+      select 1 from public.expenses e
+      where e.id = expense_id and e.workspace_id = expense_attachments.workspace_id
+    )
+  );
+create policy "Managers can delete attachments" on public.expense_attachments
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Budgets are shown to managers for overspend warnings
+create policy "Members can read budgets" on public.budgets
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Owners can create budgets" on public.budgets
+  for insert to authenticated
+  with check (public.has_role(workspace_id, 'OWNER') and (property_id is null or public.property_in_workspace(property_id, workspace_id)));
+create policy "Owners can update budgets" on public.budgets
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER'))
+  with check (public.has_role(workspace_id, 'OWNER') and (property_id is null or public.property_in_workspace(property_id, workspace_id)));
+create policy "Owners can delete budgets" on public.budgets
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER'));
+
+-- Exchange rates fill in the rate on every entry form
+create policy "Members can read exchange rates" on public.exchange_rates
+  for select to authenticated using (public.workspace_role(workspace_id) is not null);
+create policy "Owners can create exchange rates" on public.exchange_rates
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can update exchange rates" on public.exchange_rates
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER'))
+  with check (public.has_role(workspace_id, 'OWNER'));
+create policy "Owners can delete exchange rates" on public.exchange_rates
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER'));
+
+-- Guests
+create policy "Members can read guests" on public.guests
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+create policy "Managers can create guests" on public.guests
+  for insert to authenticated with check (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+create policy "Managers can update guests" on public.guests
+  for update to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'))
+  with check (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+create policy "Managers can delete guests" on public.guests
+  for delete to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER'));
+
+-- Receipt files sit under the workspace id, like the rows
+create policy "Members can read receipts" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'receipts' and public.workspace_role(((storage.foldername(name))[1])::uuid) is not null);
+create policy "Members can upload receipts" on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'receipts'
+    and public.has_role(((storage.foldername(name))[1])::uuid, 'OWNER', 'MANAGER', 'CLEANER')
+  );
+create policy "Managers can delete receipts" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'receipts'
+    and public.has_role(((storage.foldername(name))[1])::uuid, 'OWNER', 'MANAGER')
+  );
+
+-- Default categories now belong to a workspace
+drop trigger if exists on_auth_user_created_categories on auth.users;
+drop function if exists public.handle_new_user_categories();
+drop function if exists public.seed_default_categories(uuid);
+
+create or replace function public.seed_default_categories(target_workspace_id uuid, target_user_id uuid)
+returns void
+language sql
+security definer
+set search_path = ''
+as $$
+  insert into public.categories (workspace_id, user_id, type, code, name, color)
+  values
+    (target_workspace_id, target_user_id, 'income', 'RENTAL', 'Rental', '#6366F1'),
+    (target_workspace_id, target_user_id, 'income', 'SERVICES', 'Services', '#34D399'),
+    (target_workspace_id, target_user_id, 'income', 'OTHER', 'Other', '#9CA3AF'),
+    (target_workspace_id, target_user_id, 'expense', 'MAINTENANCE', 'Maintenance', '#F87171'),
+    (target_workspace_id, target_user_id, 'expense', 'UTILITIES', 'Utilities', '#FBBF24'),
+    (target_workspace_id, target_user_id, 'expense', 'SUPPLIES', 'Supplies', '#60A5FA'),
+    (target_workspace_id, target_user_id, 'expense', 'CLEANING', 'Cleaning', '#A78BFA'),
+    (target_workspace_id, target_user_id, 'expense', 'INSURANCE', 'Insurance', '#F472B6'),
+    (target_workspace_id, target_user_id, 'expense', 'OTHER', 'Other', '#9CA3AF')
+  on conflict (workspace_id, type, code) do nothing;
+$$;
+
+revoke execute on function public.seed_default_categories(uuid, uuid) from public, anon, authenticated;
+
+-- Adds a user to the workspace an invitation is for and makes it their
+-- active one. Not callable directly: it trusts the user id it is given.
+create or replace function public.join_workspace(invite_token text, joining_user_id uuid)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  invitation public.workspace_invitations;
+  joining_email text;
+begin
+  select email into joining_email from auth.users where id = joining_user_id;
+
+  select * into invitation from public.workspace_invitations
+  where token_hash = encode(sha256(convert_to(invite_token, 'UTF8')), 'hex')
+  for update;
+
+  if invitation.id is null or invitation.accepted_at is not null or invitation.expires_at < now() then
+    raise exception 'This invitation is no longer valid' using errcode = 'P0002';
+  end if;
+
+  if lower(invitation.email) <> lower(joining_email) then
+    raise exception 'This invitation was sent to a different email address' using errcode = '42501';
+  end if;
+
+  update public.workspace_members set is_active = false
+  where user_id = joining_user_id and is_active;
+
+  -- Someone already in the workspace keeps their role
+  insert into public.workspace_members (workspace_id, user_id, role, is_active)
+  values (invitation.workspace_id, joining_user_id, invitation.role, true)
+  on conflict (workspace_id, user_id) do update set is_active = true;
+
+  update public.workspace_invitations
+  set accepted_at = now(), accepted_by = joining_user_id
+  where id = invitation.id;
+
+  return invitation.workspace_id;
+end;
+$$;
+
+revoke execute on function public.join_workspace(text, uuid) from public, anon, authenticated;
+
+-- Accepting an invitation after signing in
+create or replace function public.accept_invitation(invite_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to accept an invitation' using errcode = '42501';
+  end if;
+
+  return public.join_workspace(invite_token, auth.uid());
+end;
+$$;
+
+revoke execute on function public.accept_invitation(text) from public, anon;
+grant execute on function public.accept_invitation(text) to authenticated;
+
+-- What an invitation link is for, shown before signing in or up
+create or replace function public.invitation_details(invite_token text)
+returns table (workspace_name text, email text, role text, status text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select
+    w.name,
+    i.email,
+    i.role,
+    case
+      when i.accepted_at is not null then 'ACCEPTED'
+      when i.expires_at < now() then 'EXPIRED'
+      else 'PENDING'
+    end
+  from public.workspace_invitations i
+  join public.workspaces w on w.id = i.workspace_id
+  where i.token_hash = encode(sha256(convert_to(invite_token, 'UTF8')), 'hex');
+$$;
+
+revoke execute on function public.invitation_details(text) from public;
+grant execute on function public.invitation_details(text) to anon, authenticated;
+
+create or replace function public.switch_workspace(target_workspace_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if not exists (
+    select 1 from public.workspace_members
+    where workspace_id = target_workspace_id and user_id = auth.uid()
+  ) then
+    raise exception 'Not a member of this workspace' using errcode = '42501';
+  end if;
+
+  update public.workspace_members set is_active = false
+  where user_id = auth.uid() and is_active and workspace_id <> target_workspace_id;
+  update public.workspace_members set is_active = true
+  where user_id = auth.uid() and workspace_id = target_workspace_id;
+end;
+$$;
+
+revoke execute on function public.switch_workspace(uuid) from public, anon;
+grant execute on function public.switch_workspace(uuid) to authenticated;
+
+-- Emails of everyone in the active workspace, for the members screen
+create or replace function public.workspace_member_emails()
+returns table (user_id uuid, email text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select m.user_id, u.email::text
+  from public.workspace_members m
+  join auth.users u on u.id = m.user_id
+  where m.workspace_id = public.active_workspace()
+    and public.workspace_role(m.workspace_id) is not null;
+$$;
+
+revoke execute on function public.workspace_member_emails() from public, anon;
+grant execute on function public.workspace_member_emails() to authenticated;
+
+-- Every new user owns a workspace, and signing up from an invitation link
+-- joins that workspace straight away
+create or replace function public.handle_new_user_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  new_workspace_id uuid;
+begin
+  insert into public.workspaces (name, created_by)
+  values (split_part(new.email, '@', 1) || '''s chalets', new.id)
+  returning id into new_workspace_id;
+
+  insert into public.workspace_members (workspace_id, user_id, role, is_active)
+  values (new_workspace_id, new.id, 'OWNER', true);
+
+  perform public.seed_default_categories(new_workspace_id, new.id);
+
+  if new.raw_user_meta_data ? 'invite_token' then
+    begin
+      perform public.join_workspace(new.raw_user_meta_data ->> 'invite_token', new.id);
+    exception when others then
+      -- A stale link must not block the signup; the link still works
+      -- afterwards if only the email confirmation was pending
+      raise warning 'Could not accept invitation for user %: %', new.id, sqlerrm;
+    end;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_auth_user_created_workspace on auth.users;
+create trigger on_auth_user_created_workspace
+  after insert on auth.users
+  for each row execute function public.handle_new_user_workspace();
@@ -0,0 +1,90 @@
+-- Append-only record of every insert, update and delete on the ledgers,
+-- written by triggers so that no path into the tables can skip it. Nobody
+-- can change or remove entries through the API; actor_id has no foreign key
+-- so the trail outlives deleted users.
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  workspace_id uuid not null references public.workspaces (id) on delete cascade,
+  -- Null for changes made by server jobs, such as recurring entries
+  actor_id uuid,
+  table_name text not null check (table_name in ('income', 'expenses')),
+  record_id uuid not null,
+  action text not null check (action in ('INSERT', 'UPDATE', 'DELETE')),
+  old_data jsonb,
+  new_data jsonb
+);
+
+create index if not exists audit_log_workspace_created_idx on public.audit_log (workspace_id, created_at desc);
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+-- Everyone who can read the ledgers can read their history
+create policy "Members can read the audit log" on public.audit_log
+  for select to authenticated using (public.has_role(workspace_id, 'OWNER', 'MANAGER', 'ACCOUNTANT'));
+
+revoke insert, update, delete, truncate on public.audit_log from anon, authenticated;
+
+create or replace function public.record_audit_entry()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  -- An update that changes nothing is not worth a line in the history
+  if tg_op = 'UPDATE' and to_jsonb(old) = to_jsonb(new) then
+    return null;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.audit_log (workspace_id, actor_id, table_name, record_id, action, old_data)
+    values (old.workspace_id, auth.uid(), tg_table_name, old.id, tg_op, to_jsonb(old));
+  else
+    insert into public.audit_log (workspace_id, actor_id, table_name, record_id, action, old_data, new_data)
+    values (
+      new.workspace_id,
+      auth.uid(),
+      tg_table_name,
+      new.id,
+      tg_op,
+      case when tg_op = 'UPDATE' then to_jsonb(old) end,
+      to_jsonb(new)
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists income_audit on public.income;
+create trigger income_audit
+  after insert or update or delete on public.income
+  for each row execute function public.record_audit_entry();
+
+drop trigger if exists expenses_audit on public.expenses;
+create trigger expenses_audit
+  after insert or update or delete on public.expenses
+  for each row execute function public.record_audit_entry();
+
+-- Emails of everyone who appears in the active workspace's audit log,
+-- including people who have since left it
+create or replace function public.audit_actor_emails()
+returns table (user_id uuid, email text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select u.id, u.email::text
+  from auth.users u
+  where u.id in (
+    select a.actor_id from public.audit_log a
+    where a.workspace_id = public.active_workspace()
+  )
+  and public.has_role(public.active_workspace(), 'OWNER', 'MANAGER', 'ACCOUNTANT');
+$$;
+
+revoke execute on function public.audit_actor_emails() from public, anon;
+grant execute on function public.audit_actor_emails() to authenticated;
@@ -0,0 +1,53 @@
+-- Full-text search on ledger descriptions. English stemming lets "cleaning"
+-- also find "cleaned"; Postgres keeps the column up to date itself.
+alter table public.income
+  add column if not exists description_search tsvector
+  generated always as (to_tsvector('english', coalesce(description, ''))) stored;
+
+alter table public.expenses
+  add column if not exists description_search tsvector
+  generated always as (to_tsvector('english', coalesce(description, ''))) stored;
+
+create index if not exists income_description_search_idx on public.income using gin (description_search);
+create index if not exists expenses_description_search_idx on public.expenses using gin (description_search);
+
+-- Rupee total of the entries matching the filters on the income or expense
+-- page, across every page of results. Runs as the caller so row-level
+-- security applies; null arguments leave that filter off.
+create or replace function public.ledger_total(
+  ledger text,
+  target_property_id uuid default null,
+  search text default null,
+  target_category text default null,
+  min_amount numeric default null,
+  max_amount numeric default null,
+  start_date date default null,
+  end_date date default null
+)
+returns numeric
+language sql
+stable
+security invoker
+set search_path = ''
+as $$
+  with entries as (
+    select i.date, i.base_amount, i.category, i.property_id, i.description_search
+    from public.income i
+    where ledger = 'income'
+    union all
+    select e.date, e.base_amount, e.category, e.property_id, e.description_search
+    from public.expenses e
+    where ledger = 'expenses'
+  )
+  select coalesce(sum(base_amount), 0)
+  from entries
+  where (target_property_id is null or property_id = target_property_id)
+    and (search is null or description_search @@ websearch_to_tsquery('english', search))
+    and (target_category is null or category = target_category)
+    and (min_amount is null or base_amount >= min_amount)
+    and (max_amount is null or base_amount <= max_amount)
+    and (start_date is null or date >= start_date)
+    and (end_date is null or date <= end_date);
+$$;
+
+grant execute on function public.ledger_total(text, uuid, text, text, numeric, numeric, date, date) to authenticated;
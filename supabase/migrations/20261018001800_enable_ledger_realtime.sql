@@ -0,0 +1,3 @@
+-- Send income and expense changes to open pages. Supabase Realtime only
+-- passes a row on to subscribers whose row-level security lets them read it.
+alter publication supabase_realtime add table public.income, public.expenses;
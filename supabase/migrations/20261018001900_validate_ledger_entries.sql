@@ -0,0 +1,69 @@
+-- The ledger rules from src/utils/validation.ts, enforced for every client.
+-- Errors are check violations with the offending field as the hint, so the
+-- app can show them next to that field. Updates only check the fields they
+-- change, so older entries can still be edited.
+create or replace function public.validate_ledger_entry()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' or new.amount is distinct from old.amount then
+    if new.amount <= 0 then
+      raise exception 'Amount must be greater than zero'
+        using errcode = 'check_violation', hint = 'amount';
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' or new.date is distinct from old.date then
+    if new.date > current_date + 365 then
+      raise exception 'Date cannot be more than 365 days ahead'
+        using errcode = 'check_violation', hint = 'date';
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' or new.description is distinct from old.description then
+    if btrim(new.description) = '' then
+      raise exception 'Description is required'
+        using errcode = 'check_violation', hint = 'description';
+    end if;
+    if char_length(new.description) > 200 then
+      raise exception 'Description must be at most 200 characters'
+        using errcode = 'check_violation', hint = 'description';
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' or new.exchange_rate is distinct from old.exchange_rate then
+    if new.exchange_rate <= 0 then
+      raise exception 'Exchange rate must be greater than zero'
+        using errcode = 'check_violation', hint = 'exchange_rate';
+    end if;
+  end if;
+
+  -- Archived categories stay valid, as recurring schedules may still use them
+  if tg_op = 'INSERT' or new.category is distinct from old.category then
+    if not exists (
+      select 1 from public.categories c
+      where c.workspace_id = new.workspace_id
+        and c.type = case tg_table_name when 'income' then 'income' else 'expense' end
+        and c.code = new.category
+    ) then
+      raise exception 'Choose a valid category'
+        using errcode = 'check_violation', hint = 'category';
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists income_validate on public.income;
+create trigger income_validate
+  before insert or update on public.income
+  for each row execute function public.validate_ledger_entry();
+
+drop trigger if exists expenses_validate on public.expenses;
+create trigger expenses_validate
+  before insert or update on public.expenses
+  for each row execute function public.validate_ledger_entry();
@@ -0,0 +1,204 @@
+-- Row-level security keeps each workspace's books apart: nobody reads or
+-- changes rows of a workspace they are not working in, even when they
+-- belong to it.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(28);
+
+-- Owner A, owner B, and someone who manages A and keeps B's accounts
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'owner-a@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'owner-b@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'both@example.com');
+
+insert into public.workspaces (id, name, created_by) values
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Workspace A', '11111111-1111-1111-1111-111111111111'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Workspace B', '22222222-2222-2222-2222-222222222222');
+
+-- Signing up gave everyone a workspace of their own; work in A and B instead
+update public.workspace_members set is_active = false;
+insert into public.workspace_members (workspace_id, user_id, role, is_active) values
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'OWNER', true),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'OWNER', true),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 'MANAGER', true),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '33333333-3333-3333-3333-333333333333', 'ACCOUNTANT', false);
+
+select public.seed_default_categories('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111');
+select public.seed_default_categories('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222');
+
+insert into public.properties (id, workspace_id, user_id, name) values
+  ('a0000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Chalet A'),
+  ('b0000000-0000-0000-0000-000000000001', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222', 'Chalet B');
+
+insert into public.income (id, workspace_id, user_id, property_id, date, amount, description, category) values
+  ('a0000000-0000-0000-0000-000000000002', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', current_date, 100, 'Stay in A', 'RENTAL'),
+  ('b0000000-0000-0000-0000-000000000002', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222',
+   'b0000000-0000-0000-0000-000000000001', current_date, 200, 'Stay in B', 'RENTAL');
+
+insert into public.expenses (id, workspace_id, user_id, property_id, date, amount, description, category) values
+  ('a0000000-0000-0000-0000-000000000003', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', current_date, 30, 'Power in A', 'UTILITIES'),
+  ('b0000000-0000-0000-0000-000000000003', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222',
+   'b0000000-0000-0000-0000-000000000001', current_date, 40, 'Power in B', 'UTILITIES');
+
+insert into public.bookings (id, workspace_id, user_id, property_id, guest_name, check_in, check_out, nightly_rate) values
+  ('a0000000-0000-0000-0000-000000000004', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', 'Guest A', current_date + 10, current_date + 12, 50),
+  ('b0000000-0000-0000-0000-000000000004', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222',
+   'b0000000-0000-0000-0000-000000000001', 'Guest B', current_date + 10, current_date + 12, 60);
+
+-- Signed out
+set local role anon;
+
+select is_empty('select id from public.income', 'Signed-out visitors read no income');
+select is_empty('select id from public.properties', 'Signed-out visitors read no properties');
+
+-- Owner A
+set local role authenticated;
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111"}', true);
+
+select is(
+  (select array_agg(id) from public.income),
+  array['a0000000-0000-0000-0000-000000000002'::uuid],
+  'An owner reads only their own workspace''s income'
+);
+select is(
+  (select array_agg(id) from public.expenses),
+  array['a0000000-0000-0000-0000-000000000003'::uuid],
+  'An owner reads only their own workspace''s expenses'
+);
+select is(
+  (select array_agg(id) from public.bookings),
+  array['a0000000-0000-0000-0000-000000000004'::uuid],
+  'An owner reads only their own workspace''s bookings'
+);
+select is(
+  (select array_agg(id) from public.properties),
+  array['a0000000-0000-0000-0000-000000000001'::uuid],
+  'An owner reads only their own workspace''s properties'
+);
+select is_empty(
+  $$select id from public.categories where workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'$$,
+  'An owner reads no categories of another workspace'
+);
+
+select throws_ok(
+  $$insert into public.income (workspace_id, property_id, date, amount, description, category)
+    values ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'b0000000-0000-0000-0000-000000000001', current_date, 5, 'Planted', 'RENTAL')$$,
+  '42501', null,
+  'An owner cannot add income to another workspace'
+);
+select throws_ok(
+  $$insert into public.expenses (workspace_id, property_id, date, amount, description, category)
+    values ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'b0000000-0000-0000-0000-000000000001', current_date, 5, 'Planted', 'UTILITIES')$$,
+  '42501', null,
+  'An owner cannot add expenses to another workspace'
+);
+select throws_ok(
+  $$insert into public.income (property_id, date, amount, description, category)
+    values ('b0000000-0000-0000-0000-000000000001', current_date, 5, 'Wrong chalet', 'RENTAL')$$,
+  '42501', null,
+  'An owner cannot book income against another workspace''s property'
+);
+select throws_ok(
+  $$insert into public.properties (workspace_id, name) values ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Planted')$$,
+  '42501', null,
+  'An owner cannot add properties to another workspace'
+);
+
+select is_empty(
+  $$update public.income set amount = 1 where id = 'b0000000-0000-0000-0000-000000000002' returning id$$,
+  'An owner cannot change another workspace''s income'
+);
+select is_empty(
+  $$update public.bookings set guest_name = 'Changed' where id = 'b0000000-0000-0000-0000-000000000004' returning id$$,
+  'An owner cannot change another workspace''s bookings'
+);
+select throws_ok(
+  $$update public.income set workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb' where id = 'a0000000-0000-0000-0000-000000000002'$$,
+  '42501', null,
+  'An owner cannot move their income into another workspace'
+);
+
+select is_empty(
+  $$delete from public.expenses where id = 'b0000000-0000-0000-0000-000000000003' returning id$$,
+  'An owner cannot delete another workspace''s expenses'
+);
+select is_empty(
+  $$delete from public.properties where id = 'b0000000-0000-0000-0000-000000000001' returning id$$,
+  'An owner cannot delete another workspace''s properties'
+);
+select is_empty(
+  $$select id from public.audit_log where workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'$$,
+  'An owner reads no history of another workspace'
+);
+
+-- Someone in both workspaces only sees the one they are working in
+select set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333"}', true);
+
+select is(
+  (select array_agg(id) from public.income),
+  array['a0000000-0000-0000-0000-000000000002'::uuid],
+  'A member of two workspaces reads only the active one''s income'
+);
+select throws_ok(
+  $$insert into public.income (workspace_id, property_id, date, amount, description, category)
+    values ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'b0000000-0000-0000-0000-000000000001', current_date, 5, 'Elsewhere', 'RENTAL')$$,
+  '42501', null,
+  'A member cannot add income to a workspace they are not working in'
+);
+select is(
+  (select count(*) from public.workspace_members where workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  1::bigint,
+  'A member only sees their own membership of an inactive workspace'
+);
+
+select lives_ok(
+  $$select public.switch_workspace('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb')$$,
+  'A member can switch to another workspace they belong to'
+);
+select is(
+  (select array_agg(id) from public.income),
+  array['b0000000-0000-0000-0000-000000000002'::uuid],
+  'After switching, the member reads the other workspace''s income'
+);
+select throws_ok(
+  $$insert into public.income (property_id, date, amount, description, category)
+    values ('b0000000-0000-0000-0000-000000000001', current_date, 5, 'As accountant', 'RENTAL')$$,
+  '42501', null,
+  'After switching, the member has their role in that workspace'
+);
+select throws_ok(
+  $$select public.switch_workspace('cccccccc-cccc-cccc-cccc-cccccccccccc')$$,
+  '42501', null,
+  'Nobody can switch to a workspace they do not belong to'
+);
+
+-- Owner B was never touched
+reset role;
+
+select is(
+  (select amount from public.income where id = 'b0000000-0000-0000-0000-000000000002'),
+  200.00::numeric,
+  'The other workspace''s income is unchanged'
+);
+select is(
+  (select guest_name from public.bookings where id = 'b0000000-0000-0000-0000-000000000004'),
+  'Guest B',
+  'The other workspace''s booking is unchanged'
+);
+select is(
+  (select count(*) from public.expenses where workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  1::bigint,
+  'The other workspace''s expenses are all there'
+);
+select is(
+  (select count(*) from public.properties where workspace_id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  1::bigint,
+  'The other workspace''s properties are all there'
+);
+
+select * from finish();
+rollback;
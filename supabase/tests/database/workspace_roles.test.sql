@@ -0,0 +1,220 @@
+-- What each role may do within its workspace: owners everything, managers
+-- the ledgers and bookings, cleaners only cleaning expenses, accountants
+-- only read.
+begin;
+create extension if not exists pgtap with schema extensions;
+
+select plan(40);
+
+insert into auth.users (id, email) values
+  ('11111111-1111-1111-1111-111111111111', 'owner@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'manager@example.com'),
+  ('33333333-3333-3333-3333-333333333333', 'cleaner@example.com'),
+  ('44444444-4444-4444-4444-444444444444', 'accountant@example.com');
+
+insert into public.workspaces (id, name, created_by) values
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Workspace A', '11111111-1111-1111-1111-111111111111');
+
+-- Signing up gave everyone a workspace of their own; work in A instead
+update public.workspace_members set is_active = false;
+insert into public.workspace_members (workspace_id, user_id, role, is_active) values
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'OWNER', true),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222', 'MANAGER', true),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '33333333-3333-3333-3333-333333333333', 'CLEANER', true),
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '44444444-4444-4444-4444-444444444444', 'ACCOUNTANT', true);
+
+select public.seed_default_categories('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111');
+
+insert into public.properties (id, workspace_id, user_id, name) values
+  ('a0000000-0000-0000-0000-000000000001', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111', 'Chalet A');
+
+insert into public.income (id, workspace_id, user_id, property_id, date, amount, description, category) values
+  ('a0000000-0000-0000-0000-000000000002', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', current_date, 100, 'Stay', 'RENTAL');
+
+insert into public.expenses (id, workspace_id, user_id, property_id, date, amount, description, category) values
+  ('a0000000-0000-0000-0000-000000000003', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', current_date, 30, 'Power', 'UTILITIES'),
+  ('a0000000-0000-0000-0000-000000000005', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', current_date, 20, 'Turnover clean', 'CLEANING');
+
+insert into public.bookings (id, workspace_id, user_id, property_id, guest_name, check_in, check_out, nightly_rate) values
+  ('a0000000-0000-0000-0000-000000000004', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'a0000000-0000-0000-0000-000000000001', 'Guest', current_date + 10, current_date + 12, 50);
+
+set local role authenticated;
+
+-- Owner
+select set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111"}', true);
+
+select lives_ok(
+  $$insert into public.properties (id, name) values ('a0000000-0000-0000-0000-000000000011', 'Second chalet')$$,
+  'An owner can add properties'
+);
+select isnt_empty(
+  $$update public.properties set location = 'Gulmarg' where id = 'a0000000-0000-0000-0000-000000000001' returning id$$,
+  'An owner can change properties'
+);
+select isnt_empty(
+  $$delete from public.properties where id = 'a0000000-0000-0000-0000-000000000011' returning id$$,
+  'An owner can delete properties'
+);
+select lives_ok(
+  $$insert into public.categories (type, code, name) values ('expense', 'LAUNDRY', 'Laundry')$$,
+  'An owner can add categories'
+);
+select lives_ok(
+  $$insert into public.income (id, property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000012', 'a0000000-0000-0000-0000-000000000001', current_date, 10, 'Owner entry', 'RENTAL')$$,
+  'An owner can add income'
+);
+select isnt_empty(
+  $$update public.income set amount = 11 where id = 'a0000000-0000-0000-0000-000000000012' returning id$$,
+  'An owner can change income'
+);
+select isnt_empty(
+  $$delete from public.income where id = 'a0000000-0000-0000-0000-000000000012' returning id$$,
+  'An owner can delete income'
+);
+
+-- Manager
+select set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222"}', true);
+
+select is((select count(*) from public.income), 1::bigint, 'A manager reads income');
+select is((select count(*) from public.expenses), 2::bigint, 'A manager reads every expense');
+select is((select count(*) from public.bookings), 1::bigint, 'A manager reads bookings');
+select lives_ok(
+  $$insert into public.income (id, property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000022', 'a0000000-0000-0000-0000-000000000001', current_date, 10, 'Manager entry', 'RENTAL')$$,
+  'A manager can add income'
+);
+select isnt_empty(
+  $$update public.expenses set amount = 31 where id = 'a0000000-0000-0000-0000-000000000003' returning id$$,
+  'A manager can change expenses'
+);
+select isnt_empty(
+  $$delete from public.income where id = 'a0000000-0000-0000-0000-000000000022' returning id$$,
+  'A manager can delete income'
+);
+select lives_ok(
+  $$insert into public.bookings (property_id, guest_name, check_in, check_out, nightly_rate)
+    values ('a0000000-0000-0000-0000-000000000001', 'Next guest', current_date + 20, current_date + 22, 50)$$,
+  'A manager can add bookings'
+);
+select throws_ok(
+  $$insert into public.properties (name) values ('Manager chalet')$$,
+  '42501', null,
+  'A manager cannot add properties'
+);
+select is_empty(
+  $$update public.properties set name = 'Renamed' where id = 'a0000000-0000-0000-0000-000000000001' returning id$$,
+  'A manager cannot change properties'
+);
+select is_empty(
+  $$delete from public.properties where id = 'a0000000-0000-0000-0000-000000000001' returning id$$,
+  'A manager cannot delete properties'
+);
+select throws_ok(
+  $$insert into public.categories (type, code, name) values ('expense', 'SNACKS', 'Snacks')$$,
+  '42501', null,
+  'A manager cannot add categories'
+);
+
+-- Cleaner
+select set_config('request.jwt.claims', '{"sub": "33333333-3333-3333-3333-333333333333"}', true);
+
+select is_empty('select id from public.income', 'A cleaner reads no income');
+select is(
+  (select array_agg(id) from public.expenses),
+  array['a0000000-0000-0000-0000-000000000005'::uuid],
+  'A cleaner reads only cleaning expenses'
+);
+select is_empty('select id from public.bookings', 'A cleaner reads no bookings');
+select lives_ok(
+  $$insert into public.expenses (property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000001', current_date, 15, 'Mop', 'CLEANING')$$,
+  'A cleaner can log cleaning expenses'
+);
+select throws_ok(
+  $$insert into public.expenses (property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000001', current_date, 15, 'Heater', 'UTILITIES')$$,
+  '42501', null,
+  'A cleaner cannot log other expenses'
+);
+select throws_ok(
+  $$insert into public.income (property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000001', current_date, 15, 'Tip', 'OTHER')$$,
+  '42501', null,
+  'A cleaner cannot add income'
+);
+select is_empty(
+  $$update public.expenses set amount = 1 where id = 'a0000000-0000-0000-0000-000000000005' returning id$$,
+  'A cleaner cannot change expenses'
+);
+select is_empty(
+  $$delete from public.expenses where id = 'a0000000-0000-0000-0000-000000000005' returning id$$,
+  'A cleaner cannot delete expenses'
+);
+
+-- Accountant
+select set_config('request.jwt.claims', '{"sub": "44444444-4444-4444-4444-444444444444"}', true);
+
+select is((select count(*) from public.income), 1::bigint, 'An accountant reads income');
+select is((select count(*) from public.expenses), 3::bigint, 'An accountant reads every expense');
+select is((select count(*) from public.bookings), 2::bigint, 'An accountant reads bookings');
+select isnt_empty('select id from public.audit_log', 'An accountant reads the history');
+select throws_ok(
+  $$insert into public.income (property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000001', current_date, 15, 'Adjustment', 'OTHER')$$,
+  '42501', null,
+  'An accountant cannot add income'
+);
+select throws_ok(
+  $$insert into public.expenses (property_id, date, amount, description, category)
+    values ('a0000000-0000-0000-0000-000000000001', current_date, 15, 'Adjustment', 'OTHER')$$,
+  '42501', null,
+  'An accountant cannot add expenses'
+);
+select is_empty(
+  $$update public.income set amount = 1 where id = 'a0000000-0000-0000-0000-000000000002' returning id$$,
+  'An accountant cannot change income'
+);
+select is_empty(
+  $$delete from public.expenses where id = 'a0000000-0000-0000-0000-000000000003' returning id$$,
+  'An accountant cannot delete expenses'
+);
+select is_empty(
+  $$update public.bookings set status = 'CANCELLED' where id = 'a0000000-0000-0000-0000-000000000004' returning id$$,
+  'An accountant cannot change bookings'
+);
+select is_empty(
+  $$delete from public.bookings where id = 'a0000000-0000-0000-0000-000000000004' returning id$$,
+  'An accountant cannot delete bookings'
+);
+
+-- The refused changes left the rows as they were
+reset role;
+
+select is(
+  (select amount from public.income where id = 'a0000000-0000-0000-0000-000000000002'),
+  100.00::numeric,
+  'Income is unchanged by refused updates'
+);
+select is(
+  (select amount from public.expenses where id = 'a0000000-0000-0000-0000-000000000005'),
+  20.00::numeric,
+  'The cleaning expense is unchanged by refused updates'
+);
+select is(
+  (select status from public.bookings where id = 'a0000000-0000-0000-0000-000000000004'),
+  'PENDING',
+  'The booking is unchanged by refused updates'
+);
+select is(
+  (select name from public.properties where id = 'a0000000-0000-0000-0000-000000000001'),
+  'Chalet A',
+  'The property is unchanged by refused updates'
+);
+
+select * from finish();
+rollback;
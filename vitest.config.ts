@@ -0,0 +1,14 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+// Dates are tested on the calendar of the app's users, where the UTC date
+// lags behind until 05:30
+process.env.TZ = 'Asia/Kolkata';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  }
+});